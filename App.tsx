@@ -1,11 +1,32 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { LayoutDashboard, MessageSquareText, Image, Film, Radio, Globe, Shield, Activity, Database, Lock, Sun, Moon, Power, Wifi, Cpu, ChevronLeft, ChevronRight } from 'lucide-react';
-import { ModuleView, LogEntry } from './types';
+import React, { useState, useEffect } from 'react';
+import { LayoutDashboard, Command, MessageSquareText, Image, Film, Radio, Globe, Shield, Database, Lock, Sun, Moon, Power, Wifi, Cpu, ChevronLeft, ChevronRight, Layers, Receipt, Settings } from 'lucide-react';
+import { ModuleView, LogEntry, LogDetails } from './types';
 import LogConsole from './components/LogConsole';
 import IntelChat from './components/IntelChat';
 import VisualOps from './components/VisualOps';
 import MediaLab from './components/MediaLab';
 import LiveComms from './components/LiveComms';
+import OperatorRoster from './components/OperatorRoster';
+import OperatorProfilePanel from './components/OperatorProfilePanel';
+import JobsPanel from './components/JobsPanel';
+import UsageDashboard from './components/UsageDashboard';
+import SettingsPanel from './components/SettingsPanel';
+import OpsDashboard from './components/OpsDashboard';
+import LockScreen from './components/LockScreen';
+import PowerMenu from './components/PowerMenu';
+import CommandPalette from './components/CommandPalette';
+import { useMesh, subscribeMeshStatus } from './services/mesh';
+import { usePresence } from './services/presence';
+import { getOperatorProfile, useOperatorProfile } from './services/operatorProfile';
+import { useJobs } from './services/jobManager';
+import { subscribeBudgetAlerts } from './services/usage';
+import { subscribeGeminiRetries } from './services/geminiClient';
+import { getPreferences, updatePreferences, usePreferences } from './services/preferences';
+import { appendLog, mergeLogEntry, useLogs } from './services/logStore';
+import { formatBytes, formatLatency, useTelemetry } from './services/telemetry';
+import { lockSession, useIdleLock, useSessionLock } from './services/sessionLock';
+import { shutdownSystem } from './services/shutdown';
+import { navigateTo, useRoute } from './services/router';
 
 declare global {
   interface Window {
@@ -14,42 +35,99 @@ declare global {
 }
 
 const App: React.FC = () => {
-  const [activeView, setActiveView] = useState<ModuleView>(ModuleView.LIVE_COMMS);
-  const [logs, setLogs] = useState<LogEntry[]>([]);
-  const [theme, setTheme] = useState<'dark' | 'light'>('dark');
-  const [isSidebarOpen, setIsSidebarOpen] = useState(true);
+  // The active module lives in the URL hash, so reloads, links and back/forward keep it
+  const route = useRoute();
+  const activeView = route.view;
+  const setActiveView = (view: ModuleView) => navigateTo(view);
+  const logs = useLogs();
+  // Persisted interface preferences (SETTINGS)
+  const preferences = usePreferences();
+  const theme = preferences.interface.theme;
+  const isSidebarOpen = preferences.interface.sidebarOpen;
+  const setTheme = (next: 'dark' | 'light') => updatePreferences('interface', { theme: next });
+  const setIsSidebarOpen = (open: boolean) => updatePreferences('interface', { sidebarOpen: open });
+
+  // Collaborative Identity
+  const profile = useOperatorProfile();
+  const identity = profile.callsign;
+  const [isProfileOpen, setIsProfileOpen] = useState(false);
+
+  // Background Jobs
+  const jobs = useJobs();
+  const activeJobCount = jobs.filter(job => job.status === 'queued' || job.status === 'running').length;
+  const [isJobsOpen, setIsJobsOpen] = useState(false);
   
-  // Simulated stats
-  const [threatLevel, setThreatLevel] = useState('NORMAL');
-  const [systemLoad, setSystemLoad] = useState(0);
+  // Measured API, Live, network and heap stats for the sidebar meter, HUD and dashboard
+  const telemetry = useTelemetry();
+  const heapPercent = telemetry.heap ? Math.round((telemetry.heap.usedBytes / telemetry.heap.limitBytes) * 100) : null;
+  const { network } = telemetry;
+
+  // Session lock and shutdown (header Power button)
+  const lock = useSessionLock();
+  useIdleLock(preferences.security.idleLockMinutes);
+  const [isPowerOpen, setIsPowerOpen] = useState(false);
+  const [isHalted, setIsHalted] = useState(false);
+  const isConcealed = lock.locked || isHalted;
 
-  const channelRef = useRef<BroadcastChannel | null>(null);
+  // Command palette (Ctrl/Cmd+K)
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
 
   useEffect(() => {
-    // Global Mesh Network Listener for Navigation
-    const channel = new BroadcastChannel('meli_mesh_network');
-    channelRef.current = channel;
-
-    channel.onmessage = (event) => {
-      const { type, payload } = event.data;
-      if (type === 'CMD_NAVIGATE') {
-          if (payload.view && Object.values(ModuleView).includes(payload.view)) {
-              setActiveView(payload.view);
-              addLog('SYS', `Navigation Override: ${payload.view}`, 'warning');
-          }
+    if (isConcealed) {
+      setIsPaletteOpen(false);
+      return;
+    }
+    const onKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setIsPaletteOpen(open => !open);
       }
     };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [isConcealed]);
+
+  // Read at call time: addLog is captured by long-lived subscriptions
+  const isSharingLogs = () => getPreferences().logs.shareOverMesh;
+
+  // Global Mesh Network Listener for Navigation and shared logs.
+  // Rejections stay out of the shared log, or peers on another protocol version would echo them back and forth.
+  const publishMesh = useMesh((message) => {
+    if (message.type === 'CMD_NAVIGATE') {
+        setActiveView(message.payload.view);
+        addLog('SYS', `Navigation Override: ${message.payload.view}`, 'warning', { correlationId: message.correlationId });
+    } else if (message.type === 'LOG_ENTRY' && isSharingLogs()) {
+        mergeLogEntry(message.payload);
+    }
+  }, (reason) => appendLog(createLog('NET', `Mesh packet rejected: ${reason}`, 'warning')));
+
+  useEffect(() => {
+    return subscribeMeshStatus((status, relayUrl) => {
+        if (status === 'CONNECTED') addLog('NET', `Mesh relay linked: ${relayUrl}`, 'success');
+        else if (status === 'DISCONNECTED') addLog('NET', 'Mesh relay unreachable. Local channel only, retrying...', 'warning');
+    });
+  }, []);
+
+  useEffect(() => {
+    return subscribeBudgetAlerts((message) => addLog('USAGE', message, 'warning'));
+  }, []);
+
+  useEffect(() => {
+    return subscribeGeminiRetries(({ label, attempt, maxRetries, delayMs, error, correlationId }) =>
+      addLog('RETRY', `${label}: ${error.kind} - retry ${attempt}/${maxRetries} in ${(delayMs / 1000).toFixed(1)}s`, 'warning', {
+        correlationId,
+        data: { kind: error.kind, detail: error.detail },
+      }));
+  }, []);
 
-    const interval = setInterval(() => {
-        setSystemLoad(Math.floor(20 + Math.random() * 30));
-        // Random "glitch" update
-        if (Math.random() > 0.95) {
-             addLog('SYS', 'Packet rerouting...', 'info');
-        }
-    }, 1500);
+  useEffect(() => {
+    const onOffline = () => addLog('NET', 'Network connection lost.', 'error');
+    const onOnline = () => addLog('NET', 'Network connection restored.', 'success');
+    window.addEventListener('offline', onOffline);
+    window.addEventListener('online', onOnline);
     return () => {
-        clearInterval(interval);
-        channel.close();
+      window.removeEventListener('offline', onOffline);
+      window.removeEventListener('online', onOnline);
     };
   }, []);
 
@@ -62,17 +140,43 @@ const App: React.FC = () => {
     }
   }, [theme]);
 
-  const addLog = (source: string, message: string, type: LogEntry['type'] = 'info') => {
-    const newLog: LogEntry = {
-      id: Date.now().toString() + Math.random(),
-      timestamp: new Date().toLocaleTimeString([], { hour12: false }),
+  const createLog = (source: string, message: string, type: LogEntry['type'] = 'info', details: LogDetails = {}): LogEntry => {
+    const now = Date.now();
+    return {
+      id: now.toString() + Math.random(),
+      timestamp: new Date(now).toLocaleTimeString([], { hour12: false }),
       source,
       message,
-      type
+      type,
+      // Read at call time: long-lived subscriptions hold the first render's addLog
+      operator: getOperatorProfile().callsign,
+      time: now,
+      ...details
     };
-    setLogs(prev => [...prev.slice(-49), newLog]); // Keep last 50
   };
 
+  const addLog = (source: string, message: string, type: LogEntry['type'] = 'info', details: LogDetails = {}) => {
+    const newLog = createLog(source, message, type, details);
+    appendLog(newLog); // Ring buffer persisted in IndexedDB (size set in SETTINGS)
+    if (isSharingLogs()) publishMesh({ type: 'LOG_ENTRY', payload: newLog }, newLog.correlationId);
+  };
+
+  const handleLock = () => {
+    setIsPowerOpen(false);
+    lockSession();
+    addLog('SYS', 'Session locked.', 'info');
+  };
+
+  const handleShutdown = async (wipe: boolean) => {
+    setIsPowerOpen(false);
+    addLog('SYS', wipe ? 'Shutdown requested. Wiping local data...' : 'Shutdown requested.', 'warning');
+    await shutdownSystem({ wipe });
+    setIsHalted(true);
+    addLog('SYS', wipe ? 'System halted. Local chat, logs and artifacts wiped.' : 'System halted.', 'warning');
+  };
+
+  const peers = usePresence({ identity, color: profile.color, activeModule: activeView, addLog });
+
   const SidebarItem = ({ view, icon: Icon, label }: { view: ModuleView, icon: any, label: string }) => (
     <button
       onClick={() => setActiveView(view)}
@@ -98,7 +202,7 @@ const App: React.FC = () => {
       <div className="absolute inset-0 z-0 bg-radial-gradient from-transparent to-ops-950 opacity-80 pointer-events-none"></div>
 
       {/* Sidebar - M.E.L. style is cleaner, floating feel */}
-      <div className={`${isSidebarOpen ? 'w-72' : 'w-20'} bg-black/90 backdrop-blur-md border-r border-ops-800 flex flex-col z-20 shadow-[10px_0_30px_rgba(0,0,0,0.5)] transition-all duration-300 relative`}>
+      <div className={`${isSidebarOpen ? 'w-72' : 'w-20'} bg-black/90 backdrop-blur-md border-r border-ops-800 flex flex-col z-20 shadow-[10px_0_30px_rgba(0,0,0,0.5)] transition-all duration-300 relative ${isConcealed ? 'invisible' : ''}`}>
         
         {/* Toggle Button */}
         <button 
@@ -129,95 +233,133 @@ const App: React.FC = () => {
           <SidebarItem view={ModuleView.VISUAL_OPS} icon={Image} label="VISUAL_OPS" />
           <SidebarItem view={ModuleView.MEDIA_LAB} icon={Film} label="MEDIA_LAB" />
           <SidebarItem view={ModuleView.LIVE_COMMS} icon={Radio} label="SECURE_LINK" />
+          <SidebarItem view={ModuleView.USAGE} icon={Receipt} label="USAGE_LEDGER" />
+          <SidebarItem view={ModuleView.SETTINGS} icon={Settings} label="SETTINGS" />
+          {isSidebarOpen && <OperatorRoster identity={identity} color={profile.color} activeModule={activeView} peers={peers} />}
         </div>
 
         <div className={`p-6 border-t border-ops-800 space-y-4 bg-black/50 overflow-hidden transition-all duration-300 ${isSidebarOpen ? 'opacity-100' : 'opacity-0 h-0 p-0'}`}>
             <div className="flex items-center justify-between">
                 <div className="flex items-center gap-2">
                      <Cpu size={14} className="text-ops-text-dim" />
-                     <span className="text-[10px] font-mono text-ops-text-dim">CPU_LOAD</span>
+                     <span className="text-[10px] font-mono text-ops-text-dim">JS_HEAP</span>
                 </div>
-                <span className="text-[10px] font-mono text-ops-accent">{systemLoad}%</span>
+                <span className="text-[10px] font-mono text-ops-accent" title={telemetry.heap ? `${formatBytes(telemetry.heap.usedBytes)} / ${formatBytes(telemetry.heap.limitBytes)}` : 'Not reported by this browser'}>
+                    {heapPercent !== null ? `${heapPercent}%` : 'N/A'}
+                </span>
             </div>
             <div className="w-full bg-ops-800 h-0.5">
-                <div className="h-full bg-ops-accent" style={{width: `${systemLoad}%`}}></div>
+                <div className="h-full bg-ops-accent" style={{width: `${heapPercent ?? 0}%`}}></div>
+            </div>
+            <div className="flex items-center justify-between text-[10px] font-mono text-ops-text-dim">
+                <span>API_P95</span>
+                <span className={telemetry.api.errorRate >= 0.1 ? 'text-ops-warn' : 'text-ops-accent'}>
+                    {formatLatency(telemetry.api.p95)} · {Math.round(telemetry.api.errorRate * 100)}% ERR
+                </span>
             </div>
             
             <div className="flex items-center justify-between text-[10px] font-mono text-ops-500 pt-2">
-                <span className="flex items-center gap-1"><Lock size={10} /> ENCRYPTED</span>
+                <span className={`flex items-center gap-1 ${lock.hasPasscode ? '' : 'text-ops-warn'}`} title={lock.hasPasscode ? 'Passcode set; the session can be locked' : 'Set a passcode in SETTINGS to enable locking'}>
+                    <Lock size={10} /> {lock.hasPasscode ? 'LOCK ARMED' : 'NO PASSCODE'}
+                </span>
                 <span>v4.1.0</span>
             </div>
         </div>
         {/* Minimized Footer Icon when closed */}
         {!isSidebarOpen && (
              <div className="p-4 border-t border-ops-800 bg-black/50 flex justify-center animate-in fade-in duration-500">
-                <Lock size={16} className="text-ops-800" />
+                <Lock size={16} className={lock.hasPasscode ? 'text-ops-800' : 'text-ops-warn/60'} />
              </div>
         )}
       </div>
 
       {/* Main Content */}
-      <div className="flex-1 flex flex-col relative z-10 min-w-0">
+      <div className={`flex-1 flex flex-col relative z-10 min-w-0 ${isConcealed ? 'invisible' : ''}`}>
         
         {/* Top Status Bar (HUD style) */}
         <div className="h-12 bg-black/50 border-b border-ops-800 flex items-center justify-between px-6 backdrop-blur-sm z-30">
             <div className="flex items-center gap-6">
                 <div className="flex items-center gap-2 text-ops-text-dim text-xs font-mono">
                     <Globe size={12} />
-                    <span className="hidden sm:inline">NET_STATUS: <span className="text-green-500">CONNECTED</span></span>
+                    <span className="hidden sm:inline">
+                        NET_STATUS: {network.online
+                            ? <span className="text-green-500">ONLINE{network.effectiveType ? ` (${network.effectiveType.toUpperCase()})` : ''}</span>
+                            : <span className="text-ops-alert">OFFLINE</span>}
+                    </span>
                 </div>
                 <div className="h-3 w-px bg-ops-800 hidden sm:block"></div>
-                <div className="text-ops-text-dim text-xs font-mono tracking-wider hidden sm:block">
-                    OP_ID: <span className="text-white">ALPHA-7</span>
-                </div>
+                <button
+                    onClick={() => setIsProfileOpen(true)}
+                    title="Edit operator profile"
+                    className="text-ops-text-dim text-xs font-mono tracking-wider hidden sm:block hover:text-white transition-colors"
+                >
+                    OP_ID: <span style={{ color: profile.color }}>{identity}</span>
+                </button>
             </div>
             <div className="flex items-center gap-4">
+                 <button
+                    onClick={() => setIsPaletteOpen(true)}
+                    title="Command palette (Ctrl/Cmd+K)"
+                    className="flex items-center gap-1 text-ops-text-dim hover:text-white transition-colors font-mono text-[10px]"
+                 >
+                    <Command size={14} /> <span className="hidden md:inline">K</span>
+                 </button>
+                 <button
+                    onClick={() => setIsJobsOpen(!isJobsOpen)}
+                    title="Background jobs"
+                    className={`relative transition-colors ${isJobsOpen ? 'text-ops-accent' : 'text-ops-text-dim hover:text-white'}`}
+                 >
+                    <Layers size={14} />
+                    {activeJobCount > 0 && (
+                        <span className="absolute -top-1.5 -right-2 min-w-[14px] h-[14px] px-0.5 rounded-full bg-ops-accent text-black text-[9px] font-mono font-bold flex items-center justify-center">
+                            {activeJobCount}
+                        </span>
+                    )}
+                 </button>
                  <button onClick={() => setTheme(theme === 'dark' ? 'light' : 'dark')} className="text-ops-text-dim hover:text-white transition-colors">
                     {theme === 'dark' ? <Sun size={14} /> : <Moon size={14} />}
                  </button>
-                 <Power size={14} className="text-ops-alert cursor-pointer hover:text-red-400" />
+                 <button onClick={() => setIsPowerOpen(!isPowerOpen)} title="Lock or shut down" className="text-ops-alert hover:text-red-400 transition-colors">
+                    <Power size={14} />
+                 </button>
             </div>
         </div>
 
-        <div className="flex-1 overflow-hidden relative p-6">
-          {/* Dashboard is a special case layout, but we can just toggle it like the others */}
-          <div className={`h-full w-full flex items-center justify-center relative ${activeView === ModuleView.DASHBOARD ? 'flex' : 'hidden'}`}>
-                {/* Central M.E.L. Eye / Visualization */}
-                <div className="relative flex items-center justify-center scale-75 sm:scale-100 transition-transform">
-                    {/* Outer Rings */}
-                    <div className="absolute w-[600px] h-[600px] border border-ops-800 rounded-full opacity-20 animate-[spin_60s_linear_infinite]"></div>
-                    <div className="absolute w-[500px] h-[500px] border border-dashed border-ops-800 rounded-full opacity-20 animate-[spin_40s_linear_infinite_reverse]"></div>
-                    <div className="absolute w-[400px] h-[400px] border border-ops-500/10 rounded-full animate-pulse"></div>
-
-                    {/* Central Core */}
-                    <div className="relative z-10 flex flex-col items-center justify-center bg-black/80 p-12 rounded-full border border-ops-800 backdrop-blur-md shadow-[0_0_50px_rgba(0,255,242,0.1)]">
-                        <Activity size={64} className="text-ops-accent mb-4 animate-pulse" />
-                        <h2 className="text-4xl font-mono font-bold text-white tracking-[0.2em] mb-2">STANDBY</h2>
-                        <div className="flex items-center gap-2 text-ops-accent text-xs font-mono tracking-widest">
-                            <span className="w-1.5 h-1.5 bg-ops-accent rounded-full animate-pulse"></span>
-                            LISTENING FOR DIRECTIVE
-                        </div>
-                    </div>
+        {isJobsOpen && (
+            <JobsPanel
+                jobs={jobs}
+                onOpenView={(view) => { setActiveView(view); setIsJobsOpen(false); }}
+                onClose={() => setIsJobsOpen(false)}
+            />
+        )}
 
-                    {/* Floating HUD Elements */}
-                    <div className="absolute -left-64 top-0 tech-border p-4 bg-black/40 backdrop-blur w-48 hidden lg:block">
-                        <div className="text-[10px] font-mono text-ops-text-dim mb-1">THREAT ASSESSMENT</div>
-                        <div className="text-2xl font-mono text-white tracking-widest">{threatLevel}</div>
-                    </div>
+        {isPowerOpen && (
+            <PowerMenu
+                hasPasscode={lock.hasPasscode}
+                onLock={handleLock}
+                onShutdown={handleShutdown}
+                onOpenSettings={() => { setActiveView(ModuleView.SETTINGS); setIsPowerOpen(false); }}
+                onClose={() => setIsPowerOpen(false)}
+            />
+        )}
 
-                    <div className="absolute -right-64 bottom-0 tech-border p-4 bg-black/40 backdrop-blur w-48 text-right hidden lg:block">
-                        <div className="text-[10px] font-mono text-ops-text-dim mb-1">DATA STREAMS</div>
-                        <div className="text-2xl font-mono text-ops-accent tracking-widest">ACTIVE</div>
-                    </div>
-                </div>
+        <div className="flex-1 overflow-hidden relative p-6">
+          {/* Dashboard is a special case layout, but we can just toggle it like the others */}
+          <div className={`h-full w-full relative ${activeView === ModuleView.DASHBOARD ? 'flex' : 'hidden'}`}>
+                <OpsDashboard identity={identity} addLog={addLog} onOpenView={setActiveView} />
 
                 {/* Footer Data Stream */}
                 <div className="absolute bottom-0 left-0 right-0 h-12 border-t border-ops-800 flex items-center px-6 gap-8 bg-black/60 backdrop-blur-sm">
-                    <div className="flex items-center gap-2 font-mono text-[10px] text-ops-text-dim opacity-50">
-                        <Wifi size={10} /> LINK_STABLE
+                    <div className={`flex items-center gap-2 font-mono text-[10px] ${network.online ? 'text-ops-text-dim opacity-50' : 'text-ops-alert'}`}>
+                        <Wifi size={10} /> {network.online ? 'LINK_UP' : 'LINK_DOWN'}
+                        {network.rttMs !== undefined && ` · ${network.rttMs}ms RTT`}
+                        {network.downlinkMbps !== undefined && ` · ${network.downlinkMbps}Mbps`}
                     </div>
-                    <div className="flex-1 font-mono text-[10px] text-ops-500 overflow-hidden whitespace-nowrap opacity-40">
-                        0101011010101 SYSTEM_CHECK_COMPLETE ... PROXY_ROUTING ... NODE_SYNC ... ENCRYPTION_KEY_ROTATED ... AWAITING_INPUT
+                    <div className="flex-1 font-mono text-[10px] text-ops-500 overflow-hidden whitespace-nowrap opacity-60">
+                        API P50 {formatLatency(telemetry.api.p50)} ... P95 {formatLatency(telemetry.api.p95)} ... P99 {formatLatency(telemetry.api.p99)}
+                        {' '}... ERR {telemetry.api.errors}/{telemetry.api.calls}{telemetry.api.lastError ? ` (LAST ${telemetry.api.lastError})` : ''}
+                        {' '}... JOBS {telemetry.activeJobs} ... LIVE {telemetry.live.state}
+                        {telemetry.heap && ` ... HEAP ${formatBytes(telemetry.heap.usedBytes)}`}
                     </div>
                 </div>
           </div>
@@ -231,7 +373,7 @@ const App: React.FC = () => {
                  <div className="absolute bottom-0 right-0 w-2 h-2 border-b border-r border-ops-accent pointer-events-none z-20"></div>
 
                 <div className={`h-full w-full flex-col ${activeView === ModuleView.INTEL ? 'flex' : 'hidden'}`}>
-                    <IntelChat addLog={addLog} />
+                    <IntelChat addLog={addLog} profile={profile} />
                 </div>
                 <div className={`h-full w-full flex-col ${activeView === ModuleView.VISUAL_OPS ? 'flex' : 'hidden'}`}>
                     <VisualOps addLog={addLog} />
@@ -240,16 +382,40 @@ const App: React.FC = () => {
                     <MediaLab addLog={addLog} />
                 </div>
                 <div className={`h-full w-full flex-col ${activeView === ModuleView.LIVE_COMMS ? 'flex' : 'hidden'}`}>
-                    <LiveComms addLog={addLog} />
+                    <LiveComms addLog={addLog} profile={profile} />
+                </div>
+                <div className={`h-full w-full flex-col ${activeView === ModuleView.USAGE ? 'flex' : 'hidden'}`}>
+                    <UsageDashboard addLog={addLog} />
+                </div>
+                <div className={`h-full w-full flex-col ${activeView === ModuleView.SETTINGS ? 'flex' : 'hidden'}`}>
+                    <SettingsPanel addLog={addLog} onEditProfile={() => setIsProfileOpen(true)} />
                 </div>
           </div>
         </div>
 
         {/* Bottom Log Console */}
-        <div className="h-48 z-20 shrink-0 border-t border-ops-800 bg-black relative">
-          <LogConsole logs={logs} />
+        <div className="h-56 z-20 shrink-0 border-t border-ops-800 bg-black relative">
+          <LogConsole logs={logs} addLog={addLog} />
         </div>
       </div>
+
+      {isProfileOpen && !isConcealed && <OperatorProfilePanel profile={profile} onClose={() => setIsProfileOpen(false)} />}
+
+      {isPaletteOpen && !isConcealed && <CommandPalette addLog={addLog} onClose={() => setIsPaletteOpen(false)} />}
+
+      {isHalted && (
+        <div className="fixed inset-0 z-[90] flex flex-col items-center justify-center gap-6 bg-black font-mono">
+          <Power size={32} className="text-ops-alert" />
+          <h2 className="text-lg font-bold text-white tracking-[0.4em]">SYSTEM HALTED</h2>
+          <p className="text-[10px] text-ops-text-dim tracking-widest">Sessions closed. Devices released. Jobs cancelled.</p>
+          <button onClick={() => window.location.reload()} className="px-6 py-2 text-[10px] tracking-widest border border-ops-accent/50 text-ops-accent hover:bg-ops-accent/10">
+            REBOOT
+          </button>
+        </div>
+      )}
+
+      {lock.locked && <LockScreen identity={identity} addLog={addLog} />}
+
     </div>
   );
 };
@@ -0,0 +1,167 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Command, CornerDownLeft, History, Search } from 'lucide-react';
+import { LogEntry, LogDetails } from '../types';
+import { useMesh } from '../services/mesh';
+import { createCorrelationId } from '../services/correlation';
+import {
+    fuzzyMatch,
+    getPaletteCommand,
+    PALETTE_COMMANDS,
+    PaletteCommand,
+    recordCommand,
+    useCommandHistory,
+} from '../services/commandPalette';
+
+interface CommandPaletteProps {
+    addLog: (source: string, message: string, type?: LogEntry['type'], details?: LogDetails) => void;
+    onClose: () => void;
+}
+
+interface PaletteItem {
+    key: string;
+    command: PaletteCommand;
+    text?: string;       // Set for recent entries, which rerun with the same text
+    indices: number[];   // Matched label characters
+}
+
+const MAX_RESULTS = 12;
+
+const highlight = (label: string, indices: number[]) =>
+    label.split('').map((char, i) => indices.includes(i) ? <span key={i} className="text-ops-accent">{char}</span> : char);
+
+const CommandPalette: React.FC<CommandPaletteProps> = ({ addLog, onClose }) => {
+    const [query, setQuery] = useState('');
+    const [selected, setSelected] = useState(0);
+    // Command waiting for its query or prompt
+    const [pending, setPending] = useState<PaletteCommand | null>(null);
+    const inputRef = useRef<HTMLInputElement>(null);
+    const history = useCommandHistory();
+    const publish = useMesh();
+
+    const items = useMemo((): PaletteItem[] => {
+        if (pending) return [];
+        const recents = history.flatMap((entry): PaletteItem[] => {
+            const command = getPaletteCommand(entry.commandId);
+            return command ? [{ key: `recent:${entry.time}`, command, text: entry.text, indices: [] }] : [];
+        });
+        if (!query.trim()) {
+            return [...recents, ...PALETTE_COMMANDS.map(command => ({ key: command.id, command, indices: [] }))];
+        }
+        const ranked = PALETTE_COMMANDS.flatMap(command => {
+            // Group and keywords widen the search; only label matches are highlighted
+            const onLabel = fuzzyMatch(query, command.label);
+            const match = onLabel || fuzzyMatch(query, `${command.group} ${command.label} ${command.keywords || ''}`);
+            if (!match) return [];
+            return [{ item: { key: command.id, command, indices: onLabel ? onLabel.indices : [] }, score: match.score }];
+        });
+        return ranked.sort((a, b) => b.score - a.score).slice(0, MAX_RESULTS).map(({ item }) => item);
+    }, [query, pending, history]);
+
+    useEffect(() => setSelected(0), [query, pending]);
+
+    useEffect(() => {
+        inputRef.current?.focus();
+    }, [pending]);
+
+    const run = (command: PaletteCommand, text?: string) => {
+        const cid = createCorrelationId('palette');
+        const [first, ...rest] = command.messages(text || '');
+        addLog('SYS', `Command palette: ${command.label}${text ? ` "${text}"` : ''}`, 'info', { correlationId: cid, data: { command: command.id, text } });
+        publish(first, cid);
+        // Same spacing as the voice tools: the module is shown before it receives the command
+        rest.forEach(message => setTimeout(() => publish(message, cid), 50));
+        recordCommand(command.id, text);
+        onClose();
+    };
+
+    const choose = (item: PaletteItem | undefined) => {
+        if (!item) return;
+        if (item.command.argument && item.text === undefined) {
+            setPending(item.command);
+            setQuery('');
+            return;
+        }
+        run(item.command, item.text);
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Escape') {
+            e.preventDefault();
+            if (pending) {
+                setPending(null);
+                setQuery('');
+            } else {
+                onClose();
+            }
+        } else if (pending) {
+            if (e.key === 'Enter' && query.trim()) {
+                e.preventDefault();
+                run(pending, query.trim());
+            }
+        } else if (e.key === 'ArrowDown') {
+            e.preventDefault();
+            setSelected(index => Math.min(index + 1, items.length - 1));
+        } else if (e.key === 'ArrowUp') {
+            e.preventDefault();
+            setSelected(index => Math.max(index - 1, 0));
+        } else if (e.key === 'Enter') {
+            e.preventDefault();
+            choose(items[selected]);
+        }
+    };
+
+    const recentCount = query.trim() || pending ? 0 : history.length;
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-start justify-center pt-[15vh] bg-black/60 backdrop-blur-sm" onClick={onClose}>
+            <div className="w-[560px] tech-border bg-ops-950 font-mono shadow-[0_10px_40px_rgba(0,0,0,0.6)]" onClick={e => e.stopPropagation()}>
+                <div className="flex items-center gap-3 px-4 py-3 border-b border-ops-800">
+                    {pending ? (
+                        <span className="shrink-0 text-[10px] tracking-widest text-ops-accent border border-ops-accent/40 px-2 py-0.5">{pending.label}</span>
+                    ) : (
+                        <Search size={14} className="shrink-0 text-ops-text-dim" />
+                    )}
+                    <input
+                        ref={inputRef}
+                        value={query}
+                        onChange={e => setQuery(e.target.value)}
+                        onKeyDown={handleKeyDown}
+                        placeholder={pending ? pending.argument : 'Type a command...'}
+                        className="flex-1 bg-transparent outline-none text-sm text-ops-text-main placeholder:text-ops-text-dim"
+                    />
+                    <span className="shrink-0 text-[9px] text-ops-text-dim border border-ops-800 px-1.5 py-0.5">ESC</span>
+                </div>
+
+                {pending ? (
+                    <div className="px-4 py-3 text-[10px] text-ops-text-dim flex items-center gap-2">
+                        <CornerDownLeft size={10} /> ENTER to run · ESC to pick another command
+                    </div>
+                ) : (
+                    <div className="max-h-[50vh] overflow-y-auto custom-scrollbar py-1">
+                        {items.length === 0 && <div className="px-4 py-3 text-[10px] text-ops-text-dim">No matching commands.</div>}
+                        {items.map((item, index) => (
+                            <React.Fragment key={item.key}>
+                                {index === 0 && recentCount > 0 && <div className="px-4 pt-2 pb-1 text-[9px] tracking-widest text-ops-500">RECENT</div>}
+                                {index === recentCount && recentCount > 0 && <div className="px-4 pt-3 pb-1 text-[9px] tracking-widest text-ops-500">ALL COMMANDS</div>}
+                                <button
+                                    onClick={() => choose(item)}
+                                    onMouseMove={() => setSelected(index)}
+                                    className={`w-full flex items-center gap-3 px-4 py-2 text-left text-xs ${index === selected ? 'bg-ops-accent/10 text-white' : 'text-ops-text-main'}`}
+                                >
+                                    {index < recentCount
+                                        ? <History size={12} className="shrink-0 text-ops-text-dim" />
+                                        : <Command size={12} className="shrink-0 text-ops-text-dim" />}
+                                    <span className="shrink-0">{highlight(item.command.label, item.indices)}</span>
+                                    {item.text && <span className="truncate text-ops-text-dim">"{item.text}"</span>}
+                                    <span className="ml-auto shrink-0 text-[9px] tracking-widest text-ops-500">{item.command.group}</span>
+                                </button>
+                            </React.Fragment>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default CommandPalette;
@@ -1,56 +1,59 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { GoogleGenAI, Type } from "@google/genai";
-import { ChatMessage, LogEntry } from '../types';
+import { Type } from "@google/genai";
+import { ChatMessage, INTEL_MODES, IntelMode, LogDetails, LogEntry, ModuleView, OperatorProfile } from '../types';
 import { BrainCircuit, Send, Loader2, MapPin, ShieldAlert, Globe, Crosshair, BarChart2, Users, Radio, Terminal, CornerDownRight } from 'lucide-react';
 import DataVisualizer from './DataVisualizer';
+import { getGeminiClient, handleGeminiError } from '../services/geminiClient';
+import { useMesh } from '../services/mesh';
+import { createCorrelationId } from '../services/correlation';
+import { buildGenerationConfig, getModeSettings } from '../services/modelRegistry';
+import { subscribeShutdown } from '../services/shutdown';
+import { useDeepLink } from '../services/router';
 
 interface IntelChatProps {
-  addLog: (source: string, message: string, type?: LogEntry['type']) => void;
+  addLog: (source: string, message: string, type?: LogEntry['type'], details?: LogDetails) => void;
+  profile: OperatorProfile; // Callsign and colour used for authorship on the mesh
 }
 
-const IntelChat: React.FC<IntelChatProps> = ({ addLog }) => {
+const IntelChat: React.FC<IntelChatProps> = ({ addLog, profile }) => {
+  const identity = profile.callsign;
   const [input, setInput] = useState('');
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [loading, setLoading] = useState(false);
-  const [mode, setMode] = useState<'flash' | 'web_ops' | 'geo_int' | 'strategy' | 'analytics'>('flash');
-  
-  // Collaborative Identity
-  const [identity] = useState(() => `OP-${Math.floor(Math.random() * 9000) + 1000}`);
-  const channelRef = useRef<BroadcastChannel | null>(null);
-  const scrollRef = useRef<HTMLDivElement>(null);
-
-  // Initialize Collaborative Mesh
-  useEffect(() => {
-    const channel = new BroadcastChannel('meli_mesh_network');
-    channelRef.current = channel;
+  const [mode, setMode] = useState<IntelMode>(profile.defaultMode);
 
-    channel.onmessage = (event) => {
-      const { type, payload } = event.data;
-      if (type === 'SYNC_MESSAGE') {
-        setMessages(prev => {
-          // Avoid duplicates
-          if (prev.some(m => m.id === payload.id)) return prev;
-          return [...prev, payload];
-        });
-      } else if (type === 'SYSTEM_COMMAND' && payload.target === 'INTEL') {
-          // Handle Remote Search Command
-          if (payload.action === 'search' && payload.query) {
-              setMode('web_ops');
-              setInput(payload.query);
-              // Slight delay to allow state update before execute
-              setTimeout(() => {
-                   executeCommand(payload.query, 'web_ops');
-              }, 100);
-          }
-      }
-    };
-
-    addLog('NET', `Joined mesh network as ${identity}`, 'success');
+  const scrollRef = useRef<HTMLDivElement>(null);
 
-    return () => {
-      channel.close();
-    };
-  }, [identity]);
+  useEffect(() => subscribeShutdown(({ wipe }) => {
+    if (!wipe) return;
+    setMessages([]);
+    setInput('');
+  }), []);
+
+  // Collaborative Mesh
+  const publish = useMesh((message) => {
+    if (message.type === 'SYNC_MESSAGE') {
+      const payload = message.payload;
+      setMessages(prev => {
+        // Avoid duplicates
+        if (prev.some(m => m.id === payload.id)) return prev;
+        return [...prev, payload];
+      });
+    } else if (message.type === 'SYSTEM_COMMAND' && message.payload.target === 'INTEL') {
+        // Handle Remote Search Command
+        const { query, mode: commandMode = 'web_ops' } = message.payload;
+        const { correlationId } = message;
+        if (query) {
+            addLog('INTEL', 'Remote search command received.', 'warning', { correlationId, data: { query, mode: commandMode } });
+            setMode(commandMode);
+            setInput(query);
+            // Slight delay to allow state update before execute
+            setTimeout(() => {
+                 executeCommand(query, commandMode, correlationId);
+            }, 100);
+        }
+    }
+  });
 
   useEffect(() => {
     if (scrollRef.current) {
@@ -58,74 +61,64 @@ const IntelChat: React.FC<IntelChatProps> = ({ addLog }) => {
     }
   }, [messages, loading]);
 
-  const broadcastMessage = (msg: ChatMessage) => {
-    channelRef.current?.postMessage({ type: 'SYNC_MESSAGE', payload: msg });
+  const broadcastMessage = (msg: ChatMessage, correlationId?: string) => {
+    publish({ type: 'SYNC_MESSAGE', payload: msg }, correlationId);
   };
 
-  const executeCommand = async (textInput: string, currentMode: string) => {
+  const executeCommand = async (textInput: string, currentMode: IntelMode, correlationId?: string) => {
     if (!textInput.trim()) return;
+    const cid = correlationId || createCorrelationId('intel');
+    // Model, prompt and sampling come from the registry (editable per mode)
+    const settings = getModeSettings(currentMode);
+    const modelId = settings.model;
+    const startedAt = Date.now();
     
     const userMsg: ChatMessage = {
       id: Date.now().toString() + Math.random(),
       role: 'user',
       content: textInput,
       timestamp: Date.now(),
-      authorId: identity
+      authorId: identity,
+      authorColor: profile.color
     };
 
     // Update local and broadcast
     setMessages(prev => [...prev, userMsg]);
-    broadcastMessage(userMsg);
+    broadcastMessage(userMsg, cid);
     
     setInput('');
     setLoading(true);
 
     try {
-      // Check for API key selection for environments that require it
-      const win = window as any;
-      if (win.aistudio && await win.aistudio.hasSelectedApiKey() === false) {
-           addLog('INTEL', 'Security Key required. Requesting access...', 'warning');
-           await win.aistudio.openSelectKey();
-      }
-
-      const apiKey = process.env.API_KEY;
-      if (!apiKey) {
-          throw new Error("System Identity Token (API_KEY) missing from environment.");
-      }
-
-      const ai = new GoogleGenAI({ apiKey });
+      const ai = await getGeminiClient({
+          onKeyRequest: () => addLog('INTEL', 'Security Key required. Requesting access...', 'warning', { correlationId: cid }),
+          usage: { module: ModuleView.INTEL, mode: currentMode },
+          correlationId: cid
+      });
       let response;
-      let modelId = 'gemini-2.5-flash'; 
-
-      addLog('INTEL', `Executing directive: [${currentMode.toUpperCase()}]`, 'info');
+      const generationConfig = buildGenerationConfig(settings);
 
-      const baseSystemInstruction = "You are MELI, a high-performance intelligence interface. Respond with precision, using tactical terminology. Format responses for quick scanning. Prioritize actionable intelligence.";
+      addLog('INTEL', `Executing directive: [${currentMode.toUpperCase()}] via ${modelId}`, 'info', { correlationId: cid, model: modelId, data: { mode: currentMode, prompt: textInput } });
 
       if (currentMode === 'strategy') {
         // Thinking Mode - Complex Reasoning
-        modelId = 'gemini-3-pro-preview';
         response = await ai.models.generateContent({
             model: modelId,
             contents: userMsg.content,
-            config: {
-                thinkingConfig: { thinkingBudget: 32768 },
-                systemInstruction: baseSystemInstruction + " Engage strategic reasoning. Analyze second-order effects."
-            }
+            config: generationConfig
         });
       } else if (currentMode === 'web_ops') {
         // Search Grounding
-        modelId = 'gemini-2.5-flash';
         response = await ai.models.generateContent({
             model: modelId,
             contents: userMsg.content,
             config: {
-                tools: [{ googleSearch: {} }],
-                systemInstruction: baseSystemInstruction + " Prioritize Open Source Intelligence (OSINT). Provide sources."
+                ...generationConfig,
+                tools: [{ googleSearch: {} }]
             }
         });
       } else if (currentMode === 'geo_int') {
          // Maps Grounding
-         modelId = 'gemini-2.5-flash';
          let location = { latitude: 37.7749, longitude: -122.4194 }; 
          try {
              const pos = await new Promise<GeolocationPosition>((resolve, reject) => 
@@ -133,30 +126,29 @@ const IntelChat: React.FC<IntelChatProps> = ({ addLog }) => {
              );
              location = { latitude: pos.coords.latitude, longitude: pos.coords.longitude };
          } catch (e) {
-             addLog('INTEL', 'Geo-lock failed, using triangulation default.', 'warning');
+             addLog('INTEL', 'Geo-lock failed, using triangulation default.', 'warning', { correlationId: cid });
          }
 
          response = await ai.models.generateContent({
              model: modelId,
              contents: userMsg.content,
              config: {
+                 ...generationConfig,
                  tools: [{ googleMaps: {} }],
                  toolConfig: {
                     retrievalConfig: {
                         latLng: location
                     }
-                 },
-                 systemInstruction: baseSystemInstruction + " Provide precise geospatial coordinates and location data."
+                 }
              }
          });
       } else if (currentMode === 'analytics') {
           // Analytics Mode - JSON Output
-          modelId = 'gemini-2.5-flash';
           response = await ai.models.generateContent({
               model: modelId,
               contents: userMsg.content,
               config: {
-                  systemInstruction: baseSystemInstruction + " Return strictly JSON data matching the schema for visualization.",
+                  ...generationConfig,
                   responseMimeType: "application/json",
                   responseSchema: {
                       type: Type.OBJECT,
@@ -180,13 +172,10 @@ const IntelChat: React.FC<IntelChatProps> = ({ addLog }) => {
           });
       } else {
          // Standard Low Latency
-         modelId = 'gemini-2.5-flash-lite-latest'; 
          response = await ai.models.generateContent({
              model: modelId,
              contents: userMsg.content,
-             config: {
-                 systemInstruction: baseSystemInstruction
-             }
+             config: generationConfig
          });
       }
 
@@ -216,16 +205,29 @@ const IntelChat: React.FC<IntelChatProps> = ({ addLog }) => {
       };
 
       setMessages(prev => [...prev, aiMsg]);
-      broadcastMessage(aiMsg);
-      addLog('INTEL', 'Data packet received and decrypted.', 'success');
-
-    } catch (err: any) {
+      broadcastMessage(aiMsg, cid);
+      addLog('INTEL', 'Data packet received and decrypted.', 'success', {
+        correlationId: cid,
+        model: modelId,
+        durationMs: Date.now() - startedAt,
+        data: { characters: text.length, sources: groundingMetadata?.groundingChunks?.length || 0 }
+      });
+
+    } catch (err) {
         console.error(err);
-        addLog('INTEL', `Operation failed: ${err.message}`, 'error');
+        const error = await handleGeminiError(err, {
+            onReauthorize: () => addLog('INTEL', 'Resource access denied. Re-requesting authorization...', 'warning', { correlationId: cid })
+        });
+        addLog('INTEL', `Operation failed [${error.kind}]: ${error.message}`, 'error', {
+          correlationId: cid,
+          model: modelId,
+          durationMs: Date.now() - startedAt,
+          data: { kind: error.kind, detail: error.detail }
+        });
         const errorMsg: ChatMessage = {
             id: Date.now().toString(),
             role: 'model',
-            content: `CRITICAL ERROR: ${err.message}`,
+            content: `CRITICAL ERROR [${error.kind}]: ${error.message}`,
             timestamp: Date.now()
         };
         setMessages(prev => [...prev, errorMsg]);
@@ -234,6 +236,19 @@ const IntelChat: React.FC<IntelChatProps> = ({ addLog }) => {
     }
   };
 
+  // Deep link: #/intel?mode=web_ops&query=...&run=1
+  useDeepLink(ModuleView.INTEL, ({ mode: linkMode, query }, autoRun) => {
+    const nextMode = INTEL_MODES.includes(linkMode as IntelMode) ? linkMode as IntelMode : mode;
+    setMode(nextMode);
+    if (query) setInput(query);
+    if (autoRun && query) {
+      const cid = createCorrelationId('link');
+      addLog('INTEL', 'Deep link query received.', 'info', { correlationId: cid, data: { query, mode: nextMode } });
+      // Same delay as remote commands, so the mode switch renders first
+      setTimeout(() => executeCommand(query, nextMode, cid), 100);
+    }
+  });
+
   const handleSend = () => {
       executeCommand(input, mode);
   };
@@ -281,10 +296,10 @@ const IntelChat: React.FC<IntelChatProps> = ({ addLog }) => {
             </h2>
             <div className="flex gap-2 items-center">
                 <div className="flex gap-1">
-                    {['flash', 'web_ops', 'geo_int', 'analytics', 'strategy'].map((m) => (
+                    {INTEL_MODES.map((m) => (
                         <button 
                             key={m}
-                            onClick={() => setMode(m as any)}
+                            onClick={() => setMode(m)}
                             className={`px-3 py-1 rounded-none text-[9px] font-bold font-mono tracking-widest uppercase border transition-all ${
                                 mode === m 
                                 ? 'bg-ops-accent text-black border-ops-accent' 
@@ -314,7 +329,9 @@ const IntelChat: React.FC<IntelChatProps> = ({ addLog }) => {
                 <div key={msg.id} className="w-full font-mono group animate-in fade-in slide-in-from-bottom-2 duration-300">
                     {/* Message Header */}
                     <div className="flex items-center gap-2 text-[10px] tracking-widest mb-1 opacity-60">
-                         <span className={isSystem ? 'text-ops-accent' : 'text-ops-500'}>
+                         <span
+                             className={isSystem ? 'text-ops-accent' : 'text-ops-500'}
+                             style={!isSystem && msg.authorColor ? { color: msg.authorColor } : undefined}>
                              {isSystem ? 'MELI::SYSTEM_RESPONSE' : `OP::${msg.authorId || 'UNKNOWN'}`}
                          </span>
                          <span className="text-ops-800">|</span>
@@ -0,0 +1,103 @@
+import React, { useEffect, useState } from 'react';
+import { Layers, X, RotateCcw, Square, Trash2, ExternalLink } from 'lucide-react';
+import { JobRecord, JobStatus, ModuleView } from '../types';
+import { cancelJob, clearFinishedJobs, MAX_CONCURRENT_JOBS, retryJob } from '../services/jobManager';
+
+interface JobsPanelProps {
+    jobs: JobRecord[];
+    onOpenView: (view: ModuleView) => void;
+    onClose: () => void;
+}
+
+const STATUS_STYLES: Record<JobStatus, string> = {
+    queued: 'text-ops-text-dim border-ops-800',
+    running: 'text-ops-accent border-ops-accent/50',
+    succeeded: 'text-green-400 border-green-500/40',
+    failed: 'text-ops-alert border-ops-alert/50',
+    cancelled: 'text-ops-warn border-ops-warn/40',
+};
+
+const formatElapsed = (job: JobRecord, now: number) => {
+    if (!job.startedAt) return '--';
+    const seconds = Math.round(((job.finishedAt || now) - job.startedAt) / 1000);
+    return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m${String(seconds % 60).padStart(2, '0')}s`;
+};
+
+const JobsPanel: React.FC<JobsPanelProps> = ({ jobs, onOpenView, onClose }) => {
+    const [now, setNow] = useState(Date.now());
+
+    // Tick elapsed times while anything is running
+    useEffect(() => {
+        const interval = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(interval);
+    }, []);
+
+    const running = jobs.filter(job => job.status === 'running').length;
+    const hasFinished = jobs.some(job => job.status !== 'queued' && job.status !== 'running');
+
+    return (
+        <div className="absolute right-6 top-12 w-[420px] max-h-[60vh] flex flex-col tech-border bg-ops-950/95 backdrop-blur-md shadow-[0_10px_40px_rgba(0,0,0,0.6)] z-40 font-mono">
+            <div className="flex items-center justify-between px-4 py-2 border-b border-ops-800">
+                <span className="flex items-center gap-2 text-xs font-bold text-white tracking-widest">
+                    <Layers size={14} className="text-ops-accent" /> JOB_QUEUE
+                </span>
+                <div className="flex items-center gap-3">
+                    <span className="text-[10px] text-ops-text-dim">{running}/{MAX_CONCURRENT_JOBS} SLOTS</span>
+                    {hasFinished && (
+                        <button onClick={clearFinishedJobs} title="Clear finished jobs" className="text-ops-text-dim hover:text-white">
+                            <Trash2 size={12} />
+                        </button>
+                    )}
+                    <button onClick={onClose} className="text-ops-text-dim hover:text-white"><X size={14} /></button>
+                </div>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-2 space-y-2 custom-scrollbar">
+                {jobs.length === 0 && (
+                    <div className="text-[10px] text-ops-text-dim italic px-2 py-4 text-center">No background jobs.</div>
+                )}
+                {[...jobs].reverse().map(job => {
+                    const active = job.status === 'queued' || job.status === 'running';
+                    return (
+                        <div key={job.id} className={`border-l-2 px-3 py-2 bg-black/40 ${STATUS_STYLES[job.status]}`}>
+                            <div className="flex items-center gap-2 text-[10px]">
+                                <span className="font-bold">{job.source}</span>
+                                <span className="text-ops-text-main truncate flex-1" title={job.label}>{job.label}</span>
+                                <span className="uppercase tracking-wider">{job.status}</span>
+                            </div>
+
+                            {job.status === 'running' && (
+                                <div className="w-full bg-ops-800 h-0.5 mt-2 overflow-hidden">
+                                    {job.progress === null
+                                        ? <div className="h-full w-1/3 bg-ops-accent animate-pulse"></div>
+                                        : <div className="h-full bg-ops-accent transition-all" style={{ width: `${Math.round(job.progress * 100)}%` }}></div>}
+                                </div>
+                            )}
+
+                            <div className="flex items-center gap-2 mt-1 text-[9px] text-ops-text-dim">
+                                <span className="truncate flex-1">{job.error || job.detail || (job.status === 'queued' ? 'Waiting for a free slot' : '')}</span>
+                                {job.attempts > 1 && <span>TRY {job.attempts}</span>}
+                                <span>{formatElapsed(job, now)}</span>
+                                <button onClick={() => onOpenView(job.view)} title="Open module" className="hover:text-white">
+                                    <ExternalLink size={10} />
+                                </button>
+                                {active && (
+                                    <button onClick={() => cancelJob(job.id)} title="Cancel job" className="hover:text-ops-alert">
+                                        <Square size={10} />
+                                    </button>
+                                )}
+                                {(job.status === 'failed' || job.status === 'cancelled') && (
+                                    <button onClick={() => retryJob(job.id)} title="Retry job" className="hover:text-ops-accent">
+                                        <RotateCcw size={10} />
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
+
+export default JobsPanel;
@@ -1,11 +1,23 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { GoogleGenAI, LiveServerMessage, Modality, FunctionDeclaration, Type } from "@google/genai";
-import { LogEntry } from '../types';
+import { LiveServerMessage, Modality, FunctionDeclaration, Type } from "@google/genai";
+import { LogDetails, LogEntry, ModuleView, OperatorProfile } from '../types';
 import { Mic, MicOff, Zap, Volume2, Activity, Disc, Square, Radio, Globe, Camera, ScanFace, Target, AlertTriangle, User, Search, Eye } from 'lucide-react';
-import { createPcmBlob, decodeAudioData, decodeAudio, encodeWAV, blobToBase64 } from '../services/geminiUtils';
+import { createAudioBuffer, createResampler, createWavWriter, LIVE_INPUT_RATE, LIVE_OUTPUT_RATE, WavWriter } from '../services/geminiUtils';
+import { blobToBase64, createPcmPart, decodePcm } from '../services/codec';
+import { createPcmCaptureNode, loadCaptureWorklet, stopPcmCapture, LIVE_FRAME_SIZE, RECORDING_FRAME_SIZE } from '../services/audioCapture';
+import { createLinkQualityMonitor, isQualityDrop, LinkMetrics, LinkQuality, LinkQualityMonitor } from '../services/linkQuality';
+import { getGeminiClient, handleGeminiError } from '../services/geminiClient';
+import { isLocalMessage, useMesh, MeshMessage } from '../services/mesh';
+import { MeshProtocolError, parseMeshMessage } from '../services/meshProtocol';
+import { createCorrelationId } from '../services/correlation';
+import { buildGenerationConfig, getModeSettings } from '../services/modelRegistry';
+import { getPreferences } from '../services/preferences';
+import { subscribeShutdown } from '../services/shutdown';
+import { subscribeSessionLock } from '../services/sessionLock';
 
 interface LiveCommsProps {
-    addLog: (source: string, message: string, type?: LogEntry['type']) => void;
+    addLog: (source: string, message: string, type?: LogEntry['type'], details?: LogDetails) => void;
+    profile: OperatorProfile;
 }
 
 type SignalState = 'OFFLINE' | 'SEARCHING' | 'WEAK' | 'STABLE' | 'OPTIMAL';
@@ -46,6 +58,34 @@ interface BiometricData {
 }
 
 // Tool Definitions for Full Sync Control
+const navigate = (view: ModuleView): MeshMessage => ({ type: 'CMD_NAVIGATE', payload: { view } });
+
+const requireText = (args: Record<string, unknown>, key: string): string => {
+    const value = args[key];
+    if (typeof value !== 'string' || !value.trim()) throw new MeshProtocolError(`tool argument ${key} is missing`);
+    return value;
+};
+
+/**
+ * Turns a tool call into the mesh messages it dispatches. The arguments come from the model
+ * and are untrusted, so they go through the same validation as packets from other tabs;
+ * MeshProtocolError is thrown for unknown tools and malformed arguments.
+ */
+const toolCallMessages = (name: string | undefined, args: Record<string, unknown>): MeshMessage[] => {
+    switch (name) {
+        case 'change_view':
+            return [parseMeshMessage('CMD_NAVIGATE', { view: args.view })];
+        case 'execute_visual_ops':
+            return [navigate(ModuleView.VISUAL_OPS), parseMeshMessage('SYSTEM_COMMAND', { target: 'VISUAL_OPS', action: args.action, prompt: requireText(args, 'prompt') })];
+        case 'execute_media_lab':
+            return [navigate(ModuleView.MEDIA_LAB), parseMeshMessage('SYSTEM_COMMAND', { target: 'MEDIA_LAB', type: args.type, prompt: requireText(args, 'prompt') })];
+        case 'search_intel':
+            return [navigate(ModuleView.INTEL), parseMeshMessage('SYSTEM_COMMAND', { target: 'INTEL', action: 'search', query: requireText(args, 'query') })];
+        default:
+            throw new MeshProtocolError(`unknown tool ${String(name).slice(0, 32)}`);
+    }
+};
+
 const toolDeclarations: FunctionDeclaration[] = [
     {
         name: "change_view",
@@ -55,7 +95,7 @@ const toolDeclarations: FunctionDeclaration[] = [
             properties: {
                 view: { 
                     type: Type.STRING, 
-                    enum: ["DASHBOARD", "INTEL", "VISUAL_OPS", "MEDIA_LAB", "LIVE_COMMS"],
+                    enum: ["DASHBOARD", "INTEL", "VISUAL_OPS", "MEDIA_LAB", "LIVE_COMMS", "USAGE", "SETTINGS"],
                     description: "The target module to navigate to."
                 }
             },
@@ -99,11 +139,12 @@ const toolDeclarations: FunctionDeclaration[] = [
     }
 ];
 
-const LiveComms: React.FC<LiveCommsProps> = ({ addLog }) => {
+const LiveComms: React.FC<LiveCommsProps> = ({ addLog, profile }) => {
     const [connected, setConnected] = useState(false);
     const [mediaActive, setMediaActive] = useState(false);
     const [videoEnabled, setVideoEnabled] = useState(false);
     const [signalQuality, setSignalQuality] = useState<SignalState>('OFFLINE');
+    const [linkMetrics, setLinkMetrics] = useState<LinkMetrics | null>(null);
     const [isRecording, setIsRecording] = useState(false);
     const [isTransmittingCmd, setIsTransmittingCmd] = useState(false);
     
@@ -117,6 +158,7 @@ const LiveComms: React.FC<LiveCommsProps> = ({ addLog }) => {
     const inputContextRef = useRef<AudioContext | null>(null);
     const outputContextRef = useRef<AudioContext | null>(null);
     const nextStartTimeRef = useRef<number>(0);
+    const linkMonitorRef = useRef<LinkQualityMonitor | null>(null);
     const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
     const streamRef = useRef<MediaStream | null>(null);
     const videoRef = useRef<HTMLVideoElement>(null);
@@ -124,13 +166,13 @@ const LiveComms: React.FC<LiveCommsProps> = ({ addLog }) => {
     const animationFrameRef = useRef<number>(0);
     
     // Recording & Integration Refs
-    const broadcastChannelRef = useRef<BroadcastChannel | null>(null);
     const transcriptBufferRef = useRef<{user: string, model: string}>({user: '', model: ''});
 
     // WAV Recording Refs
     const recordingMixerRef = useRef<GainNode | null>(null);
-    const captureProcessorRef = useRef<ScriptProcessorNode | null>(null);
-    const pcmChunksRef = useRef<Float32Array[]>([]);
+    const captureProcessorRef = useRef<AudioWorkletNode | null>(null);
+    const micProcessorRef = useRef<AudioWorkletNode | null>(null);
+    const wavWriterRef = useRef<WavWriter | null>(null);
     const aiGainRef = useRef<GainNode | null>(null);
 
     // Analyzer Refs for Meters
@@ -146,51 +188,58 @@ const LiveComms: React.FC<LiveCommsProps> = ({ addLog }) => {
     const particlesRef = useRef<Particle[]>([]);
     const orbitalsRef = useRef<Orbital[]>([]);
 
-    // Initialize Broadcast Channel
-    useEffect(() => {
-        broadcastChannelRef.current = new BroadcastChannel('meli_mesh_network');
-        return () => {
-            broadcastChannelRef.current?.close();
-        };
-    }, []);
+    // Mesh Uplink. The only command handled here opens or closes the uplink, from this tab only.
+    const publish = useMesh((message) => {
+        if (message.type !== 'SYSTEM_COMMAND' || message.payload.target !== 'LIVE_COMMS' || !isLocalMessage(message)) return;
+        addLog('COMMS', `Uplink toggle command received (${connected ? 'closing' : 'opening'}).`, 'info', { correlationId: message.correlationId });
+        toggleConnection();
+    });
+
+    // Session callbacks outlive renders; read the profile through a ref so edits apply mid-session
+    const profileRef = useRef(profile);
+    profileRef.current = profile;
 
     const broadcastToCore = (role: 'user' | 'model', content: string) => {
         if (!content.trim()) return;
-        broadcastChannelRef.current?.postMessage({
+        publish({
             type: 'SYNC_MESSAGE',
             payload: {
                 id: Date.now().toString() + Math.random(),
                 role: role,
                 content: `[LIVE_FEED] ${content}`,
                 timestamp: Date.now(),
-                authorId: role === 'user' ? 'OP-LIVE' : 'MELI-VOICE'
+                authorId: role === 'user' ? profileRef.current.callsign : 'MELI-VOICE',
+                authorColor: role === 'user' ? profileRef.current.color : undefined
             }
         });
     };
 
-    const broadcastCommand = (type: string, payload: any) => {
+    const broadcastCommand = (message: MeshMessage, correlationId?: string) => {
         setIsTransmittingCmd(true);
         setTimeout(() => setIsTransmittingCmd(false), 2000); // Visual flair duration
-        broadcastChannelRef.current?.postMessage({
-            type: type,
-            payload: payload
-        });
+        publish(message, correlationId);
     }
 
-    // Network Simulation
+    // Link Quality (measured by linkMonitorRef while connected)
     useEffect(() => {
         let interval: any;
 
         if (connected) {
-            // Simulate fluctuating network conditions
+            let previous: LinkQuality = 'OPTIMAL';
             interval = setInterval(() => {
-                const rand = Math.random();
-                if (rand > 0.7) setSignalQuality('OPTIMAL');
-                else if (rand > 0.2) setSignalQuality('STABLE');
-                else setSignalQuality('WEAK');
-            }, 2500);
+                const monitor = linkMonitorRef.current;
+                if (!monitor) return;
+                const { quality, metrics, reasons } = monitor.assess();
+                if (isQualityDrop(previous, quality)) {
+                    addLog('COMMS', `Link quality dropped to ${quality}: ${reasons.join(', ')}.`, quality === 'WEAK' ? 'error' : 'warning', { data: { ...metrics } });
+                }
+                previous = quality;
+                setSignalQuality(quality);
+                setLinkMetrics(metrics);
+            }, 1000);
         } else {
             setSignalQuality('OFFLINE');
+            setLinkMetrics(null);
         }
         return () => {
             clearInterval(interval);
@@ -219,21 +268,28 @@ const LiveComms: React.FC<LiveCommsProps> = ({ addLog }) => {
         sourcesRef.current.clear();
         
         // Save Recording if active during disconnect
-        if (pcmChunksRef.current.length > 0) {
+        if (wavWriterRef.current) {
             stopAudioCapture(); 
         }
         
         if (captureProcessorRef.current) {
-            captureProcessorRef.current.disconnect();
+            stopPcmCapture(captureProcessorRef.current);
             captureProcessorRef.current = null;
         }
+        if (micProcessorRef.current) {
+            stopPcmCapture(micProcessorRef.current);
+            micProcessorRef.current = null;
+        }
 
         if (inputContextRef.current) inputContextRef.current.close();
         if (outputContextRef.current) outputContextRef.current.close();
         
         if (streamRef.current) streamRef.current.getTracks().forEach(t => t.stop());
 
+        // Close the socket too, or the server keeps the session (and its billing) open
+        sessionPromiseRef.current?.then(session => session.close()).catch(() => {});
         sessionPromiseRef.current = null;
+        linkMonitorRef.current = null;
         
         // Reset Refs
         inputContextRef.current = null;
@@ -272,43 +328,28 @@ const LiveComms: React.FC<LiveCommsProps> = ({ addLog }) => {
         const ctx = outputContextRef.current;
         
         addLog('COMMS', 'Auto-archiving audio stream...', 'info');
-        pcmChunksRef.current = []; // Clear buffer
+        // Recorded at the rate the context actually runs at, which the browser may not have honoured
+        wavWriterRef.current = createWavWriter(ctx.sampleRate);
         setIsRecording(true);
 
         if (!captureProcessorRef.current && recordingMixerRef.current) {
-             const processor = ctx.createScriptProcessor(4096, 1, 1);
+             // Frames arrive from the audio thread; the worklet module was loaded with the context
+             const processor = createPcmCaptureNode(ctx, RECORDING_FRAME_SIZE, (frame) => {
+                 wavWriterRef.current?.write(frame);
+             });
              captureProcessorRef.current = processor;
-             
-             processor.onaudioprocess = (e) => {
-                 if (!isRecording) return; 
-                 const input = e.inputBuffer.getChannelData(0);
-                 pcmChunksRef.current.push(new Float32Array(input));
-             };
-             
              recordingMixerRef.current.connect(processor);
-             const silentGain = ctx.createGain();
-             silentGain.gain.value = 0;
-             processor.connect(silentGain);
-             silentGain.connect(ctx.destination);
         }
     };
 
     const stopAudioCapture = () => {
         setIsRecording(false);
-        if (pcmChunksRef.current.length === 0) return;
+        const writer = wavWriterRef.current;
+        wavWriterRef.current = null;
+        if (!writer || writer.durationSec === 0) return;
 
         addLog('COMMS', 'Processing audio log...', 'info');
-        
-        const totalLength = pcmChunksRef.current.reduce((acc, chunk) => acc + chunk.length, 0);
-        const result = new Float32Array(totalLength);
-        let offset = 0;
-        for (const chunk of pcmChunksRef.current) {
-            result.set(chunk, offset);
-            offset += chunk.length;
-        }
-
-        const blob = encodeWAV(result, 24000); 
-        pcmChunksRef.current = []; 
+        const blob = writer.finish();
 
         const url = URL.createObjectURL(blob);
         const a = document.createElement('a');
@@ -326,7 +367,7 @@ const LiveComms: React.FC<LiveCommsProps> = ({ addLog }) => {
         if (isRecording) {
             stopAudioCapture();
             if (captureProcessorRef.current) {
-                captureProcessorRef.current.disconnect();
+                stopPcmCapture(captureProcessorRef.current);
                 captureProcessorRef.current = null;
             }
         } else {
@@ -353,14 +394,16 @@ const LiveComms: React.FC<LiveCommsProps> = ({ addLog }) => {
             if (!ctx) { setIsScanning(false); return; }
             ctx.drawImage(videoRef.current, 0, 0);
             
-            // Convert to Base64
-            const base64Data = offscreenCanvas.toDataURL('image/jpeg', 0.8).split(',')[1];
+            // Encode the frame asynchronously and convert it in the codec worker
+            const frame = await new Promise<Blob | null>(resolve => offscreenCanvas.toBlob(resolve, 'image/jpeg', 0.8));
+            if (!frame) throw new Error('Frame capture failed');
+            const base64Data = await blobToBase64(frame);
             
-            const apiKey = process.env.API_KEY;
-            const ai = new GoogleGenAI({ apiKey: apiKey! });
+            const ai = await getGeminiClient({ usage: { module: ModuleView.LIVE_COMMS, mode: 'biometric' } });
+            const settings = getModeSettings('biometric');
             
             const response = await ai.models.generateContent({
-                model: 'gemini-2.5-flash',
+                model: settings.model,
                 contents: {
                     parts: [
                         { inlineData: { mimeType: 'image/jpeg', data: base64Data } },
@@ -390,6 +433,7 @@ const LiveComms: React.FC<LiveCommsProps> = ({ addLog }) => {
                     ]
                 },
                 config: {
+                    ...buildGenerationConfig(settings),
                     tools: [{ googleSearch: {} }] 
                     // Note: responseMimeType is not compatible with tools in some contexts, so we parse manually
                 }
@@ -428,8 +472,11 @@ const LiveComms: React.FC<LiveCommsProps> = ({ addLog }) => {
                  if (!silent) addLog('COMMS', 'Biometric Data Corrupted or No Match.', 'warning');
             }
 
-        } catch (e: any) {
-            if (!silent) addLog('COMMS', `Scan Error: ${e.message}`, 'error');
+        } catch (e) {
+            const error = await handleGeminiError(e, {
+                onReauthorize: () => addLog('COMMS', 'Resource access denied. Re-requesting authorization...', 'warning')
+            });
+            if (!silent) addLog('COMMS', `Scan Error: ${error.message}`, 'error');
             setIsScanning(false);
         } finally {
             // Stop scanning animation after a few seconds
@@ -836,7 +883,7 @@ const LiveComms: React.FC<LiveCommsProps> = ({ addLog }) => {
                 setVideoEnabled(true);
             }
             
-            const inputCtx = new (window.AudioContext || window.webkitAudioContext)({ sampleRate: 16000 });
+            const inputCtx = new (window.AudioContext || window.webkitAudioContext)({ sampleRate: LIVE_INPUT_RATE });
             inputContextRef.current = inputCtx;
             
             const analyzer = inputCtx.createAnalyser();
@@ -869,21 +916,10 @@ const LiveComms: React.FC<LiveCommsProps> = ({ addLog }) => {
             addLog('COMMS', 'Establishing Secure Link...', 'info');
             setSignalQuality('SEARCHING');
             
-            const win = window as any;
-            if (win.aistudio && await win.aistudio.hasSelectedApiKey() === false) {
-                 addLog('COMMS', 'Security Key required. Requesting access...', 'warning');
-                 await win.aistudio.openSelectKey();
-            }
-
-            const apiKey = process.env.API_KEY;
-            if (!apiKey) {
-                addLog('COMMS', 'API Key missing. Check environment.', 'error');
-                setConnected(false);
-                setSignalQuality('OFFLINE');
-                return;
-            }
-
-            const ai = new GoogleGenAI({ apiKey });
+            const ai = await getGeminiClient({
+                onKeyRequest: () => addLog('COMMS', 'Security Key required. Requesting access...', 'warning'),
+                usage: { module: ModuleView.LIVE_COMMS, mode: 'live' }
+            });
             
             if (!inputContextRef.current) {
                 await initializeMedia();
@@ -897,9 +933,10 @@ const LiveComms: React.FC<LiveCommsProps> = ({ addLog }) => {
             await inputCtx.resume(); 
             
             // OUTPUT CONTEXT (Playback + Recording Mix)
-            const outputCtx = new (window.AudioContext || window.webkitAudioContext)({ sampleRate: 24000 });
+            const outputCtx = new (window.AudioContext || window.webkitAudioContext)({ sampleRate: LIVE_OUTPUT_RATE });
             await outputCtx.resume();
             outputContextRef.current = outputCtx;
+            await Promise.all([loadCaptureWorklet(inputCtx), loadCaptureWorklet(outputCtx)]);
             
             // --- BUS SETUP ---
             // 1. AI Gain (for playback)
@@ -931,9 +968,13 @@ const LiveComms: React.FC<LiveCommsProps> = ({ addLog }) => {
 
             nextStartTimeRef.current = 0;
             transcriptBufferRef.current = {user: '', model: ''};
+            const linkMonitor = createLinkQualityMonitor();
+            linkMonitorRef.current = linkMonitor;
 
+            const liveSettings = getModeSettings('live');
+            const liveConfig = buildGenerationConfig(liveSettings);
             const sessionPromise = ai.live.connect({
-                model: 'gemini-2.5-flash-native-audio-preview-09-2025',
+                model: liveSettings.model,
                 callbacks: {
                     onopen: () => {
                         addLog('COMMS', 'UPLINK ESTABLISHED. M.E.L.I. ONLINE.', 'success');
@@ -944,35 +985,39 @@ const LiveComms: React.FC<LiveCommsProps> = ({ addLog }) => {
                         startAudioCapture();
 
                         const source = inputCtx.createMediaStreamSource(streamRef.current!);
-                        const scriptProcessor = inputCtx.createScriptProcessor(4096, 1, 1);
-                        
-                        scriptProcessor.onaudioprocess = (e) => {
-                            const inputData = e.inputBuffer.getChannelData(0);
-                            const pcmBlob = createPcmBlob(inputData);
-                            sessionPromiseRef.current?.then((session) => {
-                                session.sendRealtimeInput({ media: pcmBlob });
+                        // The context may run at the device rate instead of the requested 16kHz
+                        const toLiveRate = createResampler(inputCtx.sampleRate, LIVE_INPUT_RATE);
+                        const micProcessor = createPcmCaptureNode(inputCtx, LIVE_FRAME_SIZE, (frame) => {
+                            linkMonitor.micFrame(frame);
+                            const samples = toLiveRate.process(frame);
+                            if (samples.length === 0) return;
+                            linkMonitor.sendQueued();
+                            Promise.all([createPcmPart(samples, LIVE_INPUT_RATE), sessionPromiseRef.current]).then(([pcmBlob, session]) => {
+                                session?.sendRealtimeInput({ media: pcmBlob });
                             }).catch(() => {
-                            });
-                        };
-                        
-                        source.connect(scriptProcessor);
-                        scriptProcessor.connect(inputCtx.destination);
+                            }).finally(() => linkMonitor.sendSettled());
+                        });
+                        micProcessorRef.current = micProcessor;
+                        source.connect(micProcessor);
                     },
                     onmessage: async (msg: LiveServerMessage) => {
                         if (msg.toolCall) {
                             for (const fc of msg.toolCall.functionCalls) {
-                                addLog('COMMS', `Executing Tool: ${fc.name}`, 'warning');
-                                if (fc.name === 'change_view') {
-                                    broadcastCommand('CMD_NAVIGATE', fc.args);
-                                } else if (fc.name === 'execute_visual_ops') {
-                                    broadcastCommand('CMD_NAVIGATE', { view: 'VISUAL_OPS' });
-                                    setTimeout(() => broadcastCommand('SYSTEM_COMMAND', { target: 'VISUAL_OPS', ...fc.args }), 50);
-                                } else if (fc.name === 'execute_media_lab') {
-                                    broadcastCommand('CMD_NAVIGATE', { view: 'MEDIA_LAB' });
-                                    setTimeout(() => broadcastCommand('SYSTEM_COMMAND', { target: 'MEDIA_LAB', ...fc.args }), 50);
-                                } else if (fc.name === 'search_intel') {
-                                    broadcastCommand('CMD_NAVIGATE', { view: 'INTEL' });
-                                    setTimeout(() => broadcastCommand('SYSTEM_COMMAND', { target: 'INTEL', action: 'search', ...fc.args }), 50);
+                                const args: Record<string, unknown> = fc.args || {};
+                                // One id per tool call; the modules it drives log under it
+                                const cid = createCorrelationId('live');
+                                addLog('COMMS', `Executing Tool: ${fc.name}`, 'warning', { correlationId: cid, model: liveSettings.model, data: { tool: fc.name, args } });
+                                let response: Record<string, unknown>;
+                                try {
+                                    const [first, ...rest] = toolCallMessages(fc.name, args);
+                                    broadcastCommand(first, cid);
+                                    // The module is shown before it receives the command
+                                    rest.forEach(message => setTimeout(() => broadcastCommand(message, cid), 50));
+                                    response = { result: "OK: Command dispatched to subsystem." };
+                                } catch (err) {
+                                    if (!(err instanceof MeshProtocolError)) throw err;
+                                    addLog('COMMS', `Tool call rejected: ${err.message}`, 'error', { correlationId: cid, data: { tool: fc.name } });
+                                    response = { error: `Rejected: ${err.message}` };
                                 }
 
                                 sessionPromiseRef.current?.then((session) => {
@@ -980,7 +1025,7 @@ const LiveComms: React.FC<LiveCommsProps> = ({ addLog }) => {
                                         functionResponses: {
                                             id: fc.id,
                                             name: fc.name,
-                                            response: { result: "OK: Command dispatched to subsystem." }
+                                            response
                                         }
                                     });
                                 });
@@ -997,6 +1042,7 @@ const LiveComms: React.FC<LiveCommsProps> = ({ addLog }) => {
                         }
 
                         if (msg.serverContent?.turnComplete) {
+                            linkMonitor.turnEnded();
                             if (transcriptBufferRef.current.user) {
                                 broadcastToCore('user', transcriptBufferRef.current.user);
                                 transcriptBufferRef.current.user = '';
@@ -1009,6 +1055,7 @@ const LiveComms: React.FC<LiveCommsProps> = ({ addLog }) => {
 
                         if (msg.serverContent?.interrupted) {
                             addLog('COMMS', 'Interruption detected. Clearing buffer.', 'warning');
+                            linkMonitor.turnEnded();
                             sourcesRef.current.forEach(source => {
                                 try { source.stop(); } catch(e){}
                             });
@@ -1025,19 +1072,21 @@ const LiveComms: React.FC<LiveCommsProps> = ({ addLog }) => {
                         if (base64Audio) {
                             const ctx = outputContextRef.current;
                             if (!ctx) return;
-                            
+                            const receivedAt = Date.now();
+
+                            // Decoded in the codec worker; replies arrive in order, so chunks stay sequenced
+                            const channels = await decodePcm(base64Audio, 1);
+                            if (outputContextRef.current !== ctx) return; // Link closed while decoding
+                            const audioBuffer = createAudioBuffer(channels, ctx, LIVE_OUTPUT_RATE);
+
                             const currentTime = ctx.currentTime;
+                            // A schedule that fell behind the clock means playback ran dry before this chunk
+                            const underrunMs = nextStartTimeRef.current > 0 ? Math.max(0, currentTime - nextStartTimeRef.current) * 1000 : 0;
+                            linkMonitor.audioChunk(underrunMs, receivedAt);
                             if (nextStartTimeRef.current < currentTime) {
                                 nextStartTimeRef.current = currentTime;
                             }
                             
-                            const audioBuffer = await decodeAudioData(
-                                decodeAudio(base64Audio),
-                                ctx,
-                                24000,
-                                1
-                            );
-                            
                             const source = ctx.createBufferSource();
                             source.buffer = audioBuffer;
                             
@@ -1058,10 +1107,14 @@ const LiveComms: React.FC<LiveCommsProps> = ({ addLog }) => {
                         setConnected(false);
                         setSignalQuality('OFFLINE');
                         addLog('COMMS', 'Uplink terminated.', 'warning');
+                        // Closed from the far side or by the budget: release the mic and camera too.
+                        // A late close from an earlier session must not tear down a newer one.
+                        if (sessionPromiseRef.current === sessionPromise) cleanup();
                     },
                     onerror: (e) => {
                         console.error(e);
-                        addLog('COMMS', 'Transmission Error.', 'error');
+                        linkMonitor.error();
+                        addLog('COMMS', e.message ? `Transmission Error: ${e.message}` : 'Transmission Error.', 'error');
                         setConnected(false);
                         setSignalQuality('OFFLINE');
                     }
@@ -1070,30 +1123,21 @@ const LiveComms: React.FC<LiveCommsProps> = ({ addLog }) => {
                     responseModalities: [Modality.AUDIO],
                     tools: [{functionDeclarations: toolDeclarations}],
                     speechConfig: {
-                        voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Zephyr' } }
+                        voiceConfig: { prebuiltVoiceConfig: { voiceName: getPreferences().liveComms.voice } }
                     },
-                    systemInstruction: `You are M.E.L.I., an elite Fast Responder AI with full control over this interface.
-
-                    CRITICAL INSTRUCTION - TOOL USE:
-                    You MUST use your tools to perform visual, navigation, or search tasks. Do NOT just describe what you would do.
-                    
-                    - If user asks to SEE something (e.g. "show me a drone", "draw a map"): Call 'execute_visual_ops'.
-                    - If user asks for DATA, NEWS, or INFO (e.g. "search for intel", "who won the game"): Call 'search_intel'.
-                    - If user asks to GO somewhere (e.g. "open intel"): Call 'change_view'.
-                    - If user asks for VIDEO/AUDIO creation: Call 'execute_media_lab'.
-                    
-                    Identity:
-                    1. TACTICAL SPY / GLOBAL ANALYST.
-                    2. FRIENDLY COMPANION.
-                    3. CONCISE OPERATOR.
-                    `,
+                    ...liveConfig,
                 }
             });
             
             sessionPromiseRef.current = sessionPromise;
-
-        } catch (err: any) {
-             addLog('COMMS', `Handshake Failed: ${err.message}`, 'error');
+            // A refused handshake rejects here and is reported below
+            await sessionPromise;
+
+        } catch (err) {
+             const error = await handleGeminiError(err, {
+                 onReauthorize: () => addLog('COMMS', 'Resource access denied. Re-requesting authorization...', 'warning')
+             });
+             addLog('COMMS', `Handshake Failed: ${error.message}`, 'error');
              setConnected(false);
              setSignalQuality('OFFLINE');
              cleanup();
@@ -1104,6 +1148,19 @@ const LiveComms: React.FC<LiveCommsProps> = ({ addLog }) => {
         return () => cleanup();
     }, []);
 
+    useEffect(() => subscribeShutdown(({ wipe }) => {
+        if (sessionPromiseRef.current) addLog('COMMS', 'Uplink terminated by shutdown.', 'warning');
+        cleanup(); // Closes the session and stops camera and microphone tracks
+        if (wipe) setBiometricData(null);
+    }), []);
+
+    // Nothing may keep listening or streaming behind the lock screen, in this tab or another
+    useEffect(() => subscribeSessionLock(({ locked }) => {
+        if (!locked || (!sessionPromiseRef.current && !streamRef.current)) return;
+        addLog('COMMS', 'Uplink terminated by session lock.', 'warning');
+        cleanup();
+    }), []);
+
     const getSignalBars = () => {
         const bars = [1, 2, 3, 4];
         let activeBars = 0;
@@ -1203,6 +1260,10 @@ const LiveComms: React.FC<LiveCommsProps> = ({ addLog }) => {
                             <span className="text-[8px] opacity-70">{signalQuality}</span>
                         </div>
                         {getSignalBars()}
+                        <div className="flex items-center justify-between w-full text-[8px] text-ops-text-dim font-mono" title="Reply latency after speech / chunk jitter">
+                            <span>LAT {linkMetrics?.responseLatencyMs != null ? `${linkMetrics.responseLatencyMs}ms` : '--'}</span>
+                            <span>JIT {linkMetrics ? `${linkMetrics.jitterMs}ms` : '--'}</span>
+                        </div>
                     </div>
 
                     {/* Output Meter */}
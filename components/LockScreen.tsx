@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import { Lock, Unlock } from 'lucide-react';
+import { LogEntry } from '../types';
+import { unlockSession } from '../services/sessionLock';
+
+interface LockScreenProps {
+    identity: string;
+    addLog: (source: string, message: string, type?: LogEntry['type']) => void;
+}
+
+// Opaque on purpose: module content underneath is hidden as well, this only covers it
+const LockScreen: React.FC<LockScreenProps> = ({ identity, addLog }) => {
+    const [passcode, setPasscode] = useState('');
+    const [message, setMessage] = useState<string | null>(null);
+    const [isChecking, setIsChecking] = useState(false);
+
+    const handleUnlock = async (e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        if (!passcode || isChecking) return;
+        setIsChecking(true);
+        const result = await unlockSession(passcode);
+        setIsChecking(false);
+        setPasscode('');
+        if (result.ok) {
+            addLog('SYS', 'Session unlocked.', 'success');
+        } else {
+            setMessage(result.message || 'Passcode rejected.');
+            addLog('SYS', 'Unlock attempt rejected.', 'warning');
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center bg-ops-950">
+            <div className="absolute inset-0 opacity-10 pointer-events-none bg-[size:40px_40px] bg-grid-pattern"></div>
+            <form onSubmit={handleUnlock} className="relative w-80 tech-border bg-black/80 p-6 font-mono flex flex-col items-center gap-4">
+                <Lock size={28} className="text-ops-accent" />
+                <div className="text-center">
+                    <h2 className="text-sm font-bold text-white tracking-[0.3em]">SESSION LOCKED</h2>
+                    <p className="text-[10px] text-ops-text-dim tracking-widest mt-1">OP_ID: {identity}</p>
+                </div>
+                <input
+                    type="password"
+                    value={passcode}
+                    onChange={e => { setPasscode(e.target.value); setMessage(null); }}
+                    placeholder="PASSCODE"
+                    autoFocus
+                    className="w-full bg-black border border-ops-800 focus:border-ops-accent outline-none px-3 py-2 text-sm tracking-widest text-center text-ops-text-main"
+                />
+                {message && <p className="text-[10px] text-ops-alert">{message}</p>}
+                <button
+                    type="submit"
+                    disabled={!passcode || isChecking}
+                    className="w-full py-2 text-[10px] tracking-widest border border-ops-accent/50 text-ops-accent hover:bg-ops-accent/10 disabled:opacity-40 flex items-center justify-center gap-2"
+                >
+                    <Unlock size={12} /> {isChecking ? 'VERIFYING...' : 'UNLOCK'}
+                </button>
+            </form>
+        </div>
+    );
+};
+
+export default LockScreen;
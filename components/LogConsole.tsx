@@ -1,55 +1,307 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { LogEntry } from '../types';
-import { ArrowDown, Pause } from 'lucide-react';
+import { ArrowDown, Pause, ChevronRight, ChevronDown, GitBranch, Search, X, Download, Upload, History } from 'lucide-react';
+import { EMPTY_LOG_FILTER, LOG_SOURCES, LOG_TIME_RANGES, LogFilter, matchesLogFilter } from '../services/logStore';
+import { LogExportFormat, exportLogs, importLogs, logExportFileName } from '../services/logExport';
+import { usePreferences } from '../services/preferences';
+import { useOperatorProfile } from '../services/operatorProfile';
 
 interface LogConsoleProps {
   logs: LogEntry[];
+  addLog: (source: string, message: string, type?: LogEntry['type']) => void;
 }
 
-const LogConsole: React.FC<LogConsoleProps> = ({ logs }) => {
+// An imported file shown in place of the live logs; nothing is written to history
+interface Replay {
+  fileName: string;
+  entries: LogEntry[];
+}
+
+const TYPE_COLORS: Record<LogEntry['type'], string> = {
+  error: 'text-ops-alert',
+  warning: 'text-ops-warn',
+  success: 'text-green-400',
+  info: 'text-ops-accent',
+};
+
+const TYPE_LABELS: { type: LogEntry['type']; label: string }[] = [
+  { type: 'error', label: 'ERR' },
+  { type: 'warning', label: 'WARN' },
+  { type: 'success', label: 'OK' },
+  { type: 'info', label: 'INFO' },
+];
+
+// Rendering the whole ring would stall the UI; filters narrow down anything older
+const MAX_RENDERED = 500;
+
+const formatDuration = (ms: number) => (ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`);
+
+// Last segment of a correlation id is enough to tell chains apart at a glance
+const shortId = (correlationId: string) => correlationId.split('-').pop();
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const Highlight: React.FC<{ text: string; query: string }> = ({ text, query }) => {
+  const needle = query.trim();
+  if (!needle) return <>{text}</>;
+  const parts = text.split(new RegExp(`(${escapeRegExp(needle)})`, 'gi'));
+  return (
+    <>
+      {parts.map((part, i) =>
+        i % 2 === 1 ? <mark key={i} className="bg-ops-warn/30 text-ops-text-main rounded-sm">{part}</mark> : part
+      )}
+    </>
+  );
+};
+
+const toggle = <T,>(list: T[], value: T) => (list.includes(value) ? list.filter(item => item !== value) : [...list, value]);
+
+const Field: React.FC<{ label: string; children?: React.ReactNode }> = ({ label, children }) => (
+  <div className="flex gap-2">
+    <span className="text-ops-500 w-20 shrink-0">{label}</span>
+    <span className="text-ops-text-main break-all">{children}</span>
+  </div>
+);
+
+/**
+ * Details of one entry and, when it has a correlation id, every retained entry of the
+ * same operation in time order with offsets from the first.
+ */
+const LogDetailsPanel: React.FC<{ log: LogEntry; logs: LogEntry[] }> = ({ log, logs }) => {
+  const chain = log.correlationId
+    ? logs.filter(entry => entry.correlationId === log.correlationId).sort((a, b) => a.time - b.time)
+    : [];
+  const chainStart = chain.length > 0 ? chain[0].time : log.time;
+
+  return (
+    <div className="ml-6 my-1 p-2 border-l border-ops-accent/40 bg-black/30 space-y-1 text-[11px]">
+      <Field label="TIME">{new Date(log.time).toISOString()}</Field>
+      {log.operator && <Field label="OPERATOR">{log.operator}</Field>}
+      {log.correlationId && <Field label="CHAIN">{log.correlationId}</Field>}
+      {log.model && <Field label="MODEL">{log.model}</Field>}
+      {log.durationMs !== undefined && <Field label="DURATION">{formatDuration(log.durationMs)}</Field>}
+      {log.data && (
+        <Field label="DATA">
+          <pre className="whitespace-pre-wrap text-ops-text-dim">{JSON.stringify(log.data, null, 2)}</pre>
+        </Field>
+      )}
+      {chain.length > 1 && (
+        <div className="pt-1">
+          <div className="text-ops-400 flex items-center gap-1 mb-1"><GitBranch size={10} /> CAUSAL CHAIN ({chain.length})</div>
+          {chain.map(entry => (
+            <div key={entry.id} className={`flex gap-2 px-1 ${entry.id === log.id ? 'bg-ops-accent/10' : ''}`}>
+              <span className="text-ops-500 w-14 text-right shrink-0">+{formatDuration(entry.time - chainStart)}</span>
+              <span className={`w-16 shrink-0 font-bold ${TYPE_COLORS[entry.type]}`}>{entry.source}</span>
+              <span className="text-ops-text-dim">{entry.message}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const LogConsole: React.FC<LogConsoleProps> = ({ logs: liveLogs, addLog }) => {
   const scrollRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [replay, setReplay] = useState<Replay | null>(null);
+  const logs = replay ? replay.entries : liveLogs;
+  const isMeshLog = usePreferences().logs.shareOverMesh && !replay;
+  const identity = useOperatorProfile().callsign;
   const [autoScroll, setAutoScroll] = useState(true);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [filter, setFilter] = useState<LogFilter>(EMPTY_LOG_FILTER);
+
+  const sources = useMemo(() => {
+    const seen = new Set(LOG_SOURCES);
+    logs.forEach(log => seen.add(log.source));
+    return [...seen];
+  }, [logs]);
+
+  // Severity counts respect every other filter, so they say what a severity toggle would show
+  const { visible, matched, counts } = useMemo(() => {
+    const now = Date.now();
+    const counts: Record<LogEntry['type'], number> = { error: 0, warning: 0, success: 0, info: 0 };
+    const matched: LogEntry[] = [];
+    logs.forEach(log => {
+      if (!matchesLogFilter(log, filter, now, true)) return;
+      counts[log.type]++;
+      if (filter.types.length === 0 || filter.types.includes(log.type)) matched.push(log);
+    });
+    return { visible: matched.slice(-MAX_RENDERED), matched, counts };
+  }, [logs, filter]);
+
+  const isFiltered = filter !== EMPTY_LOG_FILTER;
+
+  const operators = useMemo(() => [...new Set(logs.map(entry => entry.operator).filter(Boolean))], [logs]);
+
+  // Exports what the filters currently match, so a review can be narrowed before it is shared
+  const handleExport = (format: LogExportFormat) => {
+    const blob = new Blob([exportLogs(matched, format)], { type: format === 'csv' ? 'text/csv' : 'application/x-ndjson' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = logExportFileName(format);
+    link.click();
+    URL.revokeObjectURL(url);
+    if (!replay) addLog('SYS', `Exported ${matched.length} log entries as ${format.toUpperCase()}.`, 'success');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const entries = importLogs(await file.text());
+      setReplay({ fileName: file.name, entries });
+      setExpandedId(null);
+      setFilter(EMPTY_LOG_FILTER);
+      addLog('SYS', `Replaying ${entries.length} log entries from ${file.name}.`, 'info');
+    } catch (err: any) {
+      addLog('SYS', `Log import rejected: ${err.message}`, 'error');
+    }
+  };
+
+  const closeReplay = () => {
+    setReplay(null);
+    setExpandedId(null);
+    setFilter(EMPTY_LOG_FILTER);
+  };
 
   useEffect(() => {
     if (scrollRef.current && autoScroll) {
       scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
     }
-  }, [logs, autoScroll]);
+  }, [visible, autoScroll]);
 
   return (
-    <div className="flex flex-col h-full bg-ops-950 border-t border-ops-800 font-mono text-xs transition-colors duration-300">
-      <div className="flex items-center justify-between px-4 py-1 bg-ops-900 border-b border-ops-800 text-ops-400 select-none">
-        <div className="flex items-center">
-            <span className="mr-2">●</span> SYSTEM LOGS
+    <div className={`flex flex-col h-full border-t ${replay ? 'bg-ops-warn/5' : 'bg-ops-950'} border-ops-800 font-mono text-xs transition-colors duration-300`}>
+      <div className="flex items-center justify-between gap-3 px-4 py-1 bg-ops-900 border-b border-ops-800 text-ops-400 select-none">
+        {replay ? (
+          <div className="flex items-center gap-2 text-ops-warn min-w-0">
+            <History size={12} className="shrink-0" />
+            <span className="font-bold whitespace-nowrap">REPLAY</span>
+            <span className="truncate text-ops-text-dim" title={replay.fileName}>
+              {replay.fileName} · {replay.entries.length} entries
+              {operators.length > 0 && ` · @${operators.join(', @')}`}
+            </span>
+            <button onClick={closeReplay} className="flex items-center gap-1 px-1.5 py-0.5 rounded border border-ops-warn/40 text-[10px] font-bold hover:bg-ops-warn/10 whitespace-nowrap">
+              <X size={10} /> EXIT
+            </button>
+          </div>
+        ) : (
+          <div className="flex items-center">
+              <span className="mr-2">●</span> SYSTEM LOGS
+              {isMeshLog && (
+                <span className="ml-2 px-1.5 rounded border border-ops-accent/30 text-ops-accent text-[10px] tracking-wider" title={operators.join(', ')}>
+                  MESH · {operators.length} OPS
+                </span>
+              )}
+          </div>
+        )}
+        <div className="flex items-center gap-1">
+          {TYPE_LABELS.map(({ type, label }) => (
+            <button
+              key={type}
+              onClick={() => setFilter({ ...filter, types: toggle(filter.types, type) })}
+              className={`px-1.5 py-0.5 rounded border text-[10px] font-bold tracking-wider transition-all ${TYPE_COLORS[type]} ${
+                filter.types.includes(type) ? 'border-current bg-white/10' : 'border-transparent hover:bg-white/5'
+              }`}
+              title={`Show only ${label} entries`}
+            >
+              {label} {counts[type]}
+            </button>
+          ))}
         </div>
-        <button 
-            onClick={() => setAutoScroll(!autoScroll)}
-            className={`flex items-center gap-1 px-2 py-0.5 rounded border transition-all ${
-                autoScroll 
-                ? 'border-ops-accent/30 text-ops-accent bg-ops-accent/10 hover:bg-ops-accent/20' 
-                : 'border-transparent text-ops-text-dim hover:text-ops-text-main hover:bg-white/5'
+        <div className="flex items-center gap-2 ml-auto">
+          <select
+            value={filter.rangeMs ?? ''}
+            onChange={e => setFilter({ ...filter, rangeMs: e.target.value === '' ? null : Number(e.target.value) })}
+            className="bg-ops-950 border border-ops-800 rounded px-1 py-0.5 text-[10px] text-ops-text-main focus:outline-none focus:border-ops-accent"
+            title="Time range"
+          >
+            {LOG_TIME_RANGES.map(range => <option key={range.label} value={range.ms ?? ''}>{range.label}</option>)}
+          </select>
+          <div className="flex items-center gap-1 bg-ops-950 border border-ops-800 rounded px-1.5 focus-within:border-ops-accent">
+            <Search size={10} />
+            <input
+              value={filter.query}
+              onChange={e => setFilter({ ...filter, query: e.target.value })}
+              placeholder="SEARCH"
+              className="w-32 bg-transparent py-0.5 text-[10px] text-ops-text-main placeholder:text-ops-500 focus:outline-none"
+            />
+          </div>
+          <button onClick={() => handleExport('ndjson')} disabled={matched.length === 0} className="flex items-center gap-1 text-[10px] text-ops-text-dim hover:text-ops-text-main disabled:opacity-30" title="Export matching entries as NDJSON">
+            <Download size={10} /> NDJSON
+          </button>
+          <button onClick={() => handleExport('csv')} disabled={matched.length === 0} className="flex items-center gap-1 text-[10px] text-ops-text-dim hover:text-ops-text-main disabled:opacity-30" title="Export matching entries as CSV">
+            <Download size={10} /> CSV
+          </button>
+          <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-1 text-[10px] text-ops-text-dim hover:text-ops-text-main" title="Open an exported log file for replay">
+            <Upload size={10} /> IMPORT
+          </button>
+          <input ref={fileInputRef} type="file" accept=".ndjson,.jsonl,.json,.csv,text/csv,application/x-ndjson" className="hidden" onChange={handleImport} />
+          {isFiltered && (
+            <button onClick={() => setFilter(EMPTY_LOG_FILTER)} className="text-ops-text-dim hover:text-ops-text-main" title="Clear filters">
+              <X size={12} />
+            </button>
+          )}
+          <button 
+              onClick={() => setAutoScroll(!autoScroll)}
+              className={`flex items-center gap-1 px-2 py-0.5 rounded border transition-all ${
+                  autoScroll 
+                  ? 'border-ops-accent/30 text-ops-accent bg-ops-accent/10 hover:bg-ops-accent/20' 
+                  : 'border-transparent text-ops-text-dim hover:text-ops-text-main hover:bg-white/5'
+              }`}
+              title={autoScroll ? "Disable Auto-Scroll" : "Enable Auto-Scroll"}
+          >
+              {autoScroll ? <ArrowDown size={10} /> : <Pause size={10} />}
+              <span className="text-[10px] font-bold tracking-wider">{autoScroll ? "SCROLL: ON" : "SCROLL: PAUSED"}</span>
+          </button>
+        </div>
+      </div>
+      <div className="flex items-center gap-1 px-4 py-1 bg-ops-900/60 border-b border-ops-800 overflow-x-auto select-none">
+        {sources.map(source => (
+          <button
+            key={source}
+            onClick={() => setFilter({ ...filter, sources: toggle(filter.sources, source) })}
+            className={`px-1.5 py-0.5 rounded border text-[10px] tracking-wider whitespace-nowrap transition-all ${
+              filter.sources.includes(source)
+                ? 'border-ops-accent/40 text-ops-accent bg-ops-accent/10'
+                : 'border-ops-800 text-ops-text-dim hover:text-ops-text-main'
             }`}
-            title={autoScroll ? "Disable Auto-Scroll" : "Enable Auto-Scroll"}
-        >
-            {autoScroll ? <ArrowDown size={10} /> : <Pause size={10} />}
-            <span className="text-[10px] font-bold tracking-wider">{autoScroll ? "SCROLL: ON" : "SCROLL: PAUSED"}</span>
-        </button>
+          >
+            {source}
+          </button>
+        ))}
+        {matched.length > visible.length && (
+          <span className="ml-auto text-[10px] text-ops-500 whitespace-nowrap">SHOWING LATEST {visible.length} OF {matched.length}</span>
+        )}
       </div>
       <div ref={scrollRef} className="flex-1 overflow-y-auto p-2 space-y-1">
-        {logs.map((log) => (
-          <div key={log.id} className="flex gap-3 hover:bg-white/5 px-1 rounded">
-            <span className="text-ops-text-dim whitespace-nowrap">[{log.timestamp}]</span>
-            <span className={`font-bold whitespace-nowrap w-24 ${
-              log.type === 'error' ? 'text-ops-alert' :
-              log.type === 'warning' ? 'text-ops-warn' :
-              log.type === 'success' ? 'text-green-400' : 'text-ops-accent'
-            }`}>{log.source}</span>
-            <span className={`${
-              log.type === 'error' ? 'text-red-300' : 'text-ops-text-dim'
-            }`}>{log.message}</span>
+        {visible.map((log) => (
+          <div key={log.id}>
+            <div
+              onClick={() => setExpandedId(expandedId === log.id ? null : log.id)}
+              className="flex gap-3 hover:bg-white/5 px-1 rounded cursor-pointer"
+            >
+              {expandedId === log.id ? <ChevronDown size={12} className="mt-0.5 shrink-0 text-ops-500" /> : <ChevronRight size={12} className="mt-0.5 shrink-0 text-ops-500" />}
+              <span className="text-ops-text-dim whitespace-nowrap">[{log.timestamp}]</span>
+              <span className={`font-bold whitespace-nowrap w-24 ${TYPE_COLORS[log.type]}`}>{log.source}</span>
+              {log.operator && <span className={`whitespace-nowrap ${log.operator === identity ? 'text-ops-500' : 'text-ops-warn'}`}>@{log.operator}</span>}
+              <span className={`${
+                log.type === 'error' ? 'text-red-300' : 'text-ops-text-dim'
+              }`}><Highlight text={log.message} query={filter.query} /></span>
+              <span className="ml-auto flex gap-2 whitespace-nowrap text-[10px] text-ops-500">
+                {log.durationMs !== undefined && <span>{formatDuration(log.durationMs)}</span>}
+                {log.correlationId && <span className="text-ops-400" title={log.correlationId}>#{shortId(log.correlationId)}</span>}
+              </span>
+            </div>
+            {expandedId === log.id && <LogDetailsPanel log={log} logs={logs} />}
           </div>
         ))}
         {logs.length === 0 && <div className="text-ops-text-dim italic px-2">System initialized. Awaiting input...</div>}
+        {logs.length > 0 && visible.length === 0 && <div className="text-ops-text-dim italic px-2">No entries match the current filters.</div>}
       </div>
     </div>
   );
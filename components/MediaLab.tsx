@@ -1,11 +1,20 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { GoogleGenAI, Modality } from "@google/genai";
-import { LogEntry } from '../types';
+import React, { useEffect, useRef, useState } from 'react';
+import { Modality } from "@google/genai";
+import { LogDetails, LogEntry, ModuleView } from '../types';
 import { Video, Mic, Speaker, Play, Loader2, Key } from 'lucide-react';
-import { blobToBase64, fileToGenerativePart, decodeAudioData, decodeAudio } from '../services/geminiUtils';
+import { createAudioBuffer, LIVE_OUTPUT_RATE } from '../services/geminiUtils';
+import { blobToBase64, decodePcm, fileToGenerativePart } from '../services/codec';
+import { fetchGeneratedMedia, GeminiError, getGeminiClient, handleGeminiError } from '../services/geminiClient';
+import { useMesh } from '../services/mesh';
+import { createCorrelationId } from '../services/correlation';
+import { enqueueJob, JobCancelledError, useJobs, waitForJob } from '../services/jobManager';
+import { buildGenerationConfig, getModeSettings } from '../services/modelRegistry';
+import { getPreferences, usePreferences } from '../services/preferences';
+import { isSystemHalted, subscribeShutdown } from '../services/shutdown';
+import { useDeepLink } from '../services/router';
 
 interface MediaLabProps {
-    addLog: (source: string, message: string, type?: LogEntry['type']) => void;
+    addLog: (source: string, message: string, type?: LogEntry['type'], details?: LogDetails) => void;
 }
 
 const MediaLab: React.FC<MediaLabProps> = ({ addLog }) => {
@@ -14,154 +23,216 @@ const MediaLab: React.FC<MediaLabProps> = ({ addLog }) => {
     // Video State
     const [videoPrompt, setVideoPrompt] = useState('');
     const [videoFile, setVideoFile] = useState<File | null>(null); // For start image (image to video)
-    const [videoRatio, setVideoRatio] = useState('16:9');
+    const mediaDefaults = usePreferences().mediaLab;
+    const [videoRatio, setVideoRatio] = useState(mediaDefaults.videoRatio);
     const [generatedVideoUrl, setGeneratedVideoUrl] = useState<string | null>(null);
-    const [videoLoading, setVideoLoading] = useState(false);
+    const activeJobs = useJobs().filter(job => job.view === ModuleView.MEDIA_LAB && (job.status === 'queued' || job.status === 'running'));
+    const videoJobs = activeJobs.filter(job => job.source === 'MEDIA');
+    const ttsJobs = activeJobs.filter(job => job.source === 'AUDIO');
 
     // Audio State
     const [ttsText, setTtsText] = useState('');
+
+    useEffect(() => {
+        setVideoRatio(mediaDefaults.videoRatio);
+    }, [mediaDefaults.videoRatio]);
+
+    // Downloaded renders are object URLs; release each one once it is replaced
+    useEffect(() => () => {
+        if (generatedVideoUrl?.startsWith('blob:')) URL.revokeObjectURL(generatedVideoUrl);
+    }, [generatedVideoUrl]);
     const [isRecording, setIsRecording] = useState(false);
     const [transcript, setTranscript] = useState('');
-    const channelRef = useRef<BroadcastChannel | null>(null);
+    const recordingStreamRef = useRef<MediaStream | null>(null);
 
-     // Sync Listener
-     useEffect(() => {
-        const channel = new BroadcastChannel('meli_mesh_network');
-        channelRef.current = channel;
-        
-        channel.onmessage = (event) => {
-            const { type, payload } = event.data;
-            if (type === 'SYSTEM_COMMAND' && payload.target === 'MEDIA_LAB') {
-                if (payload.type === 'video') {
-                     setTab('video');
-                     if (payload.prompt) {
-                         setVideoPrompt(payload.prompt);
-                         setTimeout(() => handleGenerateVideo(payload.prompt), 500);
-                     }
-                } else if (payload.type === 'audio') {
-                    setTab('audio');
-                     if (payload.prompt) {
-                         setTtsText(payload.prompt);
-                         setTimeout(() => handleTTS(payload.prompt), 500);
-                     }
-                }
-            }
-        };
+    useEffect(() => subscribeShutdown(({ wipe }) => {
+        recordingStreamRef.current?.getTracks().forEach(track => track.stop());
+        recordingStreamRef.current = null;
+        if (!wipe) return;
+        setVideoPrompt('');
+        setVideoFile(null);
+        setGeneratedVideoUrl(null);
+        setTtsText('');
+        setTranscript('');
+    }), []);
 
-        return () => channel.close();
-    }, []);
+    // Sync Listener
+    useMesh((message) => {
+        if (message.type !== 'SYSTEM_COMMAND' || message.payload.target !== 'MEDIA_LAB') return;
+        const { type, prompt } = message.payload;
+        const { correlationId } = message;
+        addLog('MEDIA', `Remote command received: ${type}`, 'warning', { correlationId, data: { ...message.payload } });
+        if (type === 'video') {
+             setTab('video');
+             if (prompt) {
+                 setVideoPrompt(prompt);
+                 setTimeout(() => handleGenerateVideo(prompt, correlationId), 500);
+             }
+        } else if (type === 'audio') {
+            setTab('audio');
+             if (prompt) {
+                 setTtsText(prompt);
+                 setTimeout(() => handleTTS(prompt, correlationId), 500);
+             }
+        }
+    });
+
+    // Deep link: #/media-lab?tab=audio&prompt=...&run=1 (the audio prompt is spoken by TTS)
+    useDeepLink(ModuleView.MEDIA_LAB, ({ tab: linkTab, prompt }, autoRun) => {
+        const nextTab = linkTab === 'video' || linkTab === 'audio' ? linkTab : tab;
+        setTab(nextTab);
+        if (!prompt) return;
+        const cid = autoRun ? createCorrelationId('link') : undefined;
+        if (autoRun) addLog('MEDIA', `Deep link ${nextTab} job received.`, 'info', { correlationId: cid, data: { tab: nextTab, prompt } });
+        if (nextTab === 'video') {
+            setVideoPrompt(prompt);
+            if (autoRun) setTimeout(() => handleGenerateVideo(prompt, cid), 500);
+        } else {
+            setTtsText(prompt);
+            if (autoRun) setTimeout(() => handleTTS(prompt, cid), 500);
+        }
+    });
 
     // --- VIDEO HANDLERS ---
-    const handleGenerateVideo = async (overridePrompt?: string) => {
+    const handleGenerateVideo = (overridePrompt?: string, correlationId?: string) => {
         const activePrompt = overridePrompt || videoPrompt;
         if (!activePrompt) return;
-        setVideoLoading(true);
-        addLog('MEDIA', 'Initializing Veo 3.1 generation protocol...', 'info');
+        // Capture the form now; the operator may edit it while the render is queued
+        const ratio = videoRatio;
+        const startImage = videoFile;
+        const cid = correlationId || createCorrelationId('media');
+        const model = getModeSettings('video').model;
+        let startedAt = Date.now();
 
-        try {
-            const win = window as any;
-            if (win.aistudio && await win.aistudio.hasSelectedApiKey() === false) {
-                 addLog('MEDIA', 'Paid API Key required for Veo', 'warning');
-                 await win.aistudio.openSelectKey();
-            }
-            
-            const apiKey = process.env.API_KEY;
-            if (!apiKey) throw new Error("API Key missing. Please select a key.");
+        enqueueJob({
+            label: `Veo render: ${activePrompt.slice(0, 40)}`,
+            source: 'MEDIA',
+            view: ModuleView.MEDIA_LAB,
+            run: async ({ signal, setProgress }) => {
+                startedAt = Date.now();
+                addLog('MEDIA', 'Initializing Veo 3.1 generation protocol...', 'info', { correlationId: cid, model, data: { prompt: activePrompt, aspectRatio: ratio } });
+                try {
+                    const ai = await getGeminiClient({
+                        onKeyRequest: () => addLog('MEDIA', 'Paid API Key required for Veo', 'warning', { correlationId: cid }),
+                        usage: { module: ModuleView.MEDIA_LAB, mode: 'video' },
+                        correlationId: cid,
+                        signal
+                    });
 
-            // New instance to get key
-            const ai = new GoogleGenAI({ apiKey });
-            
-            let request: any = {
-                model: 'veo-3.1-fast-generate-preview',
-                prompt: activePrompt,
-                config: {
-                    numberOfVideos: 1,
-                    resolution: '720p',
-                    aspectRatio: videoRatio
-                }
-            };
+                    let request: any = {
+                        model,
+                        prompt: activePrompt,
+                        config: {
+                            numberOfVideos: 1,
+                            resolution: '720p',
+                            aspectRatio: ratio
+                        }
+                    };
 
-            if (videoFile) {
-                const imgPart = await fileToGenerativePart(videoFile);
-                request.image = {
-                    imageBytes: imgPart.inlineData.data,
-                    mimeType: imgPart.inlineData.mimeType
-                };
-            }
-
-            let operation = await ai.models.generateVideos(request);
-            addLog('MEDIA', 'Video generation task submitted. Polling...', 'info');
+                    if (startImage) {
+                        const imgPart = await fileToGenerativePart(startImage);
+                        request.image = {
+                            imageBytes: imgPart.inlineData.data,
+                            mimeType: imgPart.inlineData.mimeType
+                        };
+                    }
 
-            while (!operation.done) {
-                await new Promise(resolve => setTimeout(resolve, 5000)); // Poll every 5s
-                operation = await ai.operations.getVideosOperation({operation: operation});
-                addLog('MEDIA', 'Rendering frames...', 'info');
-            }
+                    let operation = await ai.models.generateVideos(request);
+                    addLog('MEDIA', 'Video generation task submitted. Polling...', 'info', { correlationId: cid, data: { operation: operation.name } });
+                    setProgress(null, 'Submitted');
 
-            const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
-            if (downloadLink) {
-                 // Must append API Key
-                 const finalUrl = `${downloadLink}&key=${apiKey}`;
-                 setGeneratedVideoUrl(finalUrl);
-                 addLog('MEDIA', 'Video rendered successfully.', 'success');
-            } else {
-                throw new Error("No video URI returned.");
-            }
+                    let polls = 0;
+                    while (!operation.done) {
+                        await waitForJob(5000, signal); // Poll every 5s
+                        operation = await ai.operations.getVideosOperation({operation: operation});
+                        polls++;
+                        const progress = typeof operation.metadata?.progress === 'number' ? operation.metadata.progress : null;
+                        setProgress(progress, `Rendering frames (poll ${polls})`);
+                    }
 
-        } catch (err: any) {
-            console.error(err);
-            if (err.message && err.message.includes("Requested entity was not found")) {
-                 const win = window as any;
-                 if (win.aistudio) {
-                     addLog('MEDIA', 'Resource access denied. Re-requesting authorization...', 'warning');
-                     await win.aistudio.openSelectKey();
-                 }
-            }
-            addLog('MEDIA', `Video Gen failed: ${err.message}`, 'error');
-        } finally {
-            setVideoLoading(false);
-        }
+                    const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
+                    if (!downloadLink) throw new Error("No video URI returned.");
+                    setProgress(null, 'Downloading');
+                    return await fetchGeneratedMedia(downloadLink, signal);
+                } catch (err) {
+                    if (err instanceof JobCancelledError || signal.aborted) throw err;
+                    console.error(err);
+                    throw await handleGeminiError(err, {
+                        onReauthorize: () => addLog('MEDIA', 'Resource access denied. Re-requesting authorization...', 'warning', { correlationId: cid })
+                    });
+                }
+            },
+            onSuccess: (url) => {
+                setGeneratedVideoUrl(url);
+                addLog('MEDIA', 'Video rendered successfully.', 'success', { correlationId: cid, model, durationMs: Date.now() - startedAt });
+            },
+            onError: (error) => addLog('MEDIA', `Video Gen failed: ${error.message}`, 'error', {
+                correlationId: cid,
+                model,
+                durationMs: Date.now() - startedAt,
+                data: { kind: error instanceof GeminiError ? error.kind : undefined }
+            })
+        });
+        addLog('MEDIA', 'Video render queued. Track it in the jobs panel.', 'info', { correlationId: cid });
     };
 
     // --- AUDIO HANDLERS ---
-    const handleTTS = async (overrideText?: string) => {
+    const handleTTS = (overrideText?: string, correlationId?: string) => {
         const activeText = overrideText || ttsText;
         if (!activeText) return;
-        addLog('AUDIO', 'Synthesizing speech...', 'info');
-        try {
-             const win = window as any;
-             if (win.aistudio && await win.aistudio.hasSelectedApiKey() === false) {
-                  await win.aistudio.openSelectKey();
-             }
-
-             const apiKey = process.env.API_KEY;
-             if (!apiKey) throw new Error("API Key missing.");
+        // Capture the voice now; it may change while the job is queued
+        const voiceName = getPreferences().mediaLab.ttsVoice;
+        const cid = correlationId || createCorrelationId('tts');
+        const model = getModeSettings('tts').model;
+        let startedAt = Date.now();
 
-             const ai = new GoogleGenAI({ apiKey });
-             const response = await ai.models.generateContent({
-                 model: 'gemini-2.5-flash-preview-tts',
-                 contents: { parts: [{ text: activeText }] },
-                 config: {
-                     responseModalities: [Modality.AUDIO],
-                     speechConfig: {
-                         voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } }
-                     }
-                 }
-             });
-
-             const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-             if (base64Audio) {
-                 const ctx = new (window.AudioContext || window.webkitAudioContext)({sampleRate: 24000});
-                 const audioBuffer = await decodeAudioData(decodeAudio(base64Audio), ctx, 24000, 1);
-                 const source = ctx.createBufferSource();
-                 source.buffer = audioBuffer;
-                 source.connect(ctx.destination);
-                 source.start();
-                 addLog('AUDIO', 'Audio playback started.', 'success');
-             }
-        } catch (err: any) {
-             addLog('AUDIO', `TTS Failed: ${err.message}`, 'error');
-        }
+        enqueueJob<Float32Array[] | null>({
+            label: `TTS: ${activeText.slice(0, 40)}`,
+            source: 'AUDIO',
+            view: ModuleView.MEDIA_LAB,
+            run: async ({ signal, setProgress }) => {
+                startedAt = Date.now();
+                addLog('AUDIO', 'Synthesizing speech...', 'info', { correlationId: cid, model, data: { characters: activeText.length } });
+                setProgress(null, 'Synthesizing');
+                try {
+                    const ai = await getGeminiClient({ usage: { module: ModuleView.MEDIA_LAB, mode: 'tts' }, correlationId: cid, signal });
+                    const response = await ai.models.generateContent({
+                        model,
+                        contents: { parts: [{ text: activeText }] },
+                        config: {
+                            responseModalities: [Modality.AUDIO],
+                            speechConfig: {
+                                voiceConfig: { prebuiltVoiceConfig: { voiceName } }
+                            }
+                        }
+                    });
+                    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+                    return base64Audio ? await decodePcm(base64Audio, 1) : null;
+                } catch (err) {
+                    if (signal.aborted) throw new JobCancelledError();
+                    throw await handleGeminiError(err, {
+                        onReauthorize: () => addLog('AUDIO', 'Resource access denied. Re-requesting authorization...', 'warning', { correlationId: cid })
+                    });
+                }
+            },
+            onSuccess: (channels) => {
+                if (!channels) return;
+                const ctx = new (window.AudioContext || window.webkitAudioContext)({sampleRate: LIVE_OUTPUT_RATE});
+                const audioBuffer = createAudioBuffer(channels, ctx, LIVE_OUTPUT_RATE);
+                const source = ctx.createBufferSource();
+                source.buffer = audioBuffer;
+                source.connect(ctx.destination);
+                source.onended = () => ctx.close();
+                source.start();
+                addLog('AUDIO', 'Audio playback started.', 'success', { correlationId: cid, model, durationMs: Date.now() - startedAt, data: { seconds: Number(audioBuffer.duration.toFixed(1)) } });
+            },
+            onError: (error) => addLog('AUDIO', `TTS Failed: ${error.message}`, 'error', {
+                correlationId: cid,
+                model,
+                durationMs: Date.now() - startedAt,
+                data: { kind: error instanceof GeminiError ? error.kind : undefined }
+            })
+        });
     };
 
     const handleTranscribe = async () => {
@@ -172,41 +243,47 @@ const MediaLab: React.FC<MediaLabProps> = ({ addLog }) => {
         
         try {
             const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+            recordingStreamRef.current = stream;
             const mediaRecorder = new MediaRecorder(stream);
             const chunks: BlobPart[] = [];
             
             mediaRecorder.ondataavailable = (e) => chunks.push(e.data);
             mediaRecorder.onstop = async () => {
+                stream.getTracks().forEach(track => track.stop());
+                if (recordingStreamRef.current === stream) recordingStreamRef.current = null;
+                // Shutdown stops the tracks, which ends the recording; nothing may be sent after it
+                if (isSystemHalted()) {
+                    setIsRecording(false);
+                    return;
+                }
                 const blob = new Blob(chunks, { type: 'audio/webm' }); // Typically webm/opus
                 const base64 = await blobToBase64(blob);
                 
                 addLog('AUDIO', 'Transcribing...', 'info');
-                
-                const win = window as any;
-                if (win.aistudio && await win.aistudio.hasSelectedApiKey() === false) {
-                     await win.aistudio.openSelectKey();
-                }
 
-                const apiKey = process.env.API_KEY;
-                if (!apiKey) {
-                    addLog('AUDIO', 'API Key missing.', 'error');
+                try {
+                    const ai = await getGeminiClient({ usage: { module: ModuleView.MEDIA_LAB, mode: 'transcribe' } });
+                    const settings = getModeSettings('transcribe');
+                    const response = await ai.models.generateContent({
+                        model: settings.model,
+                        contents: {
+                            parts: [
+                                { inlineData: { mimeType: 'audio/webm', data: base64 } },
+                                { text: "Transcribe this audio exactly." }
+                            ]
+                        },
+                        config: buildGenerationConfig(settings)
+                    });
+                    setTranscript(response.text || "No transcription.");
+                    addLog('AUDIO', 'Transcription complete.', 'success');
+                } catch (err) {
+                    const error = await handleGeminiError(err, {
+                        onReauthorize: () => addLog('AUDIO', 'Resource access denied. Re-requesting authorization...', 'warning')
+                    });
+                    addLog('AUDIO', `Transcription failed: ${error.message}`, 'error');
+                } finally {
                     setIsRecording(false);
-                    return;
                 }
-
-                const ai = new GoogleGenAI({ apiKey });
-                const response = await ai.models.generateContent({
-                    model: 'gemini-2.5-flash',
-                    contents: {
-                        parts: [
-                            { inlineData: { mimeType: 'audio/webm', data: base64 } },
-                            { text: "Transcribe this audio exactly." }
-                        ]
-                    }
-                });
-                setTranscript(response.text || "No transcription.");
-                addLog('AUDIO', 'Transcription complete.', 'success');
-                setIsRecording(false);
             };
 
             mediaRecorder.start();
@@ -258,11 +335,11 @@ const MediaLab: React.FC<MediaLabProps> = ({ addLog }) => {
                             
                             <button 
                                 onClick={() => handleGenerateVideo()}
-                                disabled={videoLoading || !videoPrompt}
+                                disabled={!videoPrompt}
                                 className="w-full py-4 bg-red-600 hover:bg-red-500 text-white font-bold tracking-widest font-mono flex items-center justify-center gap-2"
                             >
-                                {videoLoading ? <Loader2 className="animate-spin" /> : <Video />}
-                                RENDER SEQUENCE
+                                {videoJobs.length > 0 ? <Loader2 className="animate-spin" /> : <Video />}
+                                {videoJobs.length > 0 ? `QUEUE SEQUENCE (${videoJobs.length} ACTIVE)` : 'RENDER SEQUENCE'}
                             </button>
                              <div className="flex items-center justify-center gap-2 text-[10px] text-yellow-500">
                                 <Key size={10} /> REQUIRES PAID KEY
@@ -290,7 +367,8 @@ const MediaLab: React.FC<MediaLabProps> = ({ addLog }) => {
                                 placeholder="Enter message to broadcast..."
                             />
                             <button onClick={() => handleTTS()} className="bg-orange-600 text-white px-4 py-2 font-mono text-sm flex items-center gap-2">
-                                <Play size={14} /> TRANSMIT
+                                {ttsJobs.length > 0 ? <Loader2 size={14} className="animate-spin" /> : <Play size={14} />}
+                                {ttsJobs.length > 0 ? `TRANSMIT (${ttsJobs.length} QUEUED)` : 'TRANSMIT'}
                             </button>
                         </div>
 
@@ -0,0 +1,205 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { SlidersHorizontal, Save, RotateCcw, Download, Upload } from 'lucide-react';
+import { LogEntry } from '../types';
+import {
+    DEFAULT_MODE_SETTINGS,
+    REGISTRY_MODES,
+    RegistryMode,
+    ModeSettings,
+    exportModelRegistry,
+    getModeSettings,
+    importModelRegistry,
+    isModeOverridden,
+    parseModeSettings,
+    resetModeSettings,
+    saveModeSettings,
+    useModelRegistry,
+} from '../services/modelRegistry';
+
+interface ModelRegistryEditorProps {
+    addLog: (source: string, message: string, type?: LogEntry['type']) => void;
+}
+
+const NUMERIC_INPUTS: { field: 'temperature' | 'topP' | 'topK' | 'maxOutputTokens' | 'thinkingBudget'; label: string; step: string }[] = [
+    { field: 'temperature', label: 'TEMPERATURE', step: '0.1' },
+    { field: 'topP', label: 'TOP_P', step: '0.05' },
+    { field: 'topK', label: 'TOP_K', step: '1' },
+    { field: 'maxOutputTokens', label: 'MAX_OUTPUT', step: '256' },
+    { field: 'thinkingBudget', label: 'THINKING_BUDGET', step: '1024' },
+];
+
+// Known model ids offered as suggestions; any id can be typed
+const KNOWN_MODELS = [...new Set(Object.values(DEFAULT_MODE_SETTINGS).map(settings => settings.model))];
+
+type Draft = { model: string; systemInstruction: string } & Record<string, string>;
+
+const toDraft = (settings: ModeSettings): Draft => {
+    const draft: Draft = { model: settings.model, systemInstruction: settings.systemInstruction };
+    NUMERIC_INPUTS.forEach(({ field }) => {
+        draft[field] = settings[field] !== undefined ? String(settings[field]) : '';
+    });
+    return draft;
+};
+
+const ModelRegistryEditor: React.FC<ModelRegistryEditorProps> = ({ addLog }) => {
+    useModelRegistry();
+    const [selected, setSelected] = useState<RegistryMode>('flash');
+    const [draft, setDraft] = useState<Draft>(() => toDraft(getModeSettings('flash')));
+    const [error, setError] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const info = REGISTRY_MODES.find(entry => entry.mode === selected)!;
+
+    useEffect(() => {
+        setDraft(toDraft(getModeSettings(selected)));
+        setError(null);
+    }, [selected]);
+
+    const updateDraft = (field: string, value: string) => setDraft((prev: Draft) => ({ ...prev, [field]: value }));
+
+    const handleSave = () => {
+        const candidate: Record<string, unknown> = { model: draft.model, systemInstruction: draft.systemInstruction };
+        NUMERIC_INPUTS.forEach(({ field }) => {
+            if (draft[field].trim() !== '') candidate[field] = Number(draft[field]);
+        });
+        try {
+            saveModeSettings(selected, parseModeSettings(selected, candidate));
+            setError(null);
+            addLog('SYS', `Model registry: ${selected} -> ${draft.model.trim()}`, 'success');
+        } catch (err: any) {
+            setError(err.message);
+        }
+    };
+
+    const handleReset = () => {
+        resetModeSettings(selected);
+        setDraft(toDraft(getModeSettings(selected)));
+        setError(null);
+        addLog('SYS', `Model registry: ${selected} restored to default.`, 'info');
+    };
+
+    const handleExport = () => {
+        const blob = new Blob([exportModelRegistry()], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = 'meli_model_registry.json';
+        link.click();
+        URL.revokeObjectURL(url);
+        addLog('SYS', 'Model registry exported.', 'success');
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const count = importModelRegistry(await file.text());
+            setDraft(toDraft(getModeSettings(selected)));
+            setError(null);
+            addLog('SYS', `Model registry imported (${count} modes).`, 'success');
+        } catch (err: any) {
+            setError(err.message);
+            addLog('SYS', `Model registry import rejected: ${err.message}`, 'error');
+        }
+    };
+
+    return (
+        <div className="flex flex-col h-full font-mono">
+            <div className="flex items-center justify-between px-4 py-3 border-b border-ops-800">
+                <h2 className="text-sm font-bold text-white tracking-widest flex items-center gap-2">
+                    <SlidersHorizontal size={16} className="text-ops-accent" /> MODEL_REGISTRY
+                </h2>
+                <div className="flex items-center gap-2">
+                    <button onClick={handleExport} className="flex items-center gap-1 px-2 py-1 text-[10px] border border-ops-800 text-ops-text-dim hover:text-white">
+                        <Download size={10} /> EXPORT
+                    </button>
+                    <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-1 px-2 py-1 text-[10px] border border-ops-800 text-ops-text-dim hover:text-white">
+                        <Upload size={10} /> IMPORT
+                    </button>
+                    <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+                </div>
+            </div>
+
+            <div className="flex flex-1 min-h-0">
+                {/* Mode list */}
+                <div className="w-48 border-r border-ops-800 overflow-y-auto custom-scrollbar py-2">
+                    {REGISTRY_MODES.map(entry => (
+                        <button
+                            key={entry.mode}
+                            onClick={() => setSelected(entry.mode)}
+                            className={`w-full text-left px-3 py-1.5 text-[10px] tracking-wider border-l-2 ${selected === entry.mode ? 'border-ops-accent bg-ops-accent/10 text-ops-accent' : 'border-transparent text-ops-text-dim hover:text-white'}`}
+                        >
+                            <div className="flex items-center justify-between">
+                                <span>{entry.label.toUpperCase()}</span>
+                                {isModeOverridden(entry.mode) && <span className="w-1.5 h-1.5 rounded-full bg-ops-warn" title="Overridden"></span>}
+                            </div>
+                            <div className="text-[9px] text-ops-500">{entry.module}</div>
+                        </button>
+                    ))}
+                </div>
+
+                {/* Editor */}
+                <div className="flex-1 p-4 overflow-y-auto space-y-4">
+                    <div>
+                        <label className="block text-[10px] text-ops-text-dim tracking-widest mb-1">MODEL_ID</label>
+                        <input
+                            value={draft.model}
+                            onChange={e => updateDraft('model', e.target.value)}
+                            list="meli-known-models"
+                            className="w-full bg-black border border-ops-800 focus:border-ops-accent outline-none px-3 py-2 text-xs text-white"
+                        />
+                        <datalist id="meli-known-models">
+                            {KNOWN_MODELS.map(model => <option key={model} value={model} />)}
+                        </datalist>
+                        <p className="text-[9px] text-ops-text-dim mt-1">DEFAULT: {DEFAULT_MODE_SETTINGS[selected].model}</p>
+                    </div>
+
+                    {info.systemPrompt && (
+                        <div>
+                            <label className="block text-[10px] text-ops-text-dim tracking-widest mb-1">SYSTEM_INSTRUCTION</label>
+                            <textarea
+                                value={draft.systemInstruction}
+                                onChange={e => updateDraft('systemInstruction', e.target.value)}
+                                placeholder="None"
+                                className="w-full h-40 bg-black border border-ops-800 focus:border-ops-accent outline-none px-3 py-2 text-xs text-ops-text-main resize-none"
+                            />
+                        </div>
+                    )}
+
+                    {info.generation && (
+                        <div className="grid grid-cols-3 gap-2">
+                            {NUMERIC_INPUTS.map(({ field, label, step }) => (
+                                <label key={field} className="block">
+                                    <span className="block text-[9px] text-ops-text-dim tracking-widest mb-1">{label}</span>
+                                    <input
+                                        type="number"
+                                        min="0"
+                                        step={step}
+                                        value={draft[field]}
+                                        onChange={e => updateDraft(field, e.target.value)}
+                                        placeholder="model default"
+                                        className="w-full bg-black border border-ops-800 focus:border-ops-accent outline-none px-2 py-1 text-xs text-white"
+                                    />
+                                </label>
+                            ))}
+                        </div>
+                    )}
+
+                    {error && <p className="text-[10px] text-ops-alert">{error}</p>}
+
+                    <div className="flex justify-end gap-2">
+                        <button onClick={handleReset} disabled={!isModeOverridden(selected)} className="flex items-center gap-1 px-3 py-1.5 text-[10px] tracking-widest border border-ops-800 text-ops-text-dim hover:text-white disabled:opacity-40">
+                            <RotateCcw size={10} /> DEFAULT
+                        </button>
+                        <button onClick={handleSave} className="flex items-center gap-1 px-4 py-1.5 text-[10px] tracking-widest bg-ops-accent text-black font-bold">
+                            <Save size={10} /> SAVE
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ModelRegistryEditor;
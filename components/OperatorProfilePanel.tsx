@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { UserCog, X, Check } from 'lucide-react';
+import { INTEL_MODES, IntelMode, OperatorProfile } from '../types';
+import { PROFILE_COLORS, saveOperatorProfile, validateOperatorProfile } from '../services/operatorProfile';
+
+interface OperatorProfilePanelProps {
+    profile: OperatorProfile;
+    onClose: () => void;
+}
+
+const OperatorProfilePanel: React.FC<OperatorProfilePanelProps> = ({ profile, onClose }) => {
+    const [callsign, setCallsign] = useState(profile.callsign);
+    const [color, setColor] = useState(profile.color);
+    const [defaultMode, setDefaultMode] = useState<IntelMode>(profile.defaultMode);
+
+    const draft: OperatorProfile = { callsign, color, defaultMode };
+    const problems = validateOperatorProfile(draft);
+
+    const handleSave = () => {
+        if (problems.length > 0) return;
+        saveOperatorProfile(draft);
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm" onClick={onClose}>
+            <div className="w-96 tech-border bg-ops-950 p-6 font-mono" onClick={e => e.stopPropagation()}>
+                <div className="flex items-center justify-between mb-6">
+                    <h2 className="text-sm font-bold text-white tracking-widest flex items-center gap-2">
+                        <UserCog size={16} className="text-ops-accent" /> OPERATOR_PROFILE
+                    </h2>
+                    <button onClick={onClose} className="text-ops-text-dim hover:text-white"><X size={14} /></button>
+                </div>
+
+                <label className="block text-[10px] text-ops-text-dim tracking-widest mb-1">CALLSIGN</label>
+                <input
+                    value={callsign}
+                    onChange={e => setCallsign(e.target.value.toUpperCase())}
+                    maxLength={16}
+                    className="w-full bg-black border border-ops-800 focus:border-ops-accent outline-none px-3 py-2 text-sm tracking-widest mb-4"
+                    style={{ color }}
+                />
+
+                <label className="block text-[10px] text-ops-text-dim tracking-widest mb-1">DISPLAY_COLOUR</label>
+                <div className="flex gap-2 mb-4">
+                    {PROFILE_COLORS.map(swatch => (
+                        <button
+                            key={swatch}
+                            onClick={() => setColor(swatch)}
+                            title={swatch}
+                            className={`w-6 h-6 border-2 transition-transform ${color === swatch ? 'border-white scale-110' : 'border-transparent hover:scale-110'}`}
+                            style={{ backgroundColor: swatch }}
+                        />
+                    ))}
+                </div>
+
+                <label className="block text-[10px] text-ops-text-dim tracking-widest mb-1">DEFAULT_INTEL_MODE</label>
+                <select
+                    value={defaultMode}
+                    onChange={e => setDefaultMode(e.target.value as IntelMode)}
+                    className="w-full bg-black border border-ops-800 focus:border-ops-accent outline-none px-3 py-2 text-xs text-white uppercase mb-4"
+                >
+                    {INTEL_MODES.map(m => <option key={m} value={m}>{m.replace('_', ' ')}</option>)}
+                </select>
+
+                {problems.map(problem => (
+                    <p key={problem} className="text-[10px] text-ops-alert mb-1">{problem}</p>
+                ))}
+
+                <div className="flex justify-end gap-2 mt-4">
+                    <button onClick={onClose} className="px-4 py-1.5 text-[10px] tracking-widest border border-ops-800 text-ops-text-dim hover:text-white">
+                        CANCEL
+                    </button>
+                    <button
+                        onClick={handleSave}
+                        disabled={problems.length > 0}
+                        className="px-4 py-1.5 text-[10px] tracking-widest bg-ops-accent text-black font-bold flex items-center gap-1 disabled:opacity-40"
+                    >
+                        <Check size={12} /> SAVE
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default OperatorProfilePanel;
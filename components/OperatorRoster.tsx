@@ -0,0 +1,58 @@
+import React, { useEffect, useState } from 'react';
+import { Users } from 'lucide-react';
+import { ModuleView, OperatorPresence } from '../types';
+import { PRESENCE_HEARTBEAT_MS } from '../services/presence';
+
+interface OperatorRosterProps {
+  identity: string;
+  color: string;
+  activeModule: ModuleView;
+  peers: OperatorPresence[];
+}
+
+const formatLastSeen = (lastSeen: number, now: number) => {
+  const seconds = Math.max(0, Math.round((now - lastSeen) / 1000));
+  return seconds < 2 ? 'NOW' : `${seconds}s AGO`;
+};
+
+const OperatorRoster: React.FC<OperatorRosterProps> = ({ identity, color, activeModule, peers }) => {
+  const [now, setNow] = useState(Date.now());
+
+  // Local clock so last-seen times age between heartbeats
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  return (
+    <div className="px-4 pt-6">
+      <div className="flex items-center justify-between text-[10px] font-mono text-ops-text-dim tracking-widest mb-2">
+        <span className="flex items-center gap-2"><Users size={12} /> MESH_ROSTER</span>
+        <span className="text-ops-accent">{peers.length + 1} ONLINE</span>
+      </div>
+      <div className="space-y-1">
+        <div className="flex items-center gap-2 text-[10px] font-mono px-2 py-1 bg-ops-accent/5 border-l border-ops-accent">
+          <span className="w-1.5 h-1.5 rounded-full bg-ops-accent shrink-0"></span>
+          <span className="truncate" style={{ color }}>{identity}</span>
+          <span className="ml-auto text-ops-500">{activeModule}</span>
+        </div>
+        {peers.map(peer => {
+          const lagging = now - peer.lastSeen > PRESENCE_HEARTBEAT_MS * 1.5;
+          return (
+            <div key={peer.operatorId} className="flex items-center gap-2 text-[10px] font-mono px-2 py-1 border-l border-ops-800 hover:bg-white/5">
+              <span className={`w-1.5 h-1.5 rounded-full shrink-0 ${lagging ? 'bg-ops-warn animate-pulse' : 'bg-green-500'}`}></span>
+              <span className="text-ops-text-main truncate" style={peer.color ? { color: peer.color } : undefined}>{peer.operatorId}</span>
+              <span className="ml-auto text-ops-500">{peer.activeModule}</span>
+              <span className={`w-12 text-right ${lagging ? 'text-ops-warn' : 'text-ops-text-dim'}`}>{formatLastSeen(peer.lastSeen, now)}</span>
+            </div>
+          );
+        })}
+        {peers.length === 0 && (
+          <div className="text-[10px] font-mono text-ops-text-dim italic px-2 py-1">No other operators on mesh.</div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default OperatorRoster;
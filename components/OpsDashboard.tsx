@@ -0,0 +1,350 @@
+import React, { useMemo, useState } from 'react';
+import {
+    LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer
+} from 'recharts';
+import { LayoutDashboard, ChevronLeft, ChevronRight, Maximize2, Minimize2, X, Plus, RotateCcw, Radio, Film, MessageSquareText, Image, Receipt } from 'lucide-react';
+import { ChatMessage, LogEntry, ModuleView } from '../types';
+import {
+    DASHBOARD_WIDGETS,
+    DashboardLayout,
+    WidgetId,
+    resetDashboardLayout,
+    saveDashboardLayout,
+    useDashboardLayout,
+} from '../services/dashboardLayout';
+import { ThreatLevel, formatBytes, formatLatency, getTelemetryHistory, useTelemetry } from '../services/telemetry';
+import { useMesh } from '../services/mesh';
+import { useJobs } from '../services/jobManager';
+import { useLogs } from '../services/logStore';
+import { useUsageRecords } from '../services/usage';
+import { useRecentRenders } from '../services/recentRenders';
+
+interface OpsDashboardProps {
+    identity: string;
+    addLog: (source: string, message: string, type?: LogEntry['type']) => void;
+    onOpenView: (view: ModuleView) => void;
+}
+
+const INTEL_FEED_LIMIT = 6;
+const ERROR_WINDOW_MS = 60 * 60 * 1000;
+
+const THREAT_COLORS: Record<ThreatLevel, string> = {
+    NORMAL: 'text-green-400',
+    ELEVATED: 'text-ops-warn',
+    CRITICAL: 'text-ops-alert',
+};
+
+const AXIS_PROPS = { stroke: '#94a3b8', fontSize: 10, tick: { fill: '#94a3b8' } };
+const TOOLTIP_STYLE = { background: '#0a0a0a', border: '1px solid #262626', fontSize: 11 };
+
+const formatClock = (time: number) => new Date(time).toLocaleTimeString([], { hour12: false });
+
+const localDay = (timestamp: number) => {
+    const date = new Date(timestamp);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+const Stat: React.FC<{ label: string; value: any; className?: string }> = ({ label, value, className = 'text-white' }) => (
+    <div>
+        <div className="text-[9px] text-ops-text-dim tracking-widest">{label}</div>
+        <div className={`text-lg ${className}`}>{value}</div>
+    </div>
+);
+
+const Empty: React.FC<{ children?: any }> = ({ children }) => (
+    <div className="h-full flex items-center justify-center text-[10px] text-ops-text-dim italic">{children}</div>
+);
+
+// --- Widgets ---
+
+const StatusWidget: React.FC = () => {
+    const { threatLevel, network, heap, api } = useTelemetry();
+    return (
+        <div className="grid grid-cols-2 gap-3">
+            <Stat label="THREAT ASSESSMENT" value={threatLevel} className={THREAT_COLORS[threatLevel]} />
+            <Stat label="NETWORK" value={network.online ? (network.effectiveType?.toUpperCase() || 'ONLINE') : 'OFFLINE'} className={network.online ? 'text-white' : 'text-ops-alert'} />
+            <Stat label="API CALLS (5M)" value={api.calls} />
+            <Stat label="JS HEAP" value={heap ? `${formatBytes(heap.usedBytes)}` : 'N/A'} />
+        </div>
+    );
+};
+
+const LatencyWidget: React.FC = () => {
+    const { api } = useTelemetry(); // Re-renders on every sample, which also refreshes the history
+    const data = getTelemetryHistory().map(point => ({ label: formatClock(point.time), p50: point.p50, p95: point.p95 }));
+    return (
+        <div className="h-full flex flex-col">
+            <div className="flex gap-6 mb-2">
+                <Stat label="P50" value={formatLatency(api.p50)} />
+                <Stat label="P95" value={formatLatency(api.p95)} />
+                <Stat label="P99" value={formatLatency(api.p99)} />
+                <Stat label="ERROR RATE" value={`${Math.round(api.errorRate * 100)}%`} className={api.errorRate >= 0.1 ? 'text-ops-warn' : 'text-white'} />
+            </div>
+            <div className="flex-1 min-h-0">
+                <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={data} margin={{ top: 5, right: 10, left: 0, bottom: 0 }}>
+                        <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
+                        <XAxis dataKey="label" {...AXIS_PROPS} minTickGap={40} />
+                        <YAxis {...AXIS_PROPS} width={40} />
+                        <Tooltip contentStyle={TOOLTIP_STYLE} />
+                        <Line type="monotone" dataKey="p50" stroke="#06b6d4" dot={false} name="p50 ms" isAnimationActive={false} />
+                        <Line type="monotone" dataKey="p95" stroke="#f59e0b" dot={false} name="p95 ms" isAnimationActive={false} />
+                    </LineChart>
+                </ResponsiveContainer>
+            </div>
+        </div>
+    );
+};
+
+const IntelWidget: React.FC<{ messages: ChatMessage[] }> = ({ messages }) => {
+    if (messages.length === 0) return <Empty>No intel traffic this session.</Empty>;
+    return (
+        <div className="space-y-2">
+            {messages.map(message => (
+                <div key={message.id} className="text-[11px]">
+                    <div className="flex gap-2 text-[9px] text-ops-text-dim">
+                        <span style={{ color: message.authorColor }}>{message.role === 'model' ? 'M.E.L.I.' : message.authorId || 'OPERATOR'}</span>
+                        <span>{formatClock(message.timestamp)}</span>
+                    </div>
+                    <div className="text-ops-text-main truncate">{message.content}</div>
+                </div>
+            ))}
+        </div>
+    );
+};
+
+const RendersWidget: React.FC = () => {
+    const renders = useRecentRenders();
+    if (renders.length === 0) return <Empty>No renders this session.</Empty>;
+    return (
+        <div className="grid grid-cols-4 gap-2">
+            {renders.map(render => (
+                <img key={render.id} src={render.url} alt={render.prompt} title={`${render.mode.toUpperCase()}: ${render.prompt}`} className="w-full aspect-square object-cover border border-ops-800" />
+            ))}
+        </div>
+    );
+};
+
+const MediaJobsWidget: React.FC = () => {
+    const jobs = useJobs().filter(job => job.source === 'MEDIA' && (job.status === 'queued' || job.status === 'running'));
+    if (jobs.length === 0) return <Empty>No MediaLab jobs running.</Empty>;
+    return (
+        <div className="space-y-2">
+            {jobs.map(job => (
+                <div key={job.id} className="text-[11px]">
+                    <div className="flex justify-between gap-2">
+                        <span className="text-ops-text-main truncate">{job.label}</span>
+                        <span className="text-ops-text-dim shrink-0">{job.status === 'queued' ? 'QUEUED' : job.detail || 'RUNNING'}</span>
+                    </div>
+                    <div className="w-full bg-ops-800 h-0.5 mt-1">
+                        <div className="h-full bg-ops-accent transition-all" style={{ width: `${Math.round((job.progress ?? 0) * 100)}%` }}></div>
+                    </div>
+                </div>
+            ))}
+        </div>
+    );
+};
+
+const LiveWidget: React.FC = () => {
+    const { live, network } = useTelemetry();
+    const color = live.state === 'OPEN' ? 'text-green-400' : live.state === 'ERROR' ? 'text-ops-alert' : live.state === 'CONNECTING' ? 'text-ops-warn' : 'text-ops-text-dim';
+    return (
+        <div className="grid grid-cols-2 gap-3">
+            <Stat label="UPLINK" value={live.state} className={color} />
+            <Stat label="SESSIONS" value={live.sessions} />
+            <Stat label="RTT" value={network.rttMs !== undefined ? `${network.rttMs}ms` : '--'} />
+            <Stat label="DOWNLINK" value={network.downlinkMbps !== undefined ? `${network.downlinkMbps}Mbps` : '--'} />
+        </div>
+    );
+};
+
+const ErrorsWidget: React.FC = () => {
+    const logs = useLogs();
+    const data = useMemo(() => {
+        const since = Date.now() - ERROR_WINDOW_MS;
+        const counts = new Map<string, { label: string; errors: number; warnings: number }>();
+        logs.forEach(log => {
+            if (log.time < since || (log.type !== 'error' && log.type !== 'warning')) return;
+            const row = counts.get(log.source) ?? { label: log.source, errors: 0, warnings: 0 };
+            if (log.type === 'error') row.errors++;
+            else row.warnings++;
+            counts.set(log.source, row);
+        });
+        return [...counts.values()].sort((a, b) => b.errors - a.errors || b.warnings - a.warnings);
+    }, [logs]);
+
+    if (data.length === 0) return <Empty>No errors or warnings in the last hour.</Empty>;
+    return (
+        <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={data} margin={{ top: 5, right: 10, left: 0, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
+                <XAxis dataKey="label" {...AXIS_PROPS} />
+                <YAxis {...AXIS_PROPS} width={30} allowDecimals={false} />
+                <Tooltip contentStyle={TOOLTIP_STYLE} cursor={{ fill: '#1e293b' }} />
+                <Bar dataKey="errors" stackId="a" fill="#ef4444" name="Errors" />
+                <Bar dataKey="warnings" stackId="a" fill="#f59e0b" name="Warnings" radius={[2, 2, 0, 0]} />
+            </BarChart>
+        </ResponsiveContainer>
+    );
+};
+
+const UsageWidget: React.FC = () => {
+    const records = useUsageRecords();
+    const data = useMemo(() => {
+        const days: { key: string; label: string; cost: number; tokens: number }[] = [];
+        for (let offset = 6; offset >= 0; offset--) {
+            const date = new Date();
+            date.setDate(date.getDate() - offset);
+            days.push({ key: localDay(date.getTime()), label: date.toLocaleDateString([], { weekday: 'short' }).toUpperCase(), cost: 0, tokens: 0 });
+        }
+        records.forEach(record => {
+            const day = days.find(entry => entry.key === localDay(record.timestamp));
+            if (!day) return;
+            day.cost += record.cost;
+            day.tokens += record.totalTokens;
+        });
+        return days.map(day => ({ ...day, cost: Number(day.cost.toFixed(4)) }));
+    }, [records]);
+
+    return (
+        <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={data} margin={{ top: 5, right: 10, left: 0, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
+                <XAxis dataKey="label" {...AXIS_PROPS} />
+                <YAxis {...AXIS_PROPS} width={40} />
+                <Tooltip contentStyle={TOOLTIP_STYLE} cursor={{ fill: '#1e293b' }} />
+                <Bar dataKey="cost" fill="#06b6d4" name="Est. Cost ($)" radius={[2, 2, 0, 0]} />
+            </BarChart>
+        </ResponsiveContainer>
+    );
+};
+
+// Module each widget opens when its title is clicked
+const WIDGET_VIEWS: Partial<Record<WidgetId, { view: ModuleView; icon: any }>> = {
+    intel: { view: ModuleView.INTEL, icon: MessageSquareText },
+    renders: { view: ModuleView.VISUAL_OPS, icon: Image },
+    mediaJobs: { view: ModuleView.MEDIA_LAB, icon: Film },
+    live: { view: ModuleView.LIVE_COMMS, icon: Radio },
+    usage: { view: ModuleView.USAGE, icon: Receipt },
+};
+
+const OpsDashboard: React.FC<OpsDashboardProps> = ({ identity, addLog, onOpenView }) => {
+    const layout = useDashboardLayout(identity);
+    const [editing, setEditing] = useState(false);
+    const [intel, setIntel] = useState<ChatMessage[]>([]);
+
+    // Intel messages from this tab and from peers both travel as SYNC_MESSAGE
+    useMesh((message) => {
+        if (message.type !== 'SYNC_MESSAGE') return;
+        const payload = message.payload;
+        setIntel(prev => (prev.some(m => m.id === payload.id) ? prev : [payload, ...prev].slice(0, INTEL_FEED_LIMIT)));
+    });
+
+    const hidden = DASHBOARD_WIDGETS.filter(widget => !layout.some(item => item.id === widget.id));
+
+    const update = (next: DashboardLayout) => saveDashboardLayout(identity, next);
+
+    const move = (index: number, delta: number) => {
+        const target = index + delta;
+        if (target < 0 || target >= layout.length) return;
+        const next = [...layout];
+        [next[index], next[target]] = [next[target], next[index]];
+        update(next);
+    };
+
+    const handleReset = () => {
+        resetDashboardLayout(identity);
+        addLog('SYS', `Dashboard layout reset for ${identity}.`, 'info');
+    };
+
+    const renderWidget = (id: WidgetId) => {
+        switch (id) {
+            case 'status': return <StatusWidget />;
+            case 'latency': return <LatencyWidget />;
+            case 'intel': return <IntelWidget messages={intel} />;
+            case 'renders': return <RendersWidget />;
+            case 'mediaJobs': return <MediaJobsWidget />;
+            case 'live': return <LiveWidget />;
+            case 'errors': return <ErrorsWidget />;
+            case 'usage': return <UsageWidget />;
+        }
+    };
+
+    return (
+        <div className="h-full w-full flex flex-col font-mono">
+            <div className="flex items-center justify-between mb-4">
+                <h2 className="text-sm font-bold text-white tracking-widest flex items-center gap-2">
+                    <LayoutDashboard size={16} className="text-ops-accent" /> OPERATIONS OVERVIEW
+                </h2>
+                <div className="flex items-center gap-2">
+                    {editing && (
+                        <button onClick={handleReset} className="flex items-center gap-1 px-2 py-1 text-[10px] border border-ops-800 text-ops-text-dim hover:text-white">
+                            <RotateCcw size={10} /> RESET
+                        </button>
+                    )}
+                    <button
+                        onClick={() => setEditing(!editing)}
+                        className={`px-2 py-1 text-[10px] border ${editing ? 'border-ops-accent text-ops-accent bg-ops-accent/10' : 'border-ops-800 text-ops-text-dim hover:text-white'}`}
+                    >
+                        {editing ? 'DONE' : 'CUSTOMIZE'}
+                    </button>
+                </div>
+            </div>
+
+            {editing && hidden.length > 0 && (
+                <div className="flex flex-wrap items-center gap-2 mb-4 text-[10px]">
+                    <span className="text-ops-text-dim">ADD:</span>
+                    {hidden.map(widget => (
+                        <button
+                            key={widget.id}
+                            onClick={() => update([...layout, { id: widget.id, size: widget.defaultSize }])}
+                            className="flex items-center gap-1 px-2 py-0.5 border border-dashed border-ops-800 text-ops-text-dim hover:text-ops-accent hover:border-ops-accent"
+                        >
+                            <Plus size={10} /> {widget.label}
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            <div className="flex-1 overflow-y-auto custom-scrollbar pb-14">
+                {layout.length === 0 && <Empty>All widgets are hidden. Use CUSTOMIZE to add some.</Empty>}
+                <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 auto-rows-[220px] gap-4">
+                    {layout.map((item, index) => {
+                        const info = DASHBOARD_WIDGETS.find(widget => widget.id === item.id)!;
+                        const link = WIDGET_VIEWS[item.id];
+                        return (
+                            <div key={item.id} className={`tech-border bg-black/40 backdrop-blur flex flex-col min-w-0 ${item.size === 2 ? 'md:col-span-2' : ''}`}>
+                                <div className="flex items-center justify-between px-3 py-2 border-b border-ops-800 text-[10px] tracking-widest">
+                                    {link && !editing ? (
+                                        <button onClick={() => onOpenView(link.view)} className="flex items-center gap-1 text-ops-400 hover:text-ops-accent" title="Open module">
+                                            <link.icon size={10} /> {info.label}
+                                        </button>
+                                    ) : (
+                                        <span className="text-ops-400">{info.label}</span>
+                                    )}
+                                    {editing && (
+                                        <div className="flex items-center gap-1 text-ops-text-dim">
+                                            <button onClick={() => move(index, -1)} disabled={index === 0} className="hover:text-white disabled:opacity-30" title="Move earlier"><ChevronLeft size={12} /></button>
+                                            <button onClick={() => move(index, 1)} disabled={index === layout.length - 1} className="hover:text-white disabled:opacity-30" title="Move later"><ChevronRight size={12} /></button>
+                                            <button
+                                                onClick={() => update(layout.map(entry => (entry.id === item.id ? { ...entry, size: entry.size === 2 ? 1 : 2 } : entry)))}
+                                                className="hover:text-white"
+                                                title={item.size === 2 ? 'Make narrow' : 'Make wide'}
+                                            >
+                                                {item.size === 2 ? <Minimize2 size={12} /> : <Maximize2 size={12} />}
+                                            </button>
+                                            <button onClick={() => update(layout.filter(entry => entry.id !== item.id))} className="hover:text-ops-alert" title="Hide"><X size={12} /></button>
+                                        </div>
+                                    )}
+                                </div>
+                                <div className="flex-1 min-h-0 p-3 overflow-y-auto custom-scrollbar">{renderWidget(item.id)}</div>
+                            </div>
+                        );
+                    })}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default OpsDashboard;
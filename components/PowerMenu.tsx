@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { Lock, Power, Settings, X } from 'lucide-react';
+
+interface PowerMenuProps {
+    hasPasscode: boolean;
+    onLock: () => void;
+    onShutdown: (wipe: boolean) => void;
+    onOpenSettings: () => void;
+    onClose: () => void;
+}
+
+const PowerMenu: React.FC<PowerMenuProps> = ({ hasPasscode, onLock, onShutdown, onOpenSettings, onClose }) => {
+    const [isConfirming, setIsConfirming] = useState(false);
+    const [wipe, setWipe] = useState(false);
+
+    return (
+        <div className="absolute right-6 top-12 w-72 tech-border bg-ops-950/95 backdrop-blur-md shadow-[0_10px_40px_rgba(0,0,0,0.6)] z-40 font-mono">
+            <div className="flex items-center justify-between px-4 py-2 border-b border-ops-800">
+                <span className="text-[10px] font-bold text-ops-400 tracking-widest flex items-center gap-2">
+                    <Power size={12} /> POWER
+                </span>
+                <button onClick={onClose} className="text-ops-text-dim hover:text-white"><X size={12} /></button>
+            </div>
+
+            {!isConfirming ? (
+                <div className="p-3 space-y-2">
+                    <button
+                        onClick={onLock}
+                        disabled={!hasPasscode}
+                        className="w-full py-2 px-3 text-[10px] tracking-widest border border-ops-800 text-ops-text-main hover:border-ops-accent hover:text-ops-accent disabled:opacity-40 disabled:hover:border-ops-800 disabled:hover:text-ops-text-main flex items-center gap-2"
+                    >
+                        <Lock size={12} /> LOCK SESSION
+                    </button>
+                    {!hasPasscode && (
+                        <button onClick={onOpenSettings} className="w-full text-left text-[9px] text-ops-text-dim hover:text-white flex items-center gap-1">
+                            <Settings size={10} /> Set a passcode in SETTINGS to enable locking.
+                        </button>
+                    )}
+                    <button
+                        onClick={() => setIsConfirming(true)}
+                        className="w-full py-2 px-3 text-[10px] tracking-widest border border-ops-alert/40 text-ops-alert hover:bg-ops-alert/10 flex items-center gap-2"
+                    >
+                        <Power size={12} /> SHUTDOWN...
+                    </button>
+                </div>
+            ) : (
+                <div className="p-3 space-y-3">
+                    <p className="text-[10px] text-ops-text-dim leading-relaxed">
+                        Ends any Live session, releases camera and microphone, and cancels background jobs.
+                    </p>
+                    <label className="flex items-start gap-2 text-[10px] text-ops-text-main cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={wipe}
+                            onChange={e => setWipe(e.target.checked)}
+                            className="accent-ops-alert mt-0.5"
+                        />
+                        <span>Also wipe local chat, logs and generated artifacts</span>
+                    </label>
+                    <div className="flex gap-2">
+                        <button
+                            onClick={() => setIsConfirming(false)}
+                            className="flex-1 py-1.5 text-[10px] tracking-widest border border-ops-800 text-ops-text-dim hover:text-white"
+                        >
+                            CANCEL
+                        </button>
+                        <button
+                            onClick={() => onShutdown(wipe)}
+                            className="flex-1 py-1.5 text-[10px] tracking-widest border border-ops-alert bg-ops-alert/20 text-ops-alert hover:bg-ops-alert/30"
+                        >
+                            {wipe ? 'WIPE & SHUT DOWN' : 'SHUT DOWN'}
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default PowerMenu;
@@ -0,0 +1,263 @@
+import React, { useEffect, useState } from 'react';
+import { Settings, Monitor, Image, Film, Radio, Network, UserCog, RotateCcw, ScrollText, KeyRound, LucideIcon } from 'lucide-react';
+import { LogEntry } from '../types';
+import ModelRegistryEditor from './ModelRegistryEditor';
+import {
+    ASPECT_RATIOS,
+    IDLE_LOCK_MINUTES,
+    IMAGE_SIZES,
+    LOG_CAPACITIES,
+    VIDEO_RATIOS,
+    VOICES,
+    resetPreferences,
+    updatePreferences,
+    usePreferences,
+} from '../services/preferences';
+import { getMeshRelayStatus, getMeshRelayUrl, MeshRelayStatus, setMeshRelayUrl, subscribeMeshStatus } from '../services/mesh';
+import { useOperatorProfile } from '../services/operatorProfile';
+import { clearLogs } from '../services/logStore';
+import { clearPasscode, PASSCODE_MIN_LENGTH, setPasscode, useSessionLock, verifyPasscode } from '../services/sessionLock';
+
+interface SettingsPanelProps {
+    addLog: (source: string, message: string, type?: LogEntry['type']) => void;
+    onEditProfile: () => void;
+}
+
+const Group: React.FC<{ title: string; icon: LucideIcon; children?: React.ReactNode }> = ({ title, icon: Icon, children }) => (
+    <div className="bg-ops-900 border border-ops-800 p-4">
+        <div className="text-[10px] font-bold text-ops-400 tracking-widest mb-3 flex items-center gap-2">
+            <Icon size={12} /> {title}
+        </div>
+        <div className="space-y-3">{children}</div>
+    </div>
+);
+
+const Row: React.FC<{ label: string; children?: React.ReactNode }> = ({ label, children }) => (
+    <label className="flex items-center justify-between gap-4 text-[11px] text-ops-text-dim">
+        <span>{label}</span>
+        {children}
+    </label>
+);
+
+const Select: React.FC<{ value: string; options: string[]; onChange: (value: string) => void }> = ({ value, options, onChange }) => (
+    <select
+        value={value}
+        onChange={e => onChange(e.target.value)}
+        className="w-32 bg-ops-950 border border-ops-800 text-ops-text-main text-xs p-1.5 focus:outline-none focus:border-ops-accent"
+    >
+        {options.map(option => <option key={option} value={option}>{option}</option>)}
+    </select>
+);
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ addLog, onEditProfile }) => {
+    const preferences = usePreferences();
+    const profile = useOperatorProfile();
+    const [relayInput, setRelayInput] = useState(getMeshRelayUrl() || '');
+    const [relayStatus, setRelayStatus] = useState<MeshRelayStatus>(getMeshRelayStatus());
+
+    const lock = useSessionLock();
+    const [currentPasscode, setCurrentPasscode] = useState('');
+    const [newPasscode, setNewPasscode] = useState('');
+
+    useEffect(() => subscribeMeshStatus((status) => setRelayStatus(status)), []);
+
+    const handleApplyRelay = () => {
+        const url = relayInput.trim();
+        if (url && !/^wss?:\/\//i.test(url)) {
+            addLog('NET', 'Relay address must start with ws:// or wss://', 'error');
+            return;
+        }
+        setMeshRelayUrl(url || null);
+        addLog('NET', url ? `Mesh relay set to ${url}` : 'Mesh relay disabled. Local channel only.', 'info');
+    };
+
+    const handleClearLogs = async () => {
+        await clearLogs();
+        addLog('SYS', 'Log history cleared.', 'warning');
+    };
+
+    // Changing or clearing an existing passcode needs the current one
+    const confirmCurrentPasscode = async () => {
+        if (!lock.hasPasscode) return true;
+        const result = await verifyPasscode(currentPasscode);
+        if (!result.ok) addLog('SYS', result.message || 'Passcode rejected.', 'error');
+        return result.ok;
+    };
+
+    const handleSetPasscode = async () => {
+        if (!(await confirmCurrentPasscode())) return;
+        try {
+            await setPasscode(newPasscode);
+            addLog('SYS', lock.hasPasscode ? 'Lock passcode changed.' : 'Lock passcode set. Session locking enabled.', 'success');
+            setCurrentPasscode('');
+            setNewPasscode('');
+        } catch (err: any) {
+            addLog('SYS', err.message, 'error');
+        }
+    };
+
+    const handleClearPasscode = async () => {
+        if (!(await confirmCurrentPasscode())) return;
+        clearPasscode();
+        setCurrentPasscode('');
+        addLog('SYS', 'Lock passcode removed. Session locking disabled.', 'warning');
+    };
+
+    const handleReset = () => {
+        resetPreferences();
+        addLog('SYS', 'Preferences restored to defaults.', 'warning');
+    };
+
+    return (
+        <div className="flex flex-col h-full bg-ops-900/30 font-mono">
+            {/* Header */}
+            <div className="flex items-center justify-between p-4 border-b border-ops-800 bg-ops-900/80 backdrop-blur">
+                <h2 className="text-xl font-bold text-ops-text-main tracking-widest flex items-center gap-2">
+                    <Settings size={20} className="text-ops-accent" />
+                    SYS<span className="text-ops-accent">_SETTINGS</span>
+                </h2>
+                <button onClick={handleReset} className="flex items-center gap-1 px-3 py-1 text-[10px] border border-ops-800 text-ops-text-dim hover:text-white">
+                    <RotateCcw size={10} /> RESET PREFERENCES
+                </button>
+            </div>
+
+            <div className="flex-1 p-6 overflow-y-auto space-y-6">
+                <div className="grid grid-cols-3 gap-4">
+                    <Group title="INTERFACE" icon={Monitor}>
+                        <Row label="THEME">
+                            <Select value={preferences.interface.theme} options={['dark', 'light']} onChange={(theme) => updatePreferences('interface', { theme: theme as 'dark' | 'light' })} />
+                        </Row>
+                        <Row label="SIDEBAR EXPANDED">
+                            <input
+                                type="checkbox"
+                                checked={preferences.interface.sidebarOpen}
+                                onChange={e => updatePreferences('interface', { sidebarOpen: e.target.checked })}
+                                className="accent-ops-accent"
+                            />
+                        </Row>
+                    </Group>
+
+                    <Group title="OPERATOR" icon={UserCog}>
+                        <Row label="CALLSIGN">
+                            <span style={{ color: profile.color }}>{profile.callsign}</span>
+                        </Row>
+                        <Row label="DEFAULT INTEL MODE">
+                            <span className="text-ops-text-main uppercase">{profile.defaultMode.replace('_', ' ')}</span>
+                        </Row>
+                        <button onClick={onEditProfile} className="w-full py-1.5 text-[10px] tracking-widest border border-ops-800 text-ops-text-dim hover:text-white hover:border-ops-accent">
+                            EDIT PROFILE
+                        </button>
+                    </Group>
+
+                    <Group title="MESH NETWORK" icon={Network}>
+                        <Row label="RELAY STATUS">
+                            <span className={relayStatus === 'CONNECTED' ? 'text-green-400' : relayStatus === 'DISCONNECTED' ? 'text-ops-warn' : 'text-ops-text-main'}>{relayStatus}</span>
+                        </Row>
+                        <input
+                            value={relayInput}
+                            onChange={e => setRelayInput(e.target.value)}
+                            placeholder="ws://relay-host:8787 (blank = local only)"
+                            className="w-full bg-ops-950 border border-ops-800 text-ops-text-main text-xs p-1.5 focus:outline-none focus:border-ops-accent"
+                        />
+                        <button onClick={handleApplyRelay} className="w-full py-1.5 text-[10px] tracking-widest border border-ops-800 text-ops-text-dim hover:text-white hover:border-ops-accent">
+                            APPLY RELAY
+                        </button>
+                    </Group>
+
+                    <Group title="VISUAL_OPS DEFAULTS" icon={Image}>
+                        <Row label="ASPECT RATIO">
+                            <Select value={preferences.visualOps.aspectRatio} options={ASPECT_RATIOS} onChange={(aspectRatio) => updatePreferences('visualOps', { aspectRatio })} />
+                        </Row>
+                        <Row label="IMAGE SIZE">
+                            <Select value={preferences.visualOps.imageSize} options={IMAGE_SIZES} onChange={(imageSize) => updatePreferences('visualOps', { imageSize })} />
+                        </Row>
+                    </Group>
+
+                    <Group title="MEDIA_LAB DEFAULTS" icon={Film}>
+                        <Row label="VIDEO RATIO">
+                            <Select value={preferences.mediaLab.videoRatio} options={VIDEO_RATIOS} onChange={(videoRatio) => updatePreferences('mediaLab', { videoRatio })} />
+                        </Row>
+                        <Row label="TTS VOICE">
+                            <Select value={preferences.mediaLab.ttsVoice} options={VOICES} onChange={(ttsVoice) => updatePreferences('mediaLab', { ttsVoice })} />
+                        </Row>
+                    </Group>
+
+                    <Group title="SECURE_LINK DEFAULTS" icon={Radio}>
+                        <Row label="LIVE VOICE">
+                            <Select value={preferences.liveComms.voice} options={VOICES} onChange={(voice) => updatePreferences('liveComms', { voice })} />
+                        </Row>
+                        <p className="text-[9px] text-ops-text-dim">Applies from the next uplink.</p>
+                    </Group>
+
+                    <Group title="LOG HISTORY" icon={ScrollText}>
+                        <Row label="ENTRIES KEPT">
+                            <Select
+                                value={String(preferences.logs.capacity)}
+                                options={LOG_CAPACITIES.map(String)}
+                                onChange={(capacity) => updatePreferences('logs', { capacity: Number(capacity) })}
+                            />
+                        </Row>
+                        <Row label="SHARE OVER MESH">
+                            <input
+                                type="checkbox"
+                                checked={preferences.logs.shareOverMesh}
+                                onChange={e => updatePreferences('logs', { shareOverMesh: e.target.checked })}
+                                className="accent-ops-accent"
+                            />
+                        </Row>
+                        <button onClick={handleClearLogs} className="w-full py-1.5 text-[10px] tracking-widest border border-ops-800 text-ops-text-dim hover:text-ops-alert hover:border-ops-alert">
+                            CLEAR HISTORY
+                        </button>
+                        <p className="text-[9px] text-ops-text-dim">Stored in this browser; oldest entries are dropped first. Sharing merges every operator's entries into one log.</p>
+                    </Group>
+
+                    <Group title="SECURITY" icon={KeyRound}>
+                        <Row label="PASSCODE">
+                            <span className={lock.hasPasscode ? 'text-green-400' : 'text-ops-warn'}>{lock.hasPasscode ? 'SET' : 'NOT SET'}</span>
+                        </Row>
+                        {lock.hasPasscode && (
+                            <input
+                                type="password"
+                                value={currentPasscode}
+                                onChange={e => setCurrentPasscode(e.target.value)}
+                                placeholder="Current passcode"
+                                className="w-full bg-ops-950 border border-ops-800 text-ops-text-main text-xs p-1.5 focus:outline-none focus:border-ops-accent"
+                            />
+                        )}
+                        <input
+                            type="password"
+                            value={newPasscode}
+                            onChange={e => setNewPasscode(e.target.value)}
+                            placeholder={`New passcode (min ${PASSCODE_MIN_LENGTH})`}
+                            className="w-full bg-ops-950 border border-ops-800 text-ops-text-main text-xs p-1.5 focus:outline-none focus:border-ops-accent"
+                        />
+                        <div className="flex gap-2">
+                            <button onClick={handleSetPasscode} disabled={!newPasscode} className="flex-1 py-1.5 text-[10px] tracking-widest border border-ops-800 text-ops-text-dim hover:text-white hover:border-ops-accent disabled:opacity-40">
+                                {lock.hasPasscode ? 'CHANGE' : 'SET PASSCODE'}
+                            </button>
+                            {lock.hasPasscode && (
+                                <button onClick={handleClearPasscode} className="flex-1 py-1.5 text-[10px] tracking-widest border border-ops-800 text-ops-text-dim hover:text-ops-alert hover:border-ops-alert">
+                                    REMOVE
+                                </button>
+                            )}
+                        </div>
+                        <Row label="IDLE LOCK">
+                            <Select
+                                value={preferences.security.idleLockMinutes ? `${preferences.security.idleLockMinutes} MIN` : 'OFF'}
+                                options={IDLE_LOCK_MINUTES.map(minutes => minutes ? `${minutes} MIN` : 'OFF')}
+                                onChange={(value) => updatePreferences('security', { idleLockMinutes: parseInt(value, 10) || 0 })}
+                            />
+                        </Row>
+                        <p className="text-[9px] text-ops-text-dim">Only a salted hash of the passcode is kept in this browser. Idle lock needs a passcode.</p>
+                    </Group>
+                </div>
+
+                <div className="h-[520px] bg-ops-900 border border-ops-800">
+                    <ModelRegistryEditor addLog={addLog} />
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default SettingsPanel;
@@ -0,0 +1,255 @@
+import React, { useEffect, useState } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { Receipt, Download, Trash2, AlertTriangle, ShieldOff } from 'lucide-react';
+import { BudgetPeriod, LogEntry, UsageRecord } from '../types';
+import {
+    clearUsageRecords,
+    getPeriodStart,
+    saveUsageBudget,
+    usageToCsv,
+    useUsageBudget,
+    useUsageRecords,
+} from '../services/usage';
+
+interface UsageDashboardProps {
+    addLog: (source: string, message: string, type?: LogEntry['type']) => void;
+}
+
+type UsageRange = 'today' | '7d' | '30d' | 'all';
+
+const RANGE_DAYS: Record<UsageRange, number | null> = { today: 0, '7d': 7, '30d': 30, all: null };
+
+const formatCost = (cost: number) => `$${cost < 10 ? cost.toFixed(3) : cost.toFixed(2)}`;
+const formatCount = (value: number) => value.toLocaleString();
+
+const localDay = (timestamp: number) => {
+    const date = new Date(timestamp);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+interface UsageGroup {
+    key: string;
+    calls: number;
+    tokens: number;
+    cost: number;
+}
+
+const groupBy = (rows: UsageRecord[], pick: (row: UsageRecord) => string): UsageGroup[] => {
+    const groups = new Map<string, UsageGroup>();
+    rows.forEach(row => {
+        const key = pick(row);
+        const group = groups.get(key) || { key, calls: 0, tokens: 0, cost: 0 };
+        group.calls++;
+        group.tokens += row.totalTokens;
+        group.cost += row.cost;
+        groups.set(key, group);
+    });
+    return [...groups.values()].sort((a, b) => b.cost - a.cost);
+};
+
+const parseLimit = (value: string): number | null => {
+    const amount = parseFloat(value);
+    return Number.isFinite(amount) && amount > 0 ? amount : null;
+};
+
+const BreakdownTable: React.FC<{ title: string; groups: UsageGroup[] }> = ({ title, groups }) => (
+    <div className="bg-ops-900 border border-ops-800 p-4">
+        <div className="text-[10px] font-bold text-ops-400 tracking-widest mb-2">{title}</div>
+        <table className="w-full text-[11px]">
+            <thead>
+                <tr className="text-ops-text-dim text-left">
+                    <th className="font-normal py-1">KEY</th>
+                    <th className="font-normal text-right">CALLS</th>
+                    <th className="font-normal text-right">TOKENS</th>
+                    <th className="font-normal text-right">COST</th>
+                </tr>
+            </thead>
+            <tbody>
+                {groups.map(group => (
+                    <tr key={group.key} className="border-t border-ops-800/50">
+                        <td className="py-1 text-ops-text-main truncate max-w-[120px]">{group.key}</td>
+                        <td className="text-right text-ops-text-dim">{group.calls}</td>
+                        <td className="text-right text-ops-text-dim">{formatCount(group.tokens)}</td>
+                        <td className="text-right text-ops-accent">{formatCost(group.cost)}</td>
+                    </tr>
+                ))}
+                {groups.length === 0 && (
+                    <tr><td colSpan={4} className="py-2 text-ops-text-dim italic">No usage recorded.</td></tr>
+                )}
+            </tbody>
+        </table>
+    </div>
+);
+
+const UsageDashboard: React.FC<UsageDashboardProps> = ({ addLog }) => {
+    const records = useUsageRecords();
+    const budget = useUsageBudget();
+    const [range, setRange] = useState<UsageRange>('today');
+    const [softInput, setSoftInput] = useState(budget.softLimit?.toString() || '');
+    const [hardInput, setHardInput] = useState(budget.hardLimit?.toString() || '');
+
+    useEffect(() => {
+        setSoftInput(budget.softLimit?.toString() || '');
+        setHardInput(budget.hardLimit?.toString() || '');
+    }, [budget]);
+
+    const days = RANGE_DAYS[range];
+    const rangeStart = days === null ? 0 : getPeriodStart('day') - days * 86400000;
+    const rows: UsageRecord[] = records.filter(record => record.timestamp >= rangeStart);
+
+    const totals = rows.reduce((sum, row) => ({
+        cost: sum.cost + row.cost,
+        tokens: sum.tokens + row.totalTokens,
+        thinking: sum.thinking + row.thinkingTokens,
+        images: sum.images + row.images,
+        videos: sum.videos + row.videos,
+        liveSeconds: sum.liveSeconds + row.liveSeconds,
+    }), { cost: 0, tokens: 0, thinking: 0, images: 0, videos: 0, liveSeconds: 0 });
+
+    const periodStart = getPeriodStart(budget.period);
+    const periodSpend = records.reduce((sum, record) => (record.timestamp >= periodStart ? sum + record.cost : sum), 0);
+    const budgetCeiling = budget.hardLimit ?? budget.softLimit;
+
+    // Daily cost series, oldest first
+    const daily = groupBy(rows, row => localDay(row.timestamp))
+        .sort((a, b) => a.key.localeCompare(b.key))
+        .map(group => ({ label: group.key.slice(5), value: Number(group.cost.toFixed(4)) }));
+
+    const handleSaveBudget = () => {
+        const softLimit = parseLimit(softInput);
+        const hardLimit = parseLimit(hardInput);
+        saveUsageBudget({ period: budget.period, softLimit, hardLimit });
+        addLog('USAGE', `Budget updated: soft ${softLimit !== null ? formatCost(softLimit) : 'off'}, hard ${hardLimit !== null ? formatCost(hardLimit) : 'off'} per ${budget.period}.`, 'info');
+    };
+
+    const handleExport = () => {
+        const blob = new Blob([usageToCsv(rows)], { type: 'text/csv' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `meli_usage_${new Date().toISOString().slice(0, 10)}.csv`;
+        link.click();
+        URL.revokeObjectURL(url);
+        addLog('USAGE', `Exported ${rows.length} usage records.`, 'success');
+    };
+
+    const handleClear = () => {
+        if (!window.confirm('Delete all locally stored usage records?')) return;
+        clearUsageRecords();
+        addLog('USAGE', 'Usage ledger cleared.', 'warning');
+    };
+
+    const stats = [
+        { label: 'EST. COST', value: formatCost(totals.cost) },
+        { label: 'CALLS', value: formatCount(rows.length) },
+        { label: 'TOKENS', value: formatCount(totals.tokens) },
+        { label: 'THINKING', value: formatCount(totals.thinking) },
+        { label: 'IMAGES', value: formatCount(totals.images) },
+        { label: 'VIDEOS', value: formatCount(totals.videos) },
+        { label: 'LIVE MIN', value: (totals.liveSeconds / 60).toFixed(1) },
+    ];
+
+    return (
+        <div className="flex flex-col h-full bg-ops-900/30 font-mono">
+            {/* Header */}
+            <div className="flex items-center justify-between p-4 border-b border-ops-800 bg-ops-900/80 backdrop-blur">
+                <h2 className="text-xl font-bold text-ops-text-main tracking-widest flex items-center gap-2">
+                    <Receipt size={20} className="text-ops-accent" />
+                    USAGE<span className="text-ops-accent">_LEDGER</span>
+                </h2>
+                <div className="flex gap-2 items-center">
+                    {(Object.keys(RANGE_DAYS) as UsageRange[]).map(option => (
+                        <button
+                            key={option}
+                            onClick={() => setRange(option)}
+                            className={`px-3 py-1 text-[10px] font-bold tracking-widest uppercase border ${range === option ? 'bg-ops-accent text-black border-ops-accent' : 'border-ops-800 text-ops-text-dim hover:border-ops-accent'}`}
+                        >
+                            {option}
+                        </button>
+                    ))}
+                    <button onClick={handleExport} disabled={rows.length === 0} className="flex items-center gap-1 px-3 py-1 text-[10px] border border-ops-800 text-ops-text-dim hover:text-white disabled:opacity-40">
+                        <Download size={10} /> CSV
+                    </button>
+                    <button onClick={handleClear} title="Clear ledger" className="px-2 py-1 text-ops-text-dim hover:text-ops-alert">
+                        <Trash2 size={12} />
+                    </button>
+                </div>
+            </div>
+
+            <div className="flex-1 p-6 overflow-y-auto space-y-6">
+                {/* Totals */}
+                <div className="grid grid-cols-7 gap-2">
+                    {stats.map(stat => (
+                        <div key={stat.label} className="bg-ops-900 border border-ops-800 p-3">
+                            <div className="text-[9px] text-ops-text-dim tracking-widest">{stat.label}</div>
+                            <div className="text-lg text-white">{stat.value}</div>
+                        </div>
+                    ))}
+                </div>
+
+                <div className="grid grid-cols-3 gap-4">
+                    {/* Budget */}
+                    <div className="bg-ops-900 border border-ops-800 p-4 space-y-3">
+                        <div className="text-[10px] font-bold text-ops-400 tracking-widest flex items-center justify-between">
+                            <span>BUDGET</span>
+                            <select
+                                value={budget.period}
+                                onChange={e => saveUsageBudget({ ...budget, period: e.target.value as BudgetPeriod })}
+                                className="bg-ops-950 border border-ops-800 text-ops-text-main text-[10px] p-1"
+                            >
+                                <option value="day">PER DAY</option>
+                                <option value="month">PER MONTH</option>
+                            </select>
+                        </div>
+                        <div className="text-2xl text-white">{formatCost(periodSpend)}</div>
+                        {budgetCeiling !== null && (
+                            <div className="w-full bg-ops-800 h-1">
+                                <div
+                                    className={`h-full ${budget.hardLimit !== null && periodSpend >= budget.hardLimit ? 'bg-ops-alert' : budget.softLimit !== null && periodSpend >= budget.softLimit ? 'bg-ops-warn' : 'bg-ops-accent'}`}
+                                    style={{ width: `${Math.min(100, (periodSpend / budgetCeiling) * 100)}%` }}
+                                ></div>
+                            </div>
+                        )}
+                        <label className="flex items-center gap-2 text-[10px] text-ops-warn">
+                            <AlertTriangle size={10} /> SOFT (WARN)
+                            <input value={softInput} onChange={e => setSoftInput(e.target.value)} placeholder="off" className="ml-auto w-20 bg-ops-950 border border-ops-800 text-ops-text-main p-1 text-right" />
+                        </label>
+                        <label className="flex items-center gap-2 text-[10px] text-ops-alert">
+                            <ShieldOff size={10} /> HARD (BLOCK)
+                            <input value={hardInput} onChange={e => setHardInput(e.target.value)} placeholder="off" className="ml-auto w-20 bg-ops-950 border border-ops-800 text-ops-text-main p-1 text-right" />
+                        </label>
+                        <button onClick={handleSaveBudget} className="w-full py-1.5 text-[10px] tracking-widest bg-ops-accent text-black font-bold">
+                            APPLY LIMITS (USD)
+                        </button>
+                    </div>
+
+                    {/* Daily cost */}
+                    <div className="col-span-2 bg-ops-900 border border-ops-800 p-4 h-64">
+                        <div className="text-[10px] font-bold text-ops-400 tracking-widest mb-2">DAILY EST. COST (USD)</div>
+                        <ResponsiveContainer width="100%" height="90%">
+                            <BarChart data={daily} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+                                <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
+                                <XAxis dataKey="label" stroke="#94a3b8" fontSize={10} tick={{fill: '#94a3b8'}} />
+                                <YAxis stroke="#94a3b8" fontSize={10} tick={{fill: '#94a3b8'}} />
+                                <Tooltip contentStyle={{ background: '#0a0a0a', border: '1px solid #262626', fontSize: 11 }} />
+                                <Bar dataKey="value" fill="#06b6d4" name="Est. Cost" radius={[2, 2, 0, 0]} />
+                            </BarChart>
+                        </ResponsiveContainer>
+                    </div>
+                </div>
+
+                <div className="grid grid-cols-3 gap-4">
+                    <BreakdownTable title="BY MODULE" groups={groupBy(rows, row => row.module)} />
+                    <BreakdownTable title="BY MODE" groups={groupBy(rows, row => `${row.module}/${row.mode}`)} />
+                    <BreakdownTable title="BY OPERATOR" groups={groupBy(rows, row => row.operator)} />
+                </div>
+
+                <p className="text-[10px] text-ops-text-dim">
+                    Costs are estimates from list prices and reported token counts; consult billing for authoritative figures.
+                </p>
+            </div>
+        </div>
+    );
+};
+
+export default UsageDashboard;
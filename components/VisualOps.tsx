@@ -1,13 +1,23 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { GoogleGenAI } from "@google/genai";
-import { LogEntry } from '../types';
+import React, { useEffect, useState } from 'react';
+import { LogDetails, LogEntry, ModuleView } from '../types';
 import { Image, Upload, Wand2, ScanEye, Download, RefreshCw, Key, Shield, Radio, Globe } from 'lucide-react';
-import { fileToGenerativePart } from '../services/geminiUtils';
+import { fileToGenerativePart } from '../services/codec';
+import { GeminiError, getGeminiClient, handleGeminiError } from '../services/geminiClient';
+import { useMesh } from '../services/mesh';
+import { createCorrelationId } from '../services/correlation';
+import { enqueueJob, JobCancelledError, useJobs } from '../services/jobManager';
+import { buildGenerationConfig, getModeSettings, RegistryMode } from '../services/modelRegistry';
+import { usePreferences } from '../services/preferences';
+import { recordRender } from '../services/recentRenders';
+import { subscribeShutdown } from '../services/shutdown';
+import { useDeepLink } from '../services/router';
 
 interface VisualOpsProps {
-    addLog: (source: string, message: string, type?: LogEntry['type']) => void;
+    addLog: (source: string, message: string, type?: LogEntry['type'], details?: LogDetails) => void;
 }
 
+type VisualResult = { kind: 'image'; url: string } | { kind: 'analysis'; text: string };
+
 const VisualOps: React.FC<VisualOpsProps> = ({ addLog }) => {
     const [subMode, setSubMode] = useState<'generate' | 'analyze' | 'edit'>('generate');
     const [prompt, setPrompt] = useState('');
@@ -15,53 +25,73 @@ const VisualOps: React.FC<VisualOpsProps> = ({ addLog }) => {
     const [imagePreview, setImagePreview] = useState<string | null>(null);
     const [resultImage, setResultImage] = useState<string | null>(null);
     const [analysisResult, setAnalysisResult] = useState<string>('');
-    const [loading, setLoading] = useState(false);
+    const activeJobs = useJobs().filter(job => job.view === ModuleView.VISUAL_OPS && (job.status === 'queued' || job.status === 'running'));
+    const loading = activeJobs.length > 0;
     
-    // Configs
-    const [aspectRatio, setAspectRatio] = useState('1:1');
-    const [imageSize, setImageSize] = useState('1K');
-    const channelRef = useRef<BroadcastChannel | null>(null);
+    // Configs (defaults from SETTINGS)
+    const defaults = usePreferences().visualOps;
+    const [aspectRatio, setAspectRatio] = useState(defaults.aspectRatio);
+    const [imageSize, setImageSize] = useState(defaults.imageSize);
+
+    useEffect(() => subscribeShutdown(({ wipe }) => {
+        if (!wipe) return;
+        setPrompt('');
+        setImageFile(null);
+        setImagePreview(null);
+        setResultImage(null);
+        setAnalysisResult('');
+    }), []);
 
-    // Sync Listener
     useEffect(() => {
-        const channel = new BroadcastChannel('meli_mesh_network');
-        channelRef.current = channel;
-        
-        channel.onmessage = (event) => {
-            const { type, payload } = event.data;
-            if (type === 'SYSTEM_COMMAND' && payload.target === 'VISUAL_OPS') {
-                addLog('VISUAL', `Remote command received: ${payload.action || 'generate'}`, 'warning');
-                
-                // Sync State
-                if (payload.action) setSubMode(payload.action);
-                if (payload.prompt) setPrompt(payload.prompt);
-
-                // Immediate Execution
-                if (payload.prompt) {
-                    // Force loading state immediately for UX feedback during view switch
-                    setLoading(true);
-                    triggerAction(payload.prompt, payload.action || 'generate');
-                }
-            }
-        };
+        setAspectRatio(defaults.aspectRatio);
+        setImageSize(defaults.imageSize);
+    }, [defaults.aspectRatio, defaults.imageSize]);
+
+    useEffect(() => () => {
+        if (imagePreview) URL.revokeObjectURL(imagePreview);
+    }, [imagePreview]);
+
+    // Sync Listener
+    useMesh((message) => {
+        if (message.type !== 'SYSTEM_COMMAND' || message.payload.target !== 'VISUAL_OPS') return;
+        const payload = message.payload;
+        addLog('VISUAL', `Remote command received: ${payload.action || 'generate'}`, 'warning', { correlationId: message.correlationId, data: { ...payload } });
+
+        // Sync State
+        if (payload.action) setSubMode(payload.action);
+        if (payload.prompt) setPrompt(payload.prompt);
 
-        return () => channel.close();
-    }, []);
+        // Immediate Execution
+        if (payload.prompt) {
+            triggerAction(payload.prompt, payload.action || 'generate', message.correlationId);
+        }
+    });
+
+    // Deep link: #/visual-ops?subMode=generate&prompt=...&run=1
+    useDeepLink(ModuleView.VISUAL_OPS, ({ subMode: linkMode, prompt: linkPrompt }, autoRun) => {
+        const action = linkMode === 'generate' || linkMode === 'analyze' || linkMode === 'edit' ? linkMode : subMode;
+        setSubMode(action);
+        if (linkPrompt) setPrompt(linkPrompt);
+        if (autoRun && linkPrompt) {
+            const cid = createCorrelationId('link');
+            addLog('VISUAL', `Deep link ${action} received.`, 'info', { correlationId: cid, data: { action, prompt: linkPrompt } });
+            triggerAction(linkPrompt, action, cid);
+        }
+    });
 
     const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
         if (file) {
             setImageFile(file);
-            const reader = new FileReader();
-            reader.onload = (e) => setImagePreview(e.target?.result as string);
-            reader.readAsDataURL(file);
+            // An object URL shows the file without base64-encoding it on the UI thread
+            setImagePreview(URL.createObjectURL(file));
             setResultImage(null);
             setAnalysisResult('');
         }
     };
 
-    const triggerAction = async (currentPrompt: string, currentMode: string) => {
-         await handleAction(currentPrompt, currentMode);
+    const triggerAction = (currentPrompt: string, currentMode: string, correlationId?: string) => {
+         handleAction(currentPrompt, currentMode, correlationId);
     };
 
     const getActiveImagePart = async () => {
@@ -84,113 +114,117 @@ const VisualOps: React.FC<VisualOpsProps> = ({ addLog }) => {
         return null;
     };
 
-    const handleAction = async (overridePrompt?: string, overrideMode?: string) => {
+    const handleAction = (overridePrompt?: string, overrideMode?: string, correlationId?: string) => {
         const activePrompt = overridePrompt || prompt;
         const activeMode = overrideMode || subMode;
 
-        if (!activePrompt && activeMode === 'generate') {
-             setLoading(false);
-             return;
-        }
-        
-        setLoading(true);
-        addLog('VISUAL', `Starting ${activeMode.toUpperCase()} sequence...`, 'info');
-
-        try {
-            const win = window as any;
-            if (win.aistudio && await win.aistudio.hasSelectedApiKey() === false) {
-                 addLog('VISUAL', 'Security Clearance required', 'warning');
-                 await win.aistudio.openSelectKey();
-            }
+        if (!activePrompt && activeMode === 'generate') return;
+        // Capture the configuration now; it may change while the job is queued
+        const ratio = aspectRatio;
+        const size = imageSize;
+        const cid = correlationId || createCorrelationId('visual');
+        const model = getModeSettings(activeMode as RegistryMode).model;
+        let startedAt = Date.now();
+        const details = (data?: Record<string, unknown>): LogDetails => ({ correlationId: cid, model, durationMs: Date.now() - startedAt, data });
 
-            const apiKey = process.env.API_KEY;
-            if (!apiKey) {
-                 throw new Error("API Key missing. Please select a key.");
-            }
+        enqueueJob<VisualResult>({
+            label: `${activeMode.toUpperCase()}: ${activePrompt.slice(0, 40) || 'default directive'}`,
+            source: 'VISUAL',
+            view: ModuleView.VISUAL_OPS,
+            run: async ({ signal }) => {
+                startedAt = Date.now();
+                addLog('VISUAL', `Starting ${activeMode.toUpperCase()} sequence...`, 'info', { correlationId: cid, model, data: { prompt: activePrompt, aspectRatio: ratio, imageSize: size } });
+                try {
+                    return await runVisualTask(activePrompt, activeMode, ratio, size, cid, signal);
+                } catch (err) {
+                    if (signal.aborted) throw new JobCancelledError();
+                    console.error(err);
+                    throw await handleGeminiError(err, {
+                        onReauthorize: () => addLog('VISUAL', 'Resource access denied. Re-requesting authorization...', 'warning')
+                    });
+                }
+            },
+            onSuccess: (result) => {
+                if (result.kind === 'image') {
+                    setResultImage(result.url);
+                    recordRender({ url: result.url, prompt: activePrompt, mode: activeMode });
+                    addLog('VISUAL', activeMode === 'edit' ? 'Image modification complete.' : 'Visual construct generated successfully.', 'success', details());
+                } else {
+                    setAnalysisResult(result.text);
+                    addLog('VISUAL', 'Forensic analysis complete.', 'success', details({ characters: result.text.length }));
+                }
+            },
+            onError: (error) => addLog('VISUAL', `Operation aborted: ${error.message}`, 'error', details({ kind: error instanceof GeminiError ? error.kind : undefined }))
+        });
+    };
 
-            const ai = new GoogleGenAI({ apiKey });
-
-            if (activeMode === 'generate') {
-                // Enable Google Search Grounding for Image Generation
-                const response = await ai.models.generateContent({
-                    model: 'gemini-3-pro-image-preview',
-                    contents: { parts: [{ text: activePrompt }] },
-                    config: {
-                        imageConfig: {
-                            aspectRatio: aspectRatio,
-                            imageSize: imageSize,
-                        },
-                        tools: [{ googleSearch: {} }] // Allows model to fetch data to inform the image
+    const runVisualTask = async (activePrompt: string, activeMode: string, ratio: string, size: string, correlationId: string, signal: AbortSignal): Promise<VisualResult> => {
+        const ai = await getGeminiClient({
+            onKeyRequest: () => addLog('VISUAL', 'Security Clearance required', 'warning', { correlationId }),
+            usage: { module: ModuleView.VISUAL_OPS, mode: activeMode },
+            correlationId,
+            signal
+        });
+        const settings = getModeSettings(activeMode as RegistryMode);
+        const generationConfig = buildGenerationConfig(settings);
+
+        if (activeMode === 'generate') {
+            // Enable Google Search Grounding for Image Generation
+            const response = await ai.models.generateContent({
+                model: settings.model,
+                contents: { parts: [{ text: activePrompt }] },
+                config: {
+                    ...generationConfig,
+                    imageConfig: {
+                        aspectRatio: ratio,
+                        imageSize: size,
                     },
-                });
-
-                let found = false;
-                for (const part of response.candidates?.[0]?.content?.parts || []) {
-                    if (part.inlineData) {
-                         const base64EncodeString: string = part.inlineData.data;
-                         const imageUrl = `data:image/png;base64,${base64EncodeString}`;
-                         setResultImage(imageUrl);
-                         found = true;
-                         addLog('VISUAL', 'Visual construct generated successfully.', 'success');
-                         break;
-                    }
-                }
-                if (!found) throw new Error("No visual data returned. The model might have refused the request.");
-
-            } else if (activeMode === 'analyze') {
-                const imagePart = await getActiveImagePart();
-                if (!imagePart) throw new Error("Target Media Missing for Analysis. Upload media or generate a visual first.");
-                
-                const response = await ai.models.generateContent({
-                    model: 'gemini-3-pro-preview',
-                    contents: {
-                        parts: [
-                            imagePart, 
-                            { text: activePrompt || "Perform forensic image analysis. Identify location, time of day, identifiable individuals, text, and potential security anomalies." }
-                        ]
-                    }
-                });
-                
-                setAnalysisResult(response.text || "Analysis algorithms yielded no text output.");
-                addLog('VISUAL', 'Forensic analysis complete.', 'success');
-
-            } else if (activeMode === 'edit') {
-                 const imagePart = await getActiveImagePart();
-                 if (!imagePart) throw new Error("Target Media Missing for Edit. Upload media or generate a visual first.");
-                 
-                 const response = await ai.models.generateContent({
-                    model: 'gemini-2.5-flash-image',
-                    contents: {
-                        parts: [imagePart, { text: activePrompt || "Enhance visual clarity and remove obstructions." }]
-                    }
-                });
-
-                let found = false;
-                for (const part of response.candidates?.[0]?.content?.parts || []) {
-                    if (part.inlineData) {
-                         const base64EncodeString: string = part.inlineData.data;
-                         const imageUrl = `data:image/png;base64,${base64EncodeString}`;
-                         setResultImage(imageUrl);
-                         found = true;
-                         addLog('VISUAL', 'Image modification complete.', 'success');
-                         break;
-                    }
+                    tools: [{ googleSearch: {} }] // Allows model to fetch data to inform the image
+                },
+            });
+
+            for (const part of response.candidates?.[0]?.content?.parts || []) {
+                if (part.inlineData) {
+                    return { kind: 'image', url: `data:image/png;base64,${part.inlineData.data}` };
                 }
-                if (!found) throw new Error("Modification failed. Model returned no image data.");
             }
+            throw new Error("No visual data returned. The model might have refused the request.");
 
-        } catch (err: any) {
-            console.error(err);
-            if (err.message && err.message.includes("Requested entity was not found")) {
-                 const win = window as any;
-                 if (win.aistudio) {
-                     addLog('VISUAL', 'Resource access denied. Re-requesting authorization...', 'warning');
-                     await win.aistudio.openSelectKey();
-                 }
+        } else if (activeMode === 'analyze') {
+            const imagePart = await getActiveImagePart();
+            if (!imagePart) throw new Error("Target Media Missing for Analysis. Upload media or generate a visual first.");
+
+            const response = await ai.models.generateContent({
+                model: settings.model,
+                contents: {
+                    parts: [
+                        imagePart,
+                        { text: activePrompt || "Perform forensic image analysis. Identify location, time of day, identifiable individuals, text, and potential security anomalies." }
+                    ]
+                },
+                config: generationConfig
+            });
+
+            return { kind: 'analysis', text: response.text || "Analysis algorithms yielded no text output." };
+
+        } else {
+            const imagePart = await getActiveImagePart();
+            if (!imagePart) throw new Error("Target Media Missing for Edit. Upload media or generate a visual first.");
+
+            const response = await ai.models.generateContent({
+                model: settings.model,
+                contents: {
+                    parts: [imagePart, { text: activePrompt || "Enhance visual clarity and remove obstructions." }]
+                },
+                config: generationConfig
+            });
+
+            for (const part of response.candidates?.[0]?.content?.parts || []) {
+                if (part.inlineData) {
+                    return { kind: 'image', url: `data:image/png;base64,${part.inlineData.data}` };
+                }
             }
-            addLog('VISUAL', `Operation aborted: ${err.message}`, 'error');
-        } finally {
-            setLoading(false);
+            throw new Error("Modification failed. Model returned no image data.");
         }
     };
 
@@ -293,10 +327,9 @@ const VisualOps: React.FC<VisualOpsProps> = ({ addLog }) => {
                          </div>
                         <button
                             onClick={() => handleAction()}
-                            disabled={loading}
-                            className={`mt-4 py-3 font-bold font-mono tracking-widest flex items-center justify-center gap-2 border border-transparent hover:border-white transition-all ${loading ? 'bg-ops-800 text-ops-text-dim' : 'bg-ops-text-main text-ops-950 hover:bg-ops-text-dim'}`}
+                            className={`mt-4 py-3 font-bold font-mono tracking-widest flex items-center justify-center gap-2 border border-transparent hover:border-white transition-all ${loading ? 'bg-ops-800 text-ops-text-dim hover:text-white' : 'bg-ops-text-main text-ops-950 hover:bg-ops-text-dim'}`}
                         >
-                           {loading ? <RefreshCw className="animate-spin" /> : 'EXECUTE PROTOCOL'}
+                           {loading ? <><RefreshCw className="animate-spin" /> QUEUE PROTOCOL ({activeJobs.length} ACTIVE)</> : 'EXECUTE PROTOCOL'}
                         </button>
                     </div>
                 </div>
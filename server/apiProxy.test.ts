@@ -0,0 +1,191 @@
+import http, { IncomingHttpHeaders } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { Duplex } from 'node:stream';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { WebSocket, WebSocketServer } from 'ws';
+import { createApiProxy } from './apiProxy';
+
+const API_KEY = 'server-secret';
+const APP_ORIGIN = 'http://localhost:3000';
+const LIVE_PATH = '/ws/google.ai.generativelanguage.v1beta.GenerativeService.BidiGenerateContent';
+
+interface SeenRequest {
+  method?: string;
+  url?: string;
+  headers: IncomingHttpHeaders;
+}
+
+const listen = (server: http.Server) =>
+  new Promise<string>(resolve => server.listen(0, '127.0.0.1', () => resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`)));
+
+const close = (server: http.Server) =>
+  new Promise<void>(resolve => {
+    server.closeAllConnections();
+    server.close(() => resolve());
+  });
+
+describe('API proxy against a fake upstream', () => {
+  let upstreamSeen: SeenRequest[] = [];
+  let elsewhereSeen: SeenRequest[] = [];
+  let releaseStream: () => void = () => {};
+  let upstream: http.Server;
+  let elsewhere: http.Server; // A different origin that the upstream redirects to
+  let elsewhereUrl: string;
+  const proxies: http.Server[] = [];
+
+  let stallUpgrades = false;
+  const stalledSockets: Duplex[] = [];
+  const echo = new WebSocketServer({ noServer: true });
+
+  const startProxy = async (options: { allowNoOrigin?: boolean; maxPendingLiveBytes?: number } = {}) => {
+    const proxy = createApiProxy({ apiKey: API_KEY, upstream: upstreamUrl, allowedOrigins: [APP_ORIGIN], ...options });
+    proxies.push(proxy);
+    return listen(proxy);
+  };
+  let upstreamUrl: string;
+
+  beforeAll(async () => {
+    elsewhere = http.createServer((request, response) => {
+      elsewhereSeen.push({ method: request.method, url: request.url, headers: request.headers });
+      response.writeHead(200, { 'content-type': 'video/mp4' });
+      response.end('video-bytes');
+    });
+    elsewhereUrl = await listen(elsewhere);
+
+    upstream = http.createServer((request, response) => {
+      upstreamSeen.push({ method: request.method, url: request.url, headers: request.headers });
+      if (request.url?.startsWith('/v1beta/models/test:streamGenerateContent')) {
+        // Holds the second event back until the test has received the first
+        response.writeHead(200, { 'content-type': 'text/event-stream' });
+        response.write('data: {"n":1}\n\n');
+        new Promise<void>(resolve => (releaseStream = resolve)).then(() => response.end('data: {"n":2}\n\n'));
+      } else if (request.url?.startsWith('/download/v1beta/files/clip')) {
+        response.writeHead(302, { location: `${elsewhereUrl}/signed/clip.mp4` });
+        response.end();
+      } else {
+        response.writeHead(200, { 'content-type': 'application/json' });
+        response.end('{"ok":true}');
+      }
+    });
+    // Live handshakes complete late, or never while stalled, so the proxy has to buffer
+    upstream.on('upgrade', (request, socket, head) => {
+      if (stallUpgrades) {
+        stalledSockets.push(socket);
+        return;
+      }
+      setTimeout(() => echo.handleUpgrade(request, socket, head, remote => {
+        remote.on('message', (data, isBinary) => remote.send(data, { binary: isBinary }));
+      }), 50);
+    });
+    upstreamUrl = await listen(upstream);
+  });
+
+  beforeEach(() => {
+    upstreamSeen = [];
+    elsewhereSeen = [];
+    stallUpgrades = false;
+  });
+
+  afterAll(async () => {
+    stalledSockets.forEach(socket => socket.destroy());
+    echo.clients.forEach(client => client.terminate());
+    await Promise.all([...proxies, upstream, elsewhere].map(close));
+  });
+
+  it('injects the server key and strips client credentials', async () => {
+    const proxyUrl = await startProxy();
+    const response = await fetch(`${proxyUrl}/v1beta/models/test:generateContent?key=client-key`, {
+      method: 'POST',
+      headers: { origin: APP_ORIGIN, 'content-type': 'application/json', 'x-goog-api-key': 'client-key', authorization: 'Bearer client-token' },
+      body: '{}',
+    });
+    expect(response.status).toBe(200);
+    expect(response.headers.get('access-control-allow-origin')).toBe(APP_ORIGIN);
+    expect(upstreamSeen).toHaveLength(1);
+    const [seen] = upstreamSeen;
+    expect(seen.headers['x-goog-api-key']).toBe(API_KEY);
+    expect(seen.headers.authorization).toBeUndefined();
+    expect(seen.headers.origin).toBeUndefined();
+    expect(seen.url).not.toContain('client-key');
+  });
+
+  it('rejects origins that are not allowed without calling upstream', async () => {
+    const proxyUrl = await startProxy();
+    const response = await fetch(`${proxyUrl}/v1beta/models/test:generateContent`, { method: 'POST', headers: { origin: 'http://evil.example' }, body: '{}' });
+    expect(response.status).toBe(403);
+    expect(upstreamSeen).toHaveLength(0);
+  });
+
+  it('rejects requests without an Origin unless explicitly allowed', async () => {
+    const strict = await startProxy();
+    expect((await fetch(`${strict}/v1beta/models`)).status).toBe(403);
+    expect(upstreamSeen).toHaveLength(0);
+
+    const open = await startProxy({ allowNoOrigin: true });
+    expect((await fetch(`${open}/v1beta/models`)).status).toBe(200);
+    expect(upstreamSeen).toHaveLength(1);
+  });
+
+  it('rejects paths outside the API surface', async () => {
+    const proxyUrl = await startProxy();
+    expect((await fetch(`${proxyUrl}/admin`, { headers: { origin: APP_ORIGIN } })).status).toBe(404);
+    expect(upstreamSeen).toHaveLength(0);
+  });
+
+  it('streams upstream events through as they arrive', async () => {
+    const proxyUrl = await startProxy();
+    const response = await fetch(`${proxyUrl}/v1beta/models/test:streamGenerateContent?alt=sse`, { method: 'POST', headers: { origin: APP_ORIGIN }, body: '{}' });
+    expect(response.headers.get('content-type')).toBe('text/event-stream');
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+
+    // The upstream has not finished yet, so this only resolves if the proxy does not buffer
+    const first = await reader.read();
+    expect(decoder.decode(first.value)).toBe('data: {"n":1}\n\n');
+
+    releaseStream();
+    let rest = '';
+    for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) rest += decoder.decode(chunk.value);
+    expect(rest).toBe('data: {"n":2}\n\n');
+  });
+
+  it('follows redirects to other origins without the key', async () => {
+    const proxyUrl = await startProxy();
+    const response = await fetch(`${proxyUrl}/download/v1beta/files/clip:download?alt=media`, { headers: { origin: APP_ORIGIN } });
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe('video-bytes');
+    expect(upstreamSeen[0].headers['x-goog-api-key']).toBe(API_KEY);
+    expect(elsewhereSeen).toHaveLength(1);
+    expect(elsewhereSeen[0].headers['x-goog-api-key']).toBeUndefined();
+  });
+
+  const openLive = (proxyUrl: string) =>
+    new Promise<WebSocket>((resolve, reject) => {
+      const socket = new WebSocket(`${proxyUrl.replace('http:', 'ws:')}${LIVE_PATH}`, { headers: { origin: APP_ORIGIN } });
+      socket.once('open', () => resolve(socket));
+      socket.once('error', reject);
+    });
+
+  it('holds Live frames sent before the upstream opens and forwards them in order', async () => {
+    const client = await openLive(await startProxy());
+    const received: string[] = [];
+    const done = new Promise<void>(resolve => client.on('message', data => {
+      received.push(String(data));
+      if (received.length === 2) resolve();
+    }));
+    client.send('setup');
+    client.send('audio');
+    await done;
+    expect(received).toEqual(['setup', 'audio']);
+    client.close();
+  });
+
+  it('closes a Live client that buffers too much while the upstream stalls', async () => {
+    stallUpgrades = true;
+    const client = await openLive(await startProxy({ maxPendingLiveBytes: 1000 }));
+    const closed = new Promise<number>(resolve => client.once('close', code => resolve(code)));
+    client.send(Buffer.alloc(600));
+    client.send(Buffer.alloc(600));
+    expect(await closed).toBe(1013);
+  });
+});
@@ -0,0 +1,285 @@
+/**
+ * M.E.L.I. Gemini API proxy.
+ *
+ * Holds the API key on the server so it never ships to the browser. Clients point the SDK
+ * at this proxy (GEMINI_PROXY_URL) and send no key; requests are forwarded to the upstream
+ * API with the key attached as a header. Covers REST calls (including SSE streaming),
+ * video operations, file downloads and the Live WebSocket.
+ *
+ *   GEMINI_API_KEY=... GEMINI_PROXY_PORT=8788 npm run proxy
+ *
+ * GEMINI_UPSTREAM replaces the API origin, e.g. with a local fake when testing the proxy.
+ * GEMINI_PROXY_ORIGINS lists the browser origins allowed to use it (comma separated).
+ * Requests without an Origin header (scripts, curl) are refused unless
+ * GEMINI_PROXY_ALLOW_NO_ORIGIN=1, since anything that reaches the port could spend the key.
+ */
+import http, { IncomingMessage, ServerResponse } from 'node:http';
+import { Duplex } from 'node:stream';
+import { pathToFileURL } from 'node:url';
+import { WebSocketServer, WebSocket, RawData } from 'ws';
+
+export interface ApiProxyOptions {
+  apiKey: string;
+  upstream: string;         // Origin of the Gemini API, or of a fake standing in for it
+  allowedOrigins: string[]; // Browser origins allowed to call the proxy; '*' allows any
+  allowNoOrigin?: boolean;  // Also serve clients that send no Origin header (non-browser tools)
+  maxBodyBytes?: number;
+  maxPendingLiveBytes?: number; // Client frames held while the upstream Live socket connects
+  log?: (message: string) => void;
+}
+
+export const DEFAULT_UPSTREAM = 'https://generativelanguage.googleapis.com';
+const DEFAULT_MAX_BODY_BYTES = 64 * 1024 * 1024; // Inline images and audio travel as base64
+// About 20s of streamed mic audio: plenty for a normal handshake, bounded for a stalled one
+const DEFAULT_MAX_PENDING_LIVE_BYTES = 1024 * 1024;
+const MAX_REDIRECTS = 5;
+
+// Only the API surface the app uses is forwarded, so the proxy cannot be used as an open relay
+const HTTP_PATH = /^\/(v1|v1beta|v1alpha|download\/v1beta)\//;
+const LIVE_PATH = /^\/ws\/google\.ai\.generativelanguage\.\w+\.GenerativeService\.BidiGenerateContent$/;
+
+// Hop-by-hop and identity headers that must not be passed through in either direction
+const STRIPPED_REQUEST_HEADERS = ['host', 'connection', 'content-length', 'accept-encoding', 'origin', 'referer', 'cookie', 'x-goog-api-key', 'authorization'];
+const STRIPPED_RESPONSE_HEADERS = ['connection', 'content-length', 'content-encoding', 'transfer-encoding', 'set-cookie'];
+
+class PayloadTooLargeError extends Error {}
+
+// The SDK builds URLs like `ws://host:port//ws/...`, so repeated slashes are collapsed first
+const parseRequestUrl = (rawUrl: string | undefined) => {
+  const url = new URL((rawUrl || '/').replace(/^\/+/, '/'), 'http://proxy.local');
+  url.searchParams.delete('key');
+  return url;
+};
+
+const readBody = (request: IncomingMessage, limit: number) =>
+  new Promise<Buffer>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    request.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        reject(new PayloadTooLargeError(`Request body exceeds ${limit} bytes`));
+        request.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    request.on('end', () => resolve(Buffer.concat(chunks)));
+    request.on('error', reject);
+  });
+
+// Keeps the upstream's close reason (it carries API errors) but never forwards reserved codes
+const toCloseCode = (code: number) => (code === 1005 || code === 1006 || code === 1015 ? 1011 : code);
+
+const rawDataBytes = (data: RawData) =>
+  Array.isArray(data) ? data.reduce((total, chunk) => total + chunk.length, 0) : data.byteLength;
+
+/**
+ * Creates the proxy server without starting it; call `listen` on the result.
+ */
+export const createApiProxy = (options: ApiProxyOptions): http.Server => {
+  const upstream = new URL(options.upstream);
+  const maxBodyBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+  const maxPendingLiveBytes = options.maxPendingLiveBytes ?? DEFAULT_MAX_PENDING_LIVE_BYTES;
+  const log = options.log ?? (() => {});
+
+  const isOriginAllowed = (origin: string | undefined) =>
+    origin ? options.allowedOrigins.includes('*') || options.allowedOrigins.includes(origin) : options.allowNoOrigin === true;
+
+  // Redirects are followed here rather than by fetch, so the key is only ever sent to the upstream origin
+  const fetchUpstream = async (target: URL, init: { method?: string; headers: Record<string, string>; body?: Buffer; signal: AbortSignal }) => {
+    let url = target;
+    let { method, headers, body } = init;
+    for (let hop = 0; ; hop++) {
+      const upstreamResponse = await fetch(url, { method, headers, body, redirect: 'manual', signal: init.signal });
+      const location = upstreamResponse.headers.get('location');
+      if (upstreamResponse.status < 300 || upstreamResponse.status >= 400 || !location || hop >= MAX_REDIRECTS) return upstreamResponse;
+      await upstreamResponse.body?.cancel();
+      url = new URL(location, url);
+      if (url.origin !== upstream.origin) {
+        const { 'x-goog-api-key': _key, ...rest } = headers;
+        headers = rest;
+      }
+      if (upstreamResponse.status === 303 || ((upstreamResponse.status === 301 || upstreamResponse.status === 302) && method === 'POST')) {
+        method = 'GET';
+        body = undefined;
+      }
+    }
+  };
+
+  const corsHeaders = (request: IncomingMessage): Record<string, string> => {
+    const origin = request.headers.origin;
+    if (!origin || !isOriginAllowed(origin)) return {};
+    return { 'access-control-allow-origin': origin, vary: 'Origin' };
+  };
+
+  const sendError = (request: IncomingMessage, response: ServerResponse, status: number, message: string) => {
+    response.writeHead(status, { ...corsHeaders(request), 'content-type': 'application/json' });
+    response.end(JSON.stringify({ error: { code: status, message } }));
+  };
+
+  const forwardHttp = async (request: IncomingMessage, response: ServerResponse) => {
+    const startedAt = Date.now();
+    const url = parseRequestUrl(request.url);
+
+    if (!isOriginAllowed(request.headers.origin)) {
+      sendError(request, response, 403, 'Origin not allowed');
+      return;
+    }
+    if (request.method === 'OPTIONS') {
+      response.writeHead(204, {
+        ...corsHeaders(request),
+        'access-control-allow-methods': 'GET, POST, DELETE, OPTIONS',
+        'access-control-allow-headers': request.headers['access-control-request-headers'] || 'content-type',
+        'access-control-max-age': '600',
+      });
+      response.end();
+      return;
+    }
+    if (!HTTP_PATH.test(url.pathname)) {
+      sendError(request, response, 404, 'Not a proxied API path');
+      return;
+    }
+
+    const headers: Record<string, string> = {};
+    Object.entries(request.headers).forEach(([name, value]) => {
+      if (value !== undefined && !STRIPPED_REQUEST_HEADERS.includes(name)) headers[name] = Array.isArray(value) ? value.join(', ') : value;
+    });
+    headers['x-goog-api-key'] = options.apiKey;
+
+    // Stop the upstream call when the browser goes away mid-stream
+    const abort = new AbortController();
+    response.on('close', () => {
+      if (!response.writableEnded) abort.abort();
+    });
+
+    try {
+      const body = request.method === 'GET' || request.method === 'HEAD' ? undefined : await readBody(request, maxBodyBytes);
+      const target = new URL(url.pathname + url.search, upstream);
+      const upstreamResponse = await fetchUpstream(target, { method: request.method, headers, body, signal: abort.signal });
+
+      const responseHeaders: Record<string, string> = corsHeaders(request);
+      upstreamResponse.headers.forEach((value, name) => {
+        if (!STRIPPED_RESPONSE_HEADERS.includes(name)) responseHeaders[name] = value;
+      });
+      response.writeHead(upstreamResponse.status, responseHeaders);
+      if (upstreamResponse.body) {
+        for await (const chunk of upstreamResponse.body as unknown as AsyncIterable<Uint8Array>) {
+          response.write(chunk);
+        }
+      }
+      response.end();
+      log(`${request.method} ${url.pathname} -> ${upstreamResponse.status} (${Date.now() - startedAt}ms)`);
+    } catch (err) {
+      if (abort.signal.aborted) {
+        log(`${request.method} ${url.pathname} cancelled by client`);
+        return;
+      }
+      const tooLarge = err instanceof PayloadTooLargeError;
+      log(`${request.method} ${url.pathname} failed: ${(err as Error).message}`);
+      if (!response.headersSent) sendError(request, response, tooLarge ? 413 : 502, tooLarge ? (err as Error).message : 'Upstream request failed');
+      else response.destroy();
+    }
+  };
+
+  const server = http.createServer((request, response) => {
+    void forwardHttp(request, response);
+  });
+
+  const liveServer = new WebSocketServer({ noServer: true });
+
+  const bridgeLive = (client: WebSocket, path: string) => {
+    const target = new URL(path, upstream);
+    target.protocol = upstream.protocol === 'http:' ? 'ws:' : 'wss:';
+    target.searchParams.set('key', options.apiKey);
+
+    const remote = new WebSocket(target);
+    const pending: { data: RawData; isBinary: boolean }[] = [];
+    let pendingBytes = 0;
+
+    // The SDK sends its setup message as soon as the socket opens, before the upstream is ready
+    client.on('message', (data, isBinary) => {
+      if (remote.readyState === WebSocket.OPEN) {
+        remote.send(data, { binary: isBinary });
+        return;
+      }
+      pending.push({ data, isBinary });
+      pendingBytes += rawDataBytes(data);
+      if (pendingBytes <= maxPendingLiveBytes) return;
+      // A slow or failing upstream must not let a streaming client grow the proxy's memory
+      log(`Live session dropped: upstream not ready after ${pendingBytes} buffered bytes`);
+      pending.length = 0;
+      remote.terminate();
+      client.close(1013, 'Upstream not ready');
+    });
+    remote.on('open', () => {
+      pendingBytes = 0;
+      pending.splice(0).forEach(({ data, isBinary }) => remote.send(data, { binary: isBinary }));
+      log(`Live session opened ${path}`);
+    });
+    remote.on('message', (data, isBinary) => {
+      if (client.readyState === WebSocket.OPEN) client.send(data, { binary: isBinary });
+    });
+
+    remote.on('close', (code, reason) => {
+      log(`Live session closed by upstream (${code})`);
+      if (client.readyState === WebSocket.OPEN) client.close(toCloseCode(code), reason);
+    });
+    client.on('close', (code, reason) => {
+      if (remote.readyState === WebSocket.OPEN) remote.close(toCloseCode(code), reason);
+      else if (remote.readyState === WebSocket.CONNECTING) remote.terminate();
+    });
+    remote.on('error', (err) => {
+      log(`Live upstream error: ${err.message}`);
+      if (client.readyState === WebSocket.OPEN) client.close(1011, 'Upstream connection failed');
+    });
+    client.on('error', (err) => log(`Live client error: ${err.message}`));
+  };
+
+  server.on('upgrade', (request: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const url = parseRequestUrl(request.url);
+    if (!LIVE_PATH.test(url.pathname) || !isOriginAllowed(request.headers.origin)) {
+      socket.end('HTTP/1.1 403 Forbidden\r\n\r\n');
+      return;
+    }
+    liveServer.handleUpgrade(request, socket, head, (client) => bridgeLive(client, url.pathname));
+  });
+
+  server.on('close', () => {
+    liveServer.clients.forEach(client => client.terminate());
+    liveServer.close();
+  });
+
+  return server;
+};
+
+const main = () => {
+  const log = (message: string) => console.log(`[${new Date().toISOString()}] [PROXY] ${message}`);
+  const apiKey = process.env.GEMINI_API_KEY;
+  if (!apiKey) {
+    log('GEMINI_API_KEY is not set');
+    process.exit(1);
+  }
+
+  const port = Number(process.env.GEMINI_PROXY_PORT || 8788);
+  const host = process.env.GEMINI_PROXY_HOST || '127.0.0.1';
+  const allowedOrigins = (process.env.GEMINI_PROXY_ORIGINS || 'http://localhost:3000,http://127.0.0.1:3000')
+    .split(',')
+    .map(origin => origin.trim())
+    .filter(Boolean);
+
+  const allowNoOrigin = process.env.GEMINI_PROXY_ALLOW_NO_ORIGIN === '1';
+
+  const server = createApiProxy({ apiKey, upstream: process.env.GEMINI_UPSTREAM || DEFAULT_UPSTREAM, allowedOrigins, allowNoOrigin, log });
+  server.listen(port, host, () => log(`Listening on http://${host}:${port} (origins: ${allowedOrigins.join(', ')}${allowNoOrigin ? ', and clients without Origin' : ''})`));
+
+  const shutdown = () => {
+    log('Shutting down');
+    server.close();
+    server.closeAllConnections();
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+};
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) main();
@@ -0,0 +1,76 @@
+/**
+ * M.E.L.I. mesh relay.
+ *
+ * Fans mesh envelopes out between clients on different workstations. Every packet is
+ * validated with the same protocol rules the browser applies, so a malformed or
+ * out-of-date client cannot push traffic to its peers.
+ *
+ *   MESH_RELAY_PORT=8787 MESH_RELAY_HOST=0.0.0.0 npm run relay
+ */
+import { WebSocketServer, WebSocket, RawData } from 'ws';
+import { MeshProtocolError, parseMeshEnvelope } from '../services/meshProtocol';
+
+const PORT = Number(process.env.MESH_RELAY_PORT || 8787);
+const HOST = process.env.MESH_RELAY_HOST || '0.0.0.0';
+const MAX_PACKET_BYTES = 512 * 1024;
+const HEARTBEAT_MS = 30000;
+
+const log = (message: string) => console.log(`[${new Date().toISOString()}] [RELAY] ${message}`);
+
+const alive = new WeakMap<WebSocket, boolean>();
+
+const server = new WebSocketServer({ port: PORT, host: HOST, maxPayload: MAX_PACKET_BYTES });
+
+const relay = (sender: WebSocket, data: RawData, isBinary: boolean) => {
+  if (isBinary) return;
+
+  let packet: string;
+  try {
+    // Re-serialize the validated envelope so only protocol fields are forwarded
+    packet = JSON.stringify(parseMeshEnvelope(JSON.parse(data.toString())));
+  } catch (err) {
+    const reason = err instanceof MeshProtocolError ? err.message : 'packet is not valid JSON';
+    log(`Dropped packet: ${reason}`);
+    return;
+  }
+
+  server.clients.forEach(client => {
+    if (client !== sender && client.readyState === WebSocket.OPEN) {
+      client.send(packet);
+    }
+  });
+};
+
+server.on('connection', (socket, request) => {
+  const peer = `${request.socket.remoteAddress}:${request.socket.remotePort}`;
+  alive.set(socket, true);
+  log(`Peer connected ${peer} (${server.clients.size} online)`);
+
+  socket.on('pong', () => alive.set(socket, true));
+  socket.on('message', (data, isBinary) => relay(socket, data, isBinary));
+  socket.on('close', () => log(`Peer disconnected ${peer} (${server.clients.size} online)`));
+  socket.on('error', (err) => log(`Peer error ${peer}: ${err.message}`));
+});
+
+// Drop peers that stopped answering pings (sleeping laptops, pulled cables)
+const heartbeat = setInterval(() => {
+  server.clients.forEach(socket => {
+    if (!alive.get(socket)) {
+      socket.terminate();
+      return;
+    }
+    alive.set(socket, false);
+    socket.ping();
+  });
+}, HEARTBEAT_MS);
+
+server.on('listening', () => log(`Listening on ws://${HOST}:${PORT}`));
+server.on('close', () => clearInterval(heartbeat));
+
+const shutdown = () => {
+  log('Shutting down');
+  server.close();
+  server.clients.forEach(socket => socket.terminate());
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -0,0 +1,97 @@
+const PROCESSOR_NAME = 'meli-pcm-capture';
+
+// Frame sizes in samples. Small frames keep latency low: 512 samples is 32ms at 16kHz.
+export const LIVE_FRAME_SIZE = 512;
+export const RECORDING_FRAME_SIZE = 1024;
+
+/**
+ * Runs on the audio rendering thread. Collects the first input channel into fixed-size
+ * frames and transfers each one to the main thread, so no audio work blocks rendering.
+ * Kept as source text because the worklet module must be loaded from a URL.
+ */
+const PROCESSOR_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    this.frameSize = (options.processorOptions && options.processorOptions.frameSize) || 512;
+    this.frame = new Float32Array(this.frameSize);
+    this.filled = 0;
+    this.active = true;
+    this.port.onmessage = (event) => {
+      if (event.data === 'stop') this.active = false;
+    };
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!this.active) return false;
+    if (!channel) return true;
+    let read = 0;
+    while (read < channel.length) {
+      const count = Math.min(channel.length - read, this.frameSize - this.filled);
+      this.frame.set(channel.subarray(read, read + count), this.filled);
+      this.filled += count;
+      read += count;
+      if (this.filled === this.frameSize) {
+        this.port.postMessage(this.frame, [this.frame.buffer]);
+        this.frame = new Float32Array(this.frameSize);
+        this.filled = 0;
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor('${PROCESSOR_NAME}', PcmCaptureProcessor);
+`;
+
+const loaded = new WeakMap<BaseAudioContext, Promise<void>>();
+
+/**
+ * Registers the capture processor on a context. Safe to call repeatedly; must resolve
+ * before createPcmCaptureNode is used on that context.
+ */
+export const loadCaptureWorklet = (ctx: BaseAudioContext): Promise<void> => {
+  let pending = loaded.get(ctx);
+  if (!pending) {
+    const url = URL.createObjectURL(new Blob([PROCESSOR_SOURCE], { type: 'application/javascript' }));
+    pending = ctx.audioWorklet.addModule(url).finally(() => URL.revokeObjectURL(url));
+    loaded.set(ctx, pending);
+  }
+  return pending;
+};
+
+/**
+ * Creates a capture node that calls `onFrame` with every `frameSize` samples it receives.
+ * Connect a source to it; the node routes itself to the destination through a muted gain
+ * so the graph keeps pulling it. Call stopPcmCapture to release it.
+ */
+export const createPcmCaptureNode = (
+  ctx: AudioContext,
+  frameSize: number,
+  onFrame: (frame: Float32Array) => void,
+): AudioWorkletNode => {
+  const node = new AudioWorkletNode(ctx, PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions: { frameSize },
+  });
+  node.port.onmessage = (event: MessageEvent<Float32Array>) => onFrame(event.data);
+
+  const mute = ctx.createGain();
+  mute.gain.value = 0;
+  node.connect(mute);
+  mute.connect(ctx.destination);
+  return node;
+};
+
+/**
+ * Ends a capture node's processor and detaches it from the graph.
+ */
+export const stopPcmCapture = (node: AudioWorkletNode) => {
+  node.port.postMessage('stop');
+  node.port.onmessage = null;
+  node.disconnect();
+};
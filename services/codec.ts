@@ -0,0 +1,94 @@
+import { CODEC_OPS, CodecArgs, CodecOp, CodecResponse, CodecResult } from './codecOps';
+
+interface PendingCall {
+  resolve: (value: any) => void;
+  reject: (error: Error) => void;
+}
+
+const pending = new Map<number, PendingCall>();
+let nextId = 1;
+let worker: Worker | null = null;
+let workerFailed = false;
+
+const failPending = (reason: string) => {
+  pending.forEach(call => call.reject(new Error(reason)));
+  pending.clear();
+};
+
+const getWorker = (): Worker | null => {
+  if (worker || workerFailed) return worker;
+  if (typeof Worker === 'undefined') {
+    workerFailed = true;
+    return null;
+  }
+  try {
+    worker = new Worker(new URL('./codec.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<CodecResponse>) => {
+      const call = pending.get(event.data.id);
+      if (!call) return;
+      pending.delete(event.data.id);
+      if ('error' in event.data) call.reject(new Error(event.data.error));
+      else call.resolve(event.data.result);
+    };
+    // A worker that cannot load is dropped for good; later calls run inline
+    worker.onerror = (event: ErrorEvent) => {
+      console.warn('Codec worker failed; encoding on the main thread', event.message);
+      worker?.terminate();
+      worker = null;
+      workerFailed = true;
+      failPending('Codec worker failed');
+    };
+  } catch (e) {
+    console.warn('Codec worker unavailable; encoding on the main thread', e);
+    workerFailed = true;
+  }
+  return worker;
+};
+
+/**
+ * Runs a codec operation in the worker, or inline when workers are unavailable.
+ * Buffers listed in `transfer` are moved to the worker and unusable by the caller afterwards.
+ */
+const run = <K extends CodecOp>(op: K, args: CodecArgs<K>, transfer: Transferable[] = []): Promise<CodecResult<K>> => {
+  const target = getWorker();
+  if (!target) {
+    return Promise.resolve().then(() => (CODEC_OPS[op] as (args: CodecArgs<K>) => CodecResult<K>)(args));
+  }
+  const id = nextId++;
+  return new Promise((resolve, reject) => {
+    pending.set(id, { resolve, reject });
+    target.postMessage({ id, op, args }, transfer);
+  });
+};
+
+export const encodeBase64 = (bytes: Uint8Array) => run('encodeBase64', { bytes });
+
+export const decodeBase64 = (data: string) => run('decodeBase64', { data });
+
+export const blobToBase64 = (blob: Blob) => run('blobToBase64', { blob });
+
+/**
+ * Reads a file as an inline-data part for a Gemini request.
+ */
+export const fileToGenerativePart = async (file: File): Promise<{ inlineData: { data: string; mimeType: string } }> => ({
+  inlineData: { data: await blobToBase64(file), mimeType: file.type },
+});
+
+/**
+ * Packs float samples as a Live API audio part. The samples' buffer is transferred.
+ */
+export const createPcmPart = async (samples: Float32Array, sampleRate: number) => ({
+  data: await run('pcmToBase64', { samples }, [samples.buffer]),
+  mimeType: `audio/pcm;rate=${sampleRate}`,
+});
+
+/**
+ * Decodes base64 16-bit PCM into one float array per channel.
+ */
+export const decodePcm = (data: string, numChannels: number = 1) => run('base64ToPcm', { data, numChannels });
+
+/**
+ * Encodes float channels as a WAV file. The channels' buffers are transferred.
+ */
+export const encodeWav = (channels: Float32Array[], sampleRate: number) =>
+  run('encodeWav', { channels, sampleRate }, [...new Set(channels.map(channel => channel.buffer))]);
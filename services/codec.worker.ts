@@ -0,0 +1,20 @@
+/**
+ * Codec worker: runs base64, PCM and WAV conversions off the UI thread.
+ * Requests and results carry typed arrays as transferables, so large payloads are not copied.
+ */
+import { CODEC_OPS, CodecRequest, CodecResponse, collectTransferables } from './codecOps';
+
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<CodecRequest>) => void) | null;
+  postMessage: (message: CodecResponse, transfer?: Transferable[]) => void;
+};
+
+scope.onmessage = async (event) => {
+  const { id, op, args } = event.data;
+  try {
+    const result = await (CODEC_OPS[op] as (args: unknown) => unknown)(args);
+    scope.postMessage({ id, result }, collectTransferables(result));
+  } catch (err) {
+    scope.postMessage({ id, error: err instanceof Error ? err.message : String(err) });
+  }
+};
@@ -0,0 +1,45 @@
+import {
+  bytesToInt16,
+  deinterleave,
+  decodeAudio,
+  encodeAudio,
+  encodeWAV,
+  floatToInt16,
+  int16ToBytes,
+  int16ToFloat,
+} from './geminiUtils';
+
+/**
+ * Operations the codec worker performs. Shared with the main thread, which runs them
+ * inline when workers are unavailable.
+ */
+export const CODEC_OPS = {
+  encodeBase64: ({ bytes }: { bytes: Uint8Array }) => encodeAudio(bytes),
+  decodeBase64: ({ data }: { data: string }) => decodeAudio(data),
+  blobToBase64: async ({ blob }: { blob: Blob }) => encodeAudio(new Uint8Array(await blob.arrayBuffer())),
+  pcmToBase64: ({ samples }: { samples: Float32Array }) => encodeAudio(int16ToBytes(floatToInt16(samples))),
+  base64ToPcm: ({ data, numChannels }: { data: string; numChannels: number }) =>
+    deinterleave(int16ToFloat(bytesToInt16(decodeAudio(data))), numChannels),
+  encodeWav: ({ channels, sampleRate }: { channels: Float32Array[]; sampleRate: number }) => encodeWAV(channels, sampleRate),
+};
+
+export type CodecOp = keyof typeof CODEC_OPS;
+export type CodecArgs<K extends CodecOp> = Parameters<(typeof CODEC_OPS)[K]>[0];
+export type CodecResult<K extends CodecOp> = Awaited<ReturnType<(typeof CODEC_OPS)[K]>>;
+
+export interface CodecRequest {
+  id: number;
+  op: CodecOp;
+  args: unknown;
+}
+
+export type CodecResponse = { id: number; result: unknown } | { id: number; error: string };
+
+/**
+ * Buffers in a result that can be transferred instead of copied.
+ */
+export const collectTransferables = (value: unknown): ArrayBuffer[] => {
+  if (ArrayBuffer.isView(value)) return [value.buffer as ArrayBuffer];
+  if (Array.isArray(value)) return value.flatMap(collectTransferables);
+  return [];
+};
@@ -0,0 +1,46 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { fuzzyMatch } from './commandPalette';
+
+describe('fuzzyMatch', () => {
+  it('prefers consecutive characters at the start of a word', () => {
+    expect(fuzzyMatch('live', 'Toggle Live uplink')?.indices).toEqual([7, 8, 9, 10]);
+  });
+
+  it('returns null when the characters are not all present in order', () => {
+    expect(fuzzyMatch('xyz', 'Go to INTEL_CORE')).toBeNull();
+  });
+});
+
+describe('command history', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.resetModules();
+  });
+
+  // The history is cached per module instance, so each case loads a fresh one
+  const loadHistory = async (stored: unknown) => {
+    vi.stubGlobal('localStorage', { getItem: () => JSON.stringify(stored), setItem: () => {} });
+    const { getCommandHistory } = await import('./commandPalette');
+    return getCommandHistory();
+  };
+
+  it('keeps well-formed entries for known commands and drops the rest', async () => {
+    const history = await loadHistory([
+      { commandId: 'live:toggle', time: 3, extra: 'ignored' },
+      { commandId: 'media:video', text: 'Flyover', time: 2 },
+      { commandId: 'gone:command', time: 1 },
+      { commandId: 'live:toggle', time: 'yesterday' },
+      { commandId: 'media:audio', text: 42, time: 1 },
+      null,
+      'live:toggle',
+    ]);
+    expect(history).toEqual([
+      { commandId: 'live:toggle', text: undefined, time: 3 },
+      { commandId: 'media:video', text: 'Flyover', time: 2 },
+    ]);
+  });
+
+  it('starts empty when the stored value is not a list', async () => {
+    expect(await loadHistory({ commandId: 'live:toggle', time: 1 })).toEqual([]);
+  });
+});
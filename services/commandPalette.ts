@@ -0,0 +1,193 @@
+import { useEffect, useState } from 'react';
+import { INTEL_MODES, ModuleView } from '../types';
+import { MeshMessage } from './meshProtocol';
+
+const HISTORY_KEY = 'meli_command_history';
+const HISTORY_LIMIT = 8;
+
+export type PaletteGroup = 'NAVIGATE' | 'INTEL' | 'VISUAL_OPS' | 'MEDIA_LAB' | 'SECURE_LINK';
+
+export interface PaletteCommand {
+  id: string;            // Stable; recent history refers to commands by id
+  group: PaletteGroup;
+  label: string;
+  keywords?: string;     // Extra words matched by search but not shown
+  argument?: string;     // Placeholder for the text the command needs, if any
+  // Mesh messages to dispatch, in order. The first is usually CMD_NAVIGATE, as with the voice tools.
+  messages: (text: string) => MeshMessage[];
+}
+
+const VIEW_LABELS: Record<ModuleView, string> = {
+  [ModuleView.DASHBOARD]: 'OVERVIEW',
+  [ModuleView.INTEL]: 'INTEL_CORE',
+  [ModuleView.VISUAL_OPS]: 'VISUAL_OPS',
+  [ModuleView.MEDIA_LAB]: 'MEDIA_LAB',
+  [ModuleView.LIVE_COMMS]: 'SECURE_LINK',
+  [ModuleView.USAGE]: 'USAGE_LEDGER',
+  [ModuleView.SETTINGS]: 'SETTINGS',
+};
+
+const navigate = (view: ModuleView): MeshMessage => ({ type: 'CMD_NAVIGATE', payload: { view } });
+
+export const PALETTE_COMMANDS: PaletteCommand[] = [
+  ...Object.values(ModuleView).map((view): PaletteCommand => ({
+    id: `nav:${view}`,
+    group: 'NAVIGATE',
+    label: `Go to ${VIEW_LABELS[view]}`,
+    keywords: 'open view module',
+    messages: () => [navigate(view)],
+  })),
+  ...INTEL_MODES.map((mode): PaletteCommand => ({
+    id: `intel:${mode}`,
+    group: 'INTEL',
+    label: `Intel query (${mode.replace('_', ' ').toUpperCase()})`,
+    keywords: 'search ask chat',
+    argument: 'Query...',
+    messages: (query) => [navigate(ModuleView.INTEL), { type: 'SYSTEM_COMMAND', payload: { target: 'INTEL', action: 'search', query, mode } }],
+  })),
+  ...(['generate', 'edit', 'analyze'] as const).map((action): PaletteCommand => ({
+    id: `visual:${action}`,
+    group: 'VISUAL_OPS',
+    label: `${action[0].toUpperCase()}${action.slice(1)} image`,
+    keywords: 'visual picture render',
+    argument: action === 'analyze' ? 'What to look for...' : 'Prompt...',
+    messages: (prompt) => [navigate(ModuleView.VISUAL_OPS), { type: 'SYSTEM_COMMAND', payload: { target: 'VISUAL_OPS', action, prompt } }],
+  })),
+  {
+    id: 'media:video',
+    group: 'MEDIA_LAB',
+    label: 'Queue video render',
+    keywords: 'veo film movie',
+    argument: 'Video prompt...',
+    messages: (prompt) => [navigate(ModuleView.MEDIA_LAB), { type: 'SYSTEM_COMMAND', payload: { target: 'MEDIA_LAB', type: 'video', prompt } }],
+  },
+  {
+    id: 'media:audio',
+    group: 'MEDIA_LAB',
+    label: 'Queue text to speech',
+    keywords: 'tts voice audio speak',
+    argument: 'Text to speak...',
+    messages: (prompt) => [navigate(ModuleView.MEDIA_LAB), { type: 'SYSTEM_COMMAND', payload: { target: 'MEDIA_LAB', type: 'audio', prompt } }],
+  },
+  {
+    id: 'live:toggle',
+    group: 'SECURE_LINK',
+    label: 'Toggle Live uplink',
+    keywords: 'connect disconnect voice comms',
+    messages: () => [navigate(ModuleView.LIVE_COMMS), { type: 'SYSTEM_COMMAND', payload: { target: 'LIVE_COMMS', action: 'toggle' } }],
+  },
+];
+
+export const getPaletteCommand = (id: string) => PALETTE_COMMANDS.find(command => command.id === id);
+
+// --- Fuzzy matching ---
+
+export interface FuzzyMatch {
+  score: number;
+  indices: number[]; // Matched character positions in the text, for highlighting
+}
+
+const matchFrom = (needle: string, haystack: string, start: number): FuzzyMatch | null => {
+  const indices: number[] = [];
+  let score = 0;
+  let from = start;
+  for (const char of needle) {
+    const index = haystack.indexOf(char, from);
+    if (index === -1) return null;
+    const previous = indices[indices.length - 1];
+    score += 1;
+    if (previous !== undefined && index === previous + 1) score += 5;
+    if (index === 0 || /[\s_:(]/.test(haystack[index - 1])) score += 3;
+    score -= Math.min(index - from, 5) * 0.1;
+    indices.push(index);
+    from = index + 1;
+  }
+  return { score, indices };
+};
+
+/**
+ * Matches when every query character appears in the text in order. Runs of consecutive
+ * characters and matches at the start of a word score higher; null when there is no match.
+ * Each occurrence of the first character is tried, so "live" prefers "Live" over "toggLe ...".
+ */
+export const fuzzyMatch = (query: string, text: string): FuzzyMatch | null => {
+  const needle = query.toLowerCase().replace(/\s+/g, '');
+  const haystack = text.toLowerCase();
+  if (!needle) return { score: 0, indices: [] };
+  let best: FuzzyMatch | null = null;
+  for (let start = haystack.indexOf(needle[0]); start !== -1; start = haystack.indexOf(needle[0], start + 1)) {
+    const match = matchFrom(needle, haystack, start);
+    if (!match) break; // A later start cannot match if this one ran out of text
+    if (!best || match.score > best.score) best = match;
+  }
+  return best;
+};
+
+// --- Recent history ---
+
+export interface RecentCommand {
+  commandId: string;
+  text?: string; // Query or prompt it ran with
+  time: number;
+}
+
+type HistoryListener = (history: RecentCommand[]) => void;
+const listeners = new Set<HistoryListener>();
+
+let history: RecentCommand[] | null = null;
+
+const setHistory = (next: RecentCommand[]) => {
+  history = next;
+  try {
+    localStorage.setItem(HISTORY_KEY, JSON.stringify(next));
+  } catch (e) {
+    console.warn('Unable to persist command history', e);
+  }
+  listeners.forEach(listener => listener(next));
+};
+
+const isRecentCommand = (value: unknown): value is RecentCommand => {
+  if (typeof value !== 'object' || value === null) return false;
+  const entry = value as Record<string, unknown>;
+  return typeof entry.commandId === 'string' && typeof entry.time === 'number' && (entry.text === undefined || typeof entry.text === 'string');
+};
+
+// Newest first. Entries for commands that no longer exist are dropped.
+export const getCommandHistory = (): RecentCommand[] => {
+  if (history) return history;
+  let loaded: RecentCommand[];
+  try {
+    const raw = localStorage.getItem(HISTORY_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    loaded = (Array.isArray(parsed) ? parsed : [])
+      .filter(isRecentCommand)
+      .filter(entry => getPaletteCommand(entry.commandId))
+      .map(({ commandId, text, time }) => ({ commandId, text, time }))
+      .slice(0, HISTORY_LIMIT);
+  } catch (e) {
+    console.warn('Stored command history is unreadable', e);
+    loaded = [];
+  }
+  history = loaded;
+  return loaded;
+};
+
+export const recordCommand = (commandId: string, text?: string) => {
+  const rest = getCommandHistory().filter(entry => entry.commandId !== commandId || entry.text !== text);
+  setHistory([{ commandId, text, time: Date.now() }, ...rest].slice(0, HISTORY_LIMIT));
+};
+
+export const clearCommandHistory = () => setHistory([]);
+
+export const subscribeCommandHistory = (listener: HistoryListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const useCommandHistory = (): RecentCommand[] => {
+  const [snapshot, setSnapshot] = useState(getCommandHistory);
+  useEffect(() => subscribeCommandHistory(setSnapshot), []);
+  return snapshot;
+};
@@ -0,0 +1,6 @@
+/**
+ * Creates an id for one operation (a voice command, a chat directive, a render). Log entries,
+ * mesh commands and Gemini retries carrying it are shown together as one causal chain.
+ */
+export const createCorrelationId = (prefix: string) =>
+  `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
@@ -0,0 +1,113 @@
+import { useEffect, useState } from 'react';
+
+const STORAGE_KEY = 'meli_dashboard_layouts';
+
+export type WidgetId = 'status' | 'latency' | 'intel' | 'renders' | 'mediaJobs' | 'live' | 'errors' | 'usage';
+export type WidgetSize = 1 | 2; // Grid columns spanned
+
+export interface WidgetInfo {
+  id: WidgetId;
+  label: string;
+  defaultSize: WidgetSize;
+}
+
+export const DASHBOARD_WIDGETS: WidgetInfo[] = [
+  { id: 'status', label: 'SYSTEM STATUS', defaultSize: 1 },
+  { id: 'latency', label: 'API LATENCY', defaultSize: 2 },
+  { id: 'intel', label: 'LATEST INTEL', defaultSize: 1 },
+  { id: 'renders', label: 'RECENT RENDERS', defaultSize: 1 },
+  { id: 'mediaJobs', label: 'MEDIA JOBS', defaultSize: 1 },
+  { id: 'live', label: 'LIVE LINK', defaultSize: 1 },
+  { id: 'errors', label: 'ERROR COUNTS', defaultSize: 1 },
+  { id: 'usage', label: 'USAGE (7 DAYS)', defaultSize: 2 },
+];
+
+export interface DashboardWidget {
+  id: WidgetId;
+  size: WidgetSize;
+}
+
+// Visible widgets in display order; widgets left out are hidden
+export type DashboardLayout = DashboardWidget[];
+
+export const DEFAULT_DASHBOARD_LAYOUT: DashboardLayout = DASHBOARD_WIDGETS.map(({ id, defaultSize }) => ({ id, size: defaultSize }));
+
+type LayoutsByOperator = Record<string, DashboardLayout>;
+type LayoutListener = (callsign: string, layout: DashboardLayout) => void;
+const listeners = new Set<LayoutListener>();
+
+const isWidgetId = (value: unknown): value is WidgetId => DASHBOARD_WIDGETS.some(widget => widget.id === value);
+
+// Unknown and repeated widgets are dropped so a stale or edited entry still loads
+const sanitizeLayout = (value: unknown): DashboardLayout | null => {
+  if (!Array.isArray(value)) return null;
+  const seen = new Set<WidgetId>();
+  return value.flatMap((item): DashboardLayout => {
+    if (!item || !isWidgetId(item.id) || seen.has(item.id)) return [];
+    seen.add(item.id);
+    return [{ id: item.id, size: item.size === 2 ? 2 : 1 }];
+  });
+};
+
+let layouts: LayoutsByOperator | null = null;
+
+const getLayouts = (): LayoutsByOperator => {
+  if (!layouts) {
+    layouts = {};
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      const parsed = raw ? JSON.parse(raw) : {};
+      Object.entries(parsed && typeof parsed === 'object' ? parsed : {}).forEach(([callsign, value]) => {
+        const layout = sanitizeLayout(value);
+        if (layout) layouts![callsign] = layout;
+      });
+    } catch (e) {
+      console.warn('Stored dashboard layouts are unreadable; using defaults', e);
+    }
+  }
+  return layouts;
+};
+
+const setLayouts = (next: LayoutsByOperator, callsign: string) => {
+  layouts = next;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch (e) {
+    console.warn('Unable to persist dashboard layout', e);
+  }
+  const layout = getDashboardLayout(callsign);
+  listeners.forEach(listener => listener(callsign, layout));
+};
+
+/**
+ * The layout saved for an operator callsign, or the default arrangement.
+ */
+export const getDashboardLayout = (callsign: string): DashboardLayout =>
+  getLayouts()[callsign] ?? DEFAULT_DASHBOARD_LAYOUT;
+
+export const saveDashboardLayout = (callsign: string, layout: DashboardLayout) => {
+  setLayouts({ ...getLayouts(), [callsign]: sanitizeLayout(layout) ?? [] }, callsign);
+};
+
+export const resetDashboardLayout = (callsign: string) => {
+  const { [callsign]: _removed, ...rest } = getLayouts();
+  setLayouts(rest, callsign);
+};
+
+export const subscribeDashboardLayout = (listener: LayoutListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const useDashboardLayout = (callsign: string): DashboardLayout => {
+  const [layout, setLayout] = useState(() => getDashboardLayout(callsign));
+  useEffect(() => {
+    setLayout(getDashboardLayout(callsign));
+    return subscribeDashboardLayout((changed, next) => {
+      if (changed === callsign) setLayout(next);
+    });
+  }, [callsign]);
+  return layout;
+};
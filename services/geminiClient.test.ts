@@ -0,0 +1,155 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ModuleView } from '../types';
+import { classifyGeminiError, getGeminiClient } from './geminiClient';
+import { estimateLiveMinuteCost, getUsageRecords, saveUsageBudget } from './usage';
+
+// Errors queued here are thrown by the next mock call instead of answering it
+const injected = vi.hoisted(() => ({ errors: [] as Error[], calls: { generateContent: 0, generateVideos: 0, connect: 0 } }));
+
+vi.mock('./mockGeminiProvider', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('./mockGeminiProvider')>();
+  const fail = <T>(method: keyof typeof injected.calls, run: () => Promise<T>) => {
+    injected.calls[method]++;
+    const error = injected.errors.shift();
+    return error ? Promise.reject(error) : run();
+  };
+  return {
+    ...actual,
+    createMockProvider: () => {
+      const provider = actual.createMockProvider({ latencyMs: 1 });
+      return {
+        ...provider,
+        models: {
+          generateContent: (params) => fail('generateContent', () => provider.models.generateContent(params)),
+          generateVideos: (params) => fail('generateVideos', () => provider.models.generateVideos(params)),
+        },
+        live: {
+          connect: (params) => fail('connect', () => provider.live.connect(params)),
+        },
+      } satisfies typeof provider;
+    },
+  };
+});
+
+const statusError = (status: number) => Object.assign(new Error(`got status: ${status}`), { status });
+
+const apiError = (status: number, message: string) =>
+  Object.assign(new Error(`got status: ${status} . {"error":{"code":${status},"message":"${message}"}}`), { status });
+
+describe('classifyGeminiError', () => {
+  it('treats the key selector message as ENTITY_NOT_FOUND', () => {
+    expect(classifyGeminiError(new Error('Requested entity was not found.')).kind).toBe('ENTITY_NOT_FOUND');
+  });
+
+  it('treats an unknown model as ENTITY_NOT_FOUND', () => {
+    const err = apiError(404, 'models/gemini-0-pro is not found for API version v1beta, or is not supported for generateContent.');
+    expect(classifyGeminiError(err).kind).toBe('ENTITY_NOT_FOUND');
+  });
+
+  it('does not treat other 404s as a key problem', () => {
+    expect(classifyGeminiError(apiError(404, 'Operation not found: operations/abc')).kind).toBe('REQUEST_FAILED');
+    expect(classifyGeminiError(new Error('Media download failed, got status: 404 Not Found')).kind).toBe('REQUEST_FAILED');
+  });
+});
+
+describe('metered Live sessions', () => {
+  const storage = new Map<string, string>();
+
+  beforeEach(() => {
+    storage.clear();
+    vi.useFakeTimers();
+    vi.stubEnv('GEMINI_PROVIDER', 'mock');
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value),
+      removeItem: (key: string) => storage.delete(key),
+    });
+    vi.stubGlobal('CloseEvent', class extends Event {});
+    vi.stubGlobal('ErrorEvent', class extends Event {
+      message: string;
+      constructor(type: string, init: { message?: string } = {}) {
+        super(type);
+        this.message = init.message ?? '';
+      }
+    });
+  });
+
+  afterEach(() => {
+    saveUsageBudget({ period: 'day', softLimit: null, hardLimit: null });
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it('closes a session once another minute would cross the hard budget', async () => {
+    const model = 'gemini-2.5-flash-native-audio';
+    const minute = estimateLiveMinuteCost(model);
+    saveUsageBudget({ period: 'day', softLimit: null, hardLimit: minute * 2.5 });
+    const onerror = vi.fn();
+    const onclose = vi.fn();
+    const ai = await getGeminiClient({ usage: { module: ModuleView.LIVE_COMMS, mode: 'live' } });
+    await ai.live.connect({ model, callbacks: { onmessage: () => {}, onerror, onclose } });
+
+    await vi.advanceTimersByTimeAsync(60000);
+    expect(onclose).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(60000);
+    expect(onerror).toHaveBeenCalledTimes(1);
+    expect(onerror.mock.calls[0][0].message).toMatch(/hard budget/);
+    expect(onclose).toHaveBeenCalledTimes(1);
+    expect(getUsageRecords().at(-1)).toMatchObject({ model, liveSeconds: 120 });
+  });
+});
+
+describe('automatic retries', () => {
+  beforeEach(() => {
+    injected.errors = [];
+    injected.calls = { generateContent: 0, generateVideos: 0, connect: 0 };
+    vi.useFakeTimers();
+    vi.stubEnv('GEMINI_PROVIDER', 'mock');
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+  });
+
+  // Settles the call while letting backoff timers run
+  const settle = async <T>(promise: Promise<T>) => {
+    const outcome = promise.then(value => ({ value }), error => ({ error }));
+    await vi.advanceTimersByTimeAsync(60000);
+    return outcome;
+  };
+
+  it('retries generateContent after a server error', async () => {
+    injected.errors.push(statusError(503));
+    const ai = await getGeminiClient();
+    const outcome = await settle(ai.models.generateContent({ model: 'gemini-test', contents: 'Hello' }));
+    expect(outcome).toHaveProperty('value');
+    expect(injected.calls.generateContent).toBe(2);
+  });
+
+  it('does not retry a video render after a server error, which may follow acceptance', async () => {
+    injected.errors.push(statusError(503));
+    const ai = await getGeminiClient();
+    const outcome = await settle(ai.models.generateVideos({ model: 'veo-test', prompt: 'Flyover' }));
+    expect(outcome).toMatchObject({ error: { kind: 'UNAVAILABLE' } });
+    expect(injected.calls.generateVideos).toBe(1);
+  });
+
+  it('retries a video render that was rate limited', async () => {
+    injected.errors.push(statusError(429));
+    const ai = await getGeminiClient();
+    const outcome = await settle(ai.models.generateVideos({ model: 'veo-test', prompt: 'Flyover' }));
+    expect(outcome).toHaveProperty('value');
+    expect(injected.calls.generateVideos).toBe(2);
+  });
+
+  it('does not retry a Live handshake', async () => {
+    injected.errors.push(statusError(503));
+    const ai = await getGeminiClient();
+    const outcome = await settle(ai.live.connect({ model: 'live-test', callbacks: { onmessage: () => {} } }));
+    expect(outcome).toMatchObject({ error: { kind: 'UNAVAILABLE' } });
+    expect(injected.calls.connect).toBe(1);
+  });
+});
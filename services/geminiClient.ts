@@ -0,0 +1,455 @@
+import { GoogleGenAI } from "@google/genai";
+import type { GenerateContentResponse } from "@google/genai";
+import { GeminiProvider, getProviderKind } from './geminiProvider';
+import { createMockProvider, renderMockVideo } from './mockGeminiProvider';
+import { withRetry } from './retry';
+import { recordApiCall, trackLiveSession } from './telemetry';
+import {
+  UsageContext,
+  checkBudget,
+  countContentUsage,
+  estimateContentCost,
+  estimateLiveMinuteCost,
+  estimateVideoCost,
+  recordUsage,
+} from './usage';
+
+interface AIStudioBridge {
+  hasSelectedApiKey: () => Promise<boolean>;
+  openSelectKey: () => Promise<void>;
+}
+
+declare global {
+  interface Window {
+    aistudio?: AIStudioBridge;
+  }
+}
+
+export type GeminiErrorKind =
+  | 'KEY_MISSING'
+  | 'ENTITY_NOT_FOUND'
+  | 'BUDGET_EXCEEDED'
+  | 'AUTH'
+  | 'RATE_LIMITED'
+  | 'UNAVAILABLE'
+  | 'NETWORK'
+  | 'SAFETY'
+  | 'INVALID_ARGUMENT'
+  | 'REQUEST_FAILED';
+
+// Transient failures worth another attempt; everything else fails fast
+const RETRYABLE_KINDS: GeminiErrorKind[] = ['RATE_LIMITED', 'UNAVAILABLE', 'NETWORK'];
+
+/**
+ * Single error type surfaced by every module that talks to Gemini.
+ * `message` is written for operators; the raw API text is kept in `detail`.
+ */
+export class GeminiError extends Error {
+  kind: GeminiErrorKind;
+  detail?: string;
+  cause?: unknown;
+
+  constructor(kind: GeminiErrorKind, message: string, cause?: unknown, detail?: string) {
+    super(message);
+    this.name = 'GeminiError';
+    this.kind = kind;
+    this.cause = cause;
+    this.detail = detail;
+  }
+
+  get retryable() {
+    return RETRYABLE_KINDS.includes(this.kind);
+  }
+}
+
+export interface GeminiRetryEvent {
+  label: string; // module/mode, or the method name for unmetered clients
+  attempt: number;
+  maxRetries: number;
+  delayMs: number;
+  error: GeminiError;
+  correlationId?: string;
+}
+
+type GeminiRetryListener = (event: GeminiRetryEvent) => void;
+const retryListeners = new Set<GeminiRetryListener>();
+
+/**
+ * Notified before every automatic retry, e.g. to surface it in the log console.
+ */
+export const subscribeGeminiRetries = (listener: GeminiRetryListener) => {
+  retryListeners.add(listener);
+  return () => {
+    retryListeners.delete(listener);
+  };
+};
+
+export interface GeminiClientOptions {
+  onKeyRequest?: () => void; // Called before the key selector is opened
+  usage?: UsageContext; // Meter calls against this module/mode and enforce budgets
+  correlationId?: string; // Attached to retry events so they join the operation's log chain
+  signal?: AbortSignal; // Aborts requests and retry waits, e.g. when a job is cancelled
+}
+
+export interface GeminiErrorOptions {
+  onReauthorize?: () => void; // Called before the key selector is reopened
+}
+
+export const getApiKey = (): string | undefined => process.env.API_KEY || undefined;
+
+/**
+ * Address of the key-holding API proxy (server/apiProxy.ts), when the build is configured for one.
+ */
+export const getProxyUrl = (): string | undefined => process.env.GEMINI_PROXY_URL?.replace(/\/+$/, '') || undefined;
+
+// The browser SDK refuses to start without a key; the proxy discards this one and adds the real key
+const PROXY_KEY_PLACEHOLDER = 'proxy';
+
+/**
+ * Opens the AI Studio key selector when the host environment requires one and none is chosen yet.
+ */
+export const ensureApiKeySelected = async (onKeyRequest?: () => void) => {
+  const bridge = window.aistudio;
+  if (bridge && await bridge.hasSelectedApiKey() === false) {
+    onKeyRequest?.();
+    await bridge.openSelectKey();
+  }
+};
+
+let mockProvider: GeminiProvider | null = null;
+
+// Live sessions are priced per minute, so the budget is re-checked on that interval
+const LIVE_BILLING_INTERVAL_MS = 60000;
+
+const enforceBudget = (estimatedCost: number, description: string) => {
+  const verdict = checkBudget(estimatedCost, description);
+  if (verdict.level === 'hard') throw new GeminiError('BUDGET_EXCEEDED', verdict.message);
+};
+
+/**
+ * Wraps a provider so every call is checked against the budget first and its usage
+ * recorded afterwards. Videos are counted when their operation completes; Live sessions
+ * are billed by duration when they close from either side, and are re-checked every billed
+ * minute so a long session is closed (with an error event) once the hard budget is reached.
+ */
+const meterProvider = (provider: GeminiProvider, context: UsageContext): GeminiProvider => {
+  const label = `${context.module}/${context.mode}`;
+  const videoModels = new Map<string, string>(); // Operation name -> model
+
+  return {
+    models: {
+      generateContent: async (params) => {
+        enforceBudget(estimateContentCost(params), `${label} request`);
+        const response = await provider.models.generateContent(params);
+        recordUsage(context, params.model, countContentUsage(response));
+        return response;
+      },
+      generateVideos: async (params) => {
+        enforceBudget(estimateVideoCost(params.model) * (params.config?.numberOfVideos || 1), `${label} render`);
+        const operation = await provider.models.generateVideos(params);
+        if (operation.name) videoModels.set(operation.name, params.model);
+        return operation;
+      },
+    },
+    operations: {
+      getVideosOperation: async (params) => {
+        const operation = await provider.operations.getVideosOperation(params);
+        const model = operation.name ? videoModels.get(operation.name) : undefined;
+        if (operation.done && model) {
+          videoModels.delete(operation.name!);
+          recordUsage(context, model, { videos: operation.response?.generatedVideos?.length || 0 });
+        }
+        return operation;
+      },
+    },
+    live: {
+      connect: async (params) => {
+        const minuteCost = estimateLiveMinuteCost(params.model);
+        enforceBudget(minuteCost, `${label} session`);
+        const startedAt = Date.now();
+        let recorded = false;
+        let billing: ReturnType<typeof setInterval> | undefined;
+        const recordSession = () => {
+          clearInterval(billing);
+          if (recorded) return;
+          recorded = true;
+          recordUsage(context, params.model, { liveSeconds: Math.round((Date.now() - startedAt) / 1000) });
+        };
+        const session = await provider.live.connect({
+          ...params,
+          callbacks: {
+            ...params.callbacks,
+            onclose: (event) => {
+              recordSession();
+              params.callbacks.onclose?.(event);
+            },
+          },
+        });
+        const close = () => {
+          recordSession();
+          session.close();
+        };
+        // The session is not recorded until it closes, so each check counts the minutes used so far
+        billing = setInterval(() => {
+          const minutesUsed = Math.round((Date.now() - startedAt) / LIVE_BILLING_INTERVAL_MS);
+          const verdict = checkBudget(minuteCost * (minutesUsed + 1), `${label} session minute ${minutesUsed + 1}`);
+          if (verdict.level !== 'hard') return;
+          params.callbacks.onerror?.(new ErrorEvent('error', { message: verdict.message }));
+          close();
+        }, LIVE_BILLING_INTERVAL_MS);
+        return {
+          sendRealtimeInput: (input) => session.sendRealtimeInput(input),
+          sendToolResponse: (response) => session.sendToolResponse(response),
+          close,
+        };
+      },
+    },
+  };
+};
+
+const SAFETY_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY'];
+
+// A blocked prompt or an empty, safety-terminated candidate is reported as an error
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new GeminiError('SAFETY', 'Request blocked by safety filters. Rephrase the directive.', undefined, String(blockReason));
+  }
+  const candidate = response.candidates?.[0];
+  if (candidate && !candidate.content?.parts?.length && SAFETY_FINISH_REASONS.includes(String(candidate.finishReason))) {
+    throw new GeminiError('SAFETY', 'Response withheld by safety filters.', undefined, String(candidate.finishReason));
+  }
+};
+
+// The API suggests a wait for quota errors as `"retryDelay": "12s"`
+const parseRetryDelay = (error: unknown): number | undefined => {
+  const detail = error instanceof GeminiError ? error.detail : undefined;
+  const match = detail?.match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/);
+  return match ? Math.round(Number(match[1]) * 1000) : undefined;
+};
+
+/**
+ * Wraps a provider so every attempt's latency and outcome reach telemetry, and Live
+ * sessions are followed from connect to close.
+ */
+const timedProvider = (provider: GeminiProvider, label: string): GeminiProvider => {
+  const timed = async <T>(operation: () => Promise<T>): Promise<T> => {
+    const startedAt = Date.now();
+    try {
+      const result = await operation();
+      recordApiCall({ label, durationMs: Date.now() - startedAt, ok: true });
+      return result;
+    } catch (err) {
+      recordApiCall({ label, durationMs: Date.now() - startedAt, ok: false, errorKind: classifyGeminiError(err).kind });
+      throw err;
+    }
+  };
+
+  return {
+    models: {
+      generateContent: (params) => timed(() => provider.models.generateContent(params)),
+      generateVideos: (params) => timed(() => provider.models.generateVideos(params)),
+    },
+    operations: {
+      getVideosOperation: (params) => timed(() => provider.operations.getVideosOperation(params)),
+    },
+    live: {
+      connect: async (params) => {
+        const tracker = trackLiveSession();
+        try {
+          const session = await timed(() => provider.live.connect({
+            ...params,
+            callbacks: {
+              ...params.callbacks,
+              onerror: (event) => {
+                tracker.failed();
+                params.callbacks.onerror?.(event);
+              },
+              onclose: (event) => {
+                tracker.closed();
+                params.callbacks.onclose?.(event);
+              },
+            },
+          }));
+          tracker.opened();
+          return {
+            sendRealtimeInput: (input) => session.sendRealtimeInput(input),
+            sendToolResponse: (response) => session.sendToolResponse(response),
+            close: () => {
+              tracker.closed();
+              session.close();
+            },
+          };
+        } catch (err) {
+          tracker.failed();
+          throw err;
+        }
+      },
+    },
+  };
+};
+
+// Hands the client's signal to the SDK, unless the request already carries its own
+const withSignal = <P extends { config?: { abortSignal?: AbortSignal } }>(params: P, signal?: AbortSignal): P =>
+  signal && !params.config?.abortSignal ? { ...params, config: { ...params.config, abortSignal: signal } } : params;
+
+/**
+ * Wraps a provider so transient failures (rate limits, outages, dropped connections) are
+ * retried with backoff. Every error leaving the wrapper is a classified GeminiError, except
+ * the abort raised once `signal` fires, which is passed through so callers can recognise it.
+ * Starting a Veo render is not idempotent: a dropped response or a 5xx may come after the
+ * server accepted (and billed) it, so it is retried only on rate limits, which are refused
+ * up front. Live handshakes are never retried; the operator reconnects.
+ */
+const retryProvider = (provider: GeminiProvider, label: string, correlationId?: string, signal?: AbortSignal): GeminiProvider => {
+  const call = <T>(operation: () => Promise<T>, retryable: (error: GeminiError) => boolean = error => error.retryable) =>
+    withRetry(
+      async () => {
+        try {
+          return await operation();
+        } catch (err) {
+          if (signal?.aborted) throw err;
+          throw classifyGeminiError(err);
+        }
+      },
+      {
+        signal,
+        shouldRetry: (error) => error instanceof GeminiError && retryable(error),
+        retryAfterMs: parseRetryDelay,
+        onRetry: ({ attempt, maxRetries, delayMs, error }) => {
+          const event: GeminiRetryEvent = { label, attempt, maxRetries, delayMs, error: error as GeminiError, correlationId };
+          retryListeners.forEach(listener => listener(event));
+        },
+      },
+    );
+
+  return {
+    models: {
+      generateContent: (params) => call(async () => {
+        const response = await provider.models.generateContent(withSignal(params, signal));
+        assertNotBlocked(response);
+        return response;
+      }),
+      generateVideos: (params) => call(() => provider.models.generateVideos(withSignal(params, signal)), error => error.kind === 'RATE_LIMITED'),
+    },
+    operations: {
+      getVideosOperation: (params) => call(() => provider.operations.getVideosOperation(withSignal(params, signal))),
+    },
+    live: {
+      connect: (params) => call(() => provider.live.connect(params), () => false),
+    },
+  };
+};
+
+/**
+ * Returns a client bound to the currently selected key, routed through the API proxy when
+ * GEMINI_PROXY_URL is set, or the offline fake when GEMINI_PROVIDER=mock. A new live instance is created per call so a freshly selected key
+ * is always picked up; the fake is shared so its operation state survives between calls.
+ * Calls are timed for telemetry and retried on transient failures; with `usage` set, the client is also metered
+ * and budget-limited (checked once per call, not per retry).
+ */
+export const getGeminiClient = async (options: GeminiClientOptions = {}): Promise<GeminiProvider> => {
+  let provider: GeminiProvider;
+  if (getProviderKind() === 'mock') {
+    if (!mockProvider) mockProvider = createMockProvider();
+    provider = mockProvider;
+  } else if (getProxyUrl()) {
+    provider = new GoogleGenAI({ apiKey: PROXY_KEY_PLACEHOLDER, httpOptions: { baseUrl: getProxyUrl() } });
+  } else {
+    await ensureApiKeySelected(options.onKeyRequest);
+
+    const apiKey = getApiKey();
+    if (!apiKey) {
+      throw new GeminiError('KEY_MISSING', "API Key missing. Please select a key.");
+    }
+    provider = new GoogleGenAI({ apiKey });
+  }
+  const label = options.usage ? `${options.usage.module}/${options.usage.mode}` : 'gemini';
+  const retrying = retryProvider(timedProvider(provider, label), label, options.correlationId, options.signal);
+  return options.usage ? meterProvider(retrying, options.usage) : retrying;
+};
+
+/**
+ * Downloads a generated file (e.g. a Veo video) and returns an object URL for it. The key
+ * travels as a header, or is added by the proxy, so it never appears in the page. The mock
+ * provider's URIs point nowhere, so a short local clip is rendered instead.
+ */
+export const fetchGeneratedMedia = async (uri: string, signal?: AbortSignal): Promise<string> => {
+  if (getProviderKind() === 'mock') return renderMockVideo(new URL(uri).pathname.slice(1), signal);
+
+  let response: Response;
+  const proxyUrl = getProxyUrl();
+  if (proxyUrl) {
+    const source = new URL(uri);
+    response = await fetch(`${proxyUrl}${source.pathname}${source.search}`, { signal });
+  } else {
+    const apiKey = getApiKey();
+    if (!apiKey) throw new GeminiError('KEY_MISSING', "API Key missing. Please select a key.");
+    response = await fetch(uri, { headers: { 'x-goog-api-key': apiKey }, signal });
+  }
+  if (!response.ok) throw new Error(`Media download failed, got status: ${response.status} ${response.statusText}`);
+  return URL.createObjectURL(await response.blob());
+};
+
+// The API's answer when a model name is unknown or not served to this key
+const MODEL_NOT_FOUND = /\bmodels\/[\w.-]+ is not found/i;
+
+const truncate = (text: string, max = 160) => (text.length > max ? `${text.slice(0, max)}...` : text);
+
+const getStatus = (err: unknown, message: string): number | undefined => {
+  const status = (err as { status?: unknown })?.status;
+  if (typeof status === 'number') return status;
+  const match = message.match(/got status: (\d{3})/) || message.match(/"code":\s*(\d{3})/);
+  return match ? Number(match[1]) : undefined;
+};
+
+/**
+ * Maps any thrown value to a GeminiError with an operator-facing message. Pure: no side effects.
+ */
+export const classifyGeminiError = (err: unknown): GeminiError => {
+  if (err instanceof GeminiError) return err;
+
+  const raw = err instanceof Error ? err.message : String(err);
+  const status = getStatus(err, raw);
+  const make = (kind: GeminiErrorKind, message: string) => new GeminiError(kind, message, err, raw);
+
+  // Only these point at the key's access; other 404s (a missing file or operation) are ordinary failures
+  if (raw.includes("Requested entity was not found") || (status === 404 && MODEL_NOT_FOUND.test(raw))) {
+    return make('ENTITY_NOT_FOUND', 'Model or resource not available to the selected key.');
+  }
+  if (status === 404) {
+    return make('REQUEST_FAILED', `Requested resource was not found: ${truncate(raw)}`);
+  }
+  if (status === 401 || status === 403 || /PERMISSION_DENIED|UNAUTHENTICATED|API key not valid/i.test(raw)) {
+    return make('AUTH', 'API key rejected or lacks access to this model.');
+  }
+  if (status === 429 || /RESOURCE_EXHAUSTED|rate limit|quota/i.test(raw)) {
+    return make('RATE_LIMITED', 'Rate limit or quota reached. Wait a moment before retrying.');
+  }
+  if ((status !== undefined && status >= 500) || /\bUNAVAILABLE\b|\bINTERNAL\b|DEADLINE_EXCEEDED|overloaded/i.test(raw)) {
+    return make('UNAVAILABLE', 'Model service is temporarily unavailable.');
+  }
+  if (err instanceof TypeError || /Failed to fetch|NetworkError|fetch failed|ECONNRESET|ETIMEDOUT|network/i.test(raw)) {
+    return make('NETWORK', 'Network link to the model service failed. Check connectivity.');
+  }
+  if (/safety|blocked|PROHIBITED_CONTENT|BLOCKLIST/i.test(raw)) {
+    return make('SAFETY', 'Request blocked by safety filters. Rephrase the directive.');
+  }
+  if (status === 400 || /INVALID_ARGUMENT|FAILED_PRECONDITION/i.test(raw)) {
+    return make('INVALID_ARGUMENT', `Request rejected as invalid: ${truncate(raw)}`);
+  }
+  return make('REQUEST_FAILED', raw);
+};
+
+/**
+ * Normalizes any thrown value into a GeminiError and re-requests authorization
+ * when the selected key can no longer reach the requested resource.
+ */
+export const handleGeminiError = async (err: unknown, options: GeminiErrorOptions = {}): Promise<GeminiError> => {
+  const error = classifyGeminiError(err);
+  if (error.kind === 'ENTITY_NOT_FOUND' && window.aistudio) {
+    options.onReauthorize?.();
+    await window.aistudio.openSelectKey();
+  }
+  return error;
+};
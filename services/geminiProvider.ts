@@ -0,0 +1,43 @@
+import type {
+  GenerateContentParameters,
+  GenerateContentResponse,
+  GenerateVideosParameters,
+  GenerateVideosOperation,
+  LiveConnectParameters,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+  OperationGetParameters,
+  GenerateVideosResponse,
+} from "@google/genai";
+
+export type GeminiProviderKind = 'gemini' | 'mock';
+
+/**
+ * The subset of a live session the modules rely on.
+ * The SDK Session satisfies it structurally, so real and fake sessions are interchangeable.
+ */
+export interface LiveSessionHandle {
+  sendRealtimeInput: (params: LiveSendRealtimeInputParameters) => void;
+  sendToolResponse: (params: LiveSendToolResponseParameters) => void;
+  close: () => void;
+}
+
+/**
+ * The subset of GoogleGenAI used across modules.
+ * Any backend (live API, local fake) must implement this shape.
+ */
+export interface GeminiProvider {
+  models: {
+    generateContent: (params: GenerateContentParameters) => Promise<GenerateContentResponse>;
+    generateVideos: (params: GenerateVideosParameters) => Promise<GenerateVideosOperation>;
+  };
+  operations: {
+    getVideosOperation: (params: OperationGetParameters<GenerateVideosResponse, GenerateVideosOperation>) => Promise<GenerateVideosOperation>;
+  };
+  live: {
+    connect: (params: LiveConnectParameters) => Promise<LiveSessionHandle>;
+  };
+}
+
+export const getProviderKind = (): GeminiProviderKind =>
+  process.env.GEMINI_PROVIDER === 'mock' ? 'mock' : 'gemini';
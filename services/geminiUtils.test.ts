@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import {
+  bytesToInt16,
+  createResampler,
+  createWavHeader,
+  createWavWriter,
+  floatToInt16,
+  int16ToBytes,
+  int16ToFloat,
+  resample,
+} from './geminiUtils';
+
+const tone = (frequency: number, sampleRate: number, length: number) =>
+  Float32Array.from({ length }, (_, i) => Math.sin((2 * Math.PI * frequency * i) / sampleRate));
+
+// Peak amplitude estimated from RMS, away from the edges where the filter ramps in and out
+const steadyAmplitude = (samples: Float32Array) => {
+  const middle = samples.subarray(Math.floor(samples.length / 4), Math.floor((samples.length * 3) / 4));
+  const rms = Math.sqrt(middle.reduce((sum, s) => sum + s * s, 0) / middle.length);
+  return rms * Math.SQRT2;
+};
+
+const concat = (parts: Float32Array[]) => {
+  const out = new Float32Array(parts.reduce((total, part) => total + part.length, 0));
+  let at = 0;
+  parts.forEach(part => {
+    out.set(part, at);
+    at += part.length;
+  });
+  return out;
+};
+
+describe('floatToInt16', () => {
+  it('maps full scale to the asymmetric int16 limits', () => {
+    expect(Array.from(floatToInt16(Float32Array.from([0, 1, -1, 0.5, -0.5])))).toEqual([0, 32767, -32768, 16384, -16384]);
+  });
+
+  it('clips values beyond full scale instead of wrapping', () => {
+    expect(Array.from(floatToInt16(Float32Array.from([1.5, -2, 100, -100])))).toEqual([32767, -32768, 32767, -32768]);
+  });
+
+  it('treats NaN as silence', () => {
+    expect(Array.from(floatToInt16(Float32Array.from([NaN])))).toEqual([0]);
+  });
+});
+
+describe('int16 <-> float', () => {
+  // Negative values come back exactly; positive ones are scaled by 32767/32768 and may land one step low
+  it('round-trips every int16 value to within one step', () => {
+    const all = Int16Array.from({ length: 65536 }, (_, i) => i - 32768);
+    const back = floatToInt16(int16ToFloat(all));
+    expect(back.every((value, i) => (all[i] <= 0 ? value === all[i] : all[i] - value <= 1 && value <= all[i]))).toBe(true);
+  });
+
+  it('round-trips through little-endian bytes', () => {
+    const samples = Int16Array.from([0, 1, -1, 32767, -32768, 258]);
+    const bytes = int16ToBytes(samples);
+    expect(Array.from(bytes.subarray(0, 4))).toEqual([0, 0, 1, 0]);
+    expect(Array.from(bytes.subarray(10, 12))).toEqual([0x02, 0x01]);
+    expect(Array.from(bytesToInt16(bytes))).toEqual(Array.from(samples));
+  });
+
+  it('reads from an unaligned view and ignores a trailing odd byte', () => {
+    const raw = Uint8Array.from([0xff, 0x01, 0x00, 0xff, 0x7f, 0xaa]);
+    expect(Array.from(bytesToInt16(raw.subarray(1)))).toEqual([1, 32767]);
+  });
+});
+
+describe('resample', () => {
+  it('returns the input untouched when the rates match', () => {
+    const samples = tone(440, 16000, 100);
+    expect(resample(samples, 16000, 16000)).toBe(samples);
+  });
+
+  it('produces one output sample per output period for 48k -> 16k', () => {
+    expect(resample(new Float32Array(4800), 48000, 16000).length).toBe(1600);
+    expect(resample(new Float32Array(4801), 48000, 16000).length).toBe(1601);
+  });
+
+  it('produces one output sample per output period for 16k -> 24k', () => {
+    expect(resample(new Float32Array(1600), 16000, 24000).length).toBe(2400);
+  });
+
+  it('keeps a 1kHz tone at unity gain from 48k to 16k', () => {
+    expect(steadyAmplitude(resample(tone(1000, 48000, 9600), 48000, 16000))).toBeCloseTo(1, 2);
+  });
+
+  it('keeps a 1kHz tone at unity gain from 16k to 24k', () => {
+    expect(steadyAmplitude(resample(tone(1000, 16000, 3200), 16000, 24000))).toBeCloseTo(1, 2);
+  });
+
+  it('rejects a tone above the new Nyquist frequency when downsampling', () => {
+    // 12kHz would alias to 4kHz at 16kHz
+    expect(steadyAmplitude(resample(tone(12000, 48000, 9600), 48000, 16000))).toBeLessThan(0.01);
+  });
+
+  it('gives the same output for a chunked stream as for one-shot resampling', () => {
+    const input = tone(700, 48000, 5000);
+    const resampler = createResampler(48000, 16000);
+    const parts: Float32Array[] = [];
+    for (let at = 0, size = 1; at < input.length; at += size, size = (size * 7) % 513 + 1) {
+      parts.push(resampler.process(input.subarray(at, at + size)));
+    }
+    parts.push(resampler.flush());
+    const streamed = concat(parts);
+    const oneShot = resample(input, 48000, 16000);
+    expect(streamed.length).toBe(oneShot.length);
+    expect(streamed.every((value, i) => Math.abs(value - oneShot[i]) < 1e-6)).toBe(true);
+  });
+});
+
+describe('WAV encoding', () => {
+  const headerBytes = (header: ArrayBuffer) => Array.from(new Uint8Array(header));
+  const ascii = (text: string) => Array.from(text, char => char.charCodeAt(0));
+  const u32 = (value: number) => [value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff, (value >>> 24) & 0xff];
+  const u16 = (value: number) => [value & 0xff, (value >> 8) & 0xff];
+
+  it('writes the mono 24kHz header', () => {
+    expect(headerBytes(createWavHeader(480, 24000))).toEqual([
+      ...ascii('RIFF'), ...u32(36 + 480), ...ascii('WAVE'),
+      ...ascii('fmt '), ...u32(16), ...u16(1), ...u16(1), ...u32(24000), ...u32(48000), ...u16(2), ...u16(16),
+      ...ascii('data'), ...u32(480),
+    ]);
+  });
+
+  it('writes the stereo 48kHz header', () => {
+    expect(headerBytes(createWavHeader(1000, 48000, 2))).toEqual([
+      ...ascii('RIFF'), ...u32(36 + 1000), ...ascii('WAVE'),
+      ...ascii('fmt '), ...u32(16), ...u16(1), ...u16(2), ...u32(48000), ...u32(192000), ...u16(4), ...u16(16),
+      ...ascii('data'), ...u32(1000),
+    ]);
+  });
+
+  it('interleaves stereo channels after the header', async () => {
+    const writer = createWavWriter(48000, 2);
+    writer.write([Float32Array.from([1, 0]), Float32Array.from([-1, 0.5])]);
+    expect(writer.durationSec).toBeCloseTo(2 / 48000);
+    const bytes = new Uint8Array(await writer.finish().arrayBuffer());
+    expect(bytes.length).toBe(44 + 8);
+    expect(Array.from(bytes.subarray(40, 44))).toEqual(u32(8));
+    expect(Array.from(bytesToInt16(bytes.subarray(44)))).toEqual([32767, -32768, 0, 16384]);
+  });
+});
@@ -1,35 +1,8 @@
-export const fileToGenerativePart = async (file: File): Promise<{ inlineData: { data: string; mimeType: string } }> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      const base64String = reader.result as string;
-      const base64Data = base64String.split(',')[1];
-      resolve({
-        inlineData: {
-          data: base64Data,
-          mimeType: file.type,
-        },
-      });
-    };
-    reader.onerror = reject;
-    reader.readAsDataURL(file);
-  });
-};
+// --- PCM toolkit ---
 
-export const blobToBase64 = (blob: Blob): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      const base64String = reader.result as string;
-      const base64Data = base64String.split(',')[1];
-      resolve(base64Data);
-    };
-    reader.onerror = reject;
-    reader.readAsDataURL(blob);
-  });
-};
+export const LIVE_INPUT_RATE = 16000;  // The Live API expects 16kHz mono input
+export const LIVE_OUTPUT_RATE = 24000; // Live and TTS audio is returned at 24kHz mono
 
-// Simple audio encoding/decoding for Live API
 export function decodeAudio(base64: string) {
   const binaryString = atob(base64);
   const len = binaryString.length;
@@ -40,93 +13,278 @@ export function decodeAudio(base64: string) {
   return bytes;
 }
 
+// Bytes per String.fromCharCode call; large enough to be fast, small enough for the argument limit
+const BASE64_CHUNK = 0x8000;
+
+export function encodeAudio(bytes: Uint8Array) {
+  const parts: string[] = [];
+  for (let i = 0; i < bytes.byteLength; i += BASE64_CHUNK) {
+    parts.push(String.fromCharCode.apply(null, bytes.subarray(i, i + BASE64_CHUNK) as unknown as number[]));
+  }
+  return btoa(parts.join(''));
+}
+
+/**
+ * Converts float samples to 16-bit PCM. Values outside [-1, 1] are clipped rather than
+ * wrapped, and the asymmetric int16 range is used in full.
+ */
+export function floatToInt16(samples: Float32Array): Int16Array {
+  const out = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i] || 0));
+    out[i] = s < 0 ? Math.round(s * 0x8000) : Math.round(s * 0x7FFF);
+  }
+  return out;
+}
+
+export function int16ToFloat(samples: Int16Array): Float32Array {
+  const out = new Float32Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    out[i] = samples[i] / 0x8000;
+  }
+  return out;
+}
+
+/**
+ * Reads little-endian 16-bit PCM from raw bytes, whatever the view's offset or alignment.
+ * A trailing odd byte is ignored.
+ */
+export function bytesToInt16(bytes: Uint8Array): Int16Array {
+  const count = bytes.byteLength >> 1;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, count * 2);
+  const out = new Int16Array(count);
+  for (let i = 0; i < count; i++) {
+    out[i] = view.getInt16(i * 2, true);
+  }
+  return out;
+}
+
+export function int16ToBytes(samples: Int16Array): Uint8Array {
+  const out = new Uint8Array(samples.length * 2);
+  const view = new DataView(out.buffer);
+  for (let i = 0; i < samples.length; i++) {
+    view.setInt16(i * 2, samples[i], true);
+  }
+  return out;
+}
+
+export function interleave(channels: Float32Array[]): Float32Array {
+  if (channels.length === 1) return channels[0];
+  const frames = Math.min(...channels.map(channel => channel.length));
+  const out = new Float32Array(frames * channels.length);
+  for (let i = 0; i < frames; i++) {
+    for (let c = 0; c < channels.length; c++) {
+      out[i * channels.length + c] = channels[c][i];
+    }
+  }
+  return out;
+}
+
+export function deinterleave<T extends Float32Array | Int16Array>(data: T, numChannels: number): T[] {
+  if (numChannels === 1) return [data];
+  const frames = Math.floor(data.length / numChannels);
+  const channels: T[] = [];
+  for (let c = 0; c < numChannels; c++) {
+    const channel = new (data.constructor as { new (length: number): T })(frames);
+    for (let i = 0; i < frames; i++) {
+      channel[i] = data[i * numChannels + c];
+    }
+    channels.push(channel);
+  }
+  return channels;
+}
+
+export function downmixToMono(channels: Float32Array[]): Float32Array {
+  if (channels.length === 1) return channels[0];
+  const frames = Math.min(...channels.map(channel => channel.length));
+  const out = new Float32Array(frames);
+  for (let i = 0; i < frames; i++) {
+    let sum = 0;
+    for (let c = 0; c < channels.length; c++) sum += channels[c][i];
+    out[i] = sum / channels.length;
+  }
+  return out;
+}
+
+// Zero crossings of the sinc kernel on each side; more is sharper but costs more per sample
+const RESAMPLER_ZERO_CROSSINGS = 16;
+
+const sinc = (x: number) => (x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x));
+const blackman = (t: number) => 0.42 + 0.5 * Math.cos(Math.PI * t) + 0.08 * Math.cos(2 * Math.PI * t);
+
+export interface Resampler {
+  process: (chunk: Float32Array) => Float32Array;
+  flush: () => Float32Array; // Emits the samples still held back for look-ahead
+}
+
+/**
+ * Streaming band-limited resampler (Blackman-windowed sinc). When downsampling, the kernel
+ * is widened to filter out content above the new Nyquist frequency. State carries across
+ * chunks, so frames of any size can be fed without seams.
+ */
+export function createResampler(fromRate: number, toRate: number): Resampler {
+  if (fromRate === toRate) {
+    return { process: (chunk) => chunk, flush: () => new Float32Array(0) };
+  }
+
+  const step = fromRate / toRate;              // Input samples per output sample
+  const cutoff = Math.min(1, toRate / fromRate); // Fraction of the input Nyquist kept
+  const halfWidth = Math.ceil(RESAMPLER_ZERO_CROSSINGS / cutoff);
+
+  // Input history; buffer[0] is input sample `offset`. Zero history stands in for time before the stream.
+  let buffer = new Float32Array(halfWidth);
+  let offset = -halfWidth;
+  let emitted = 0; // Output samples produced; output n sits at input-time n * step
+
+  const run = (chunk: Float32Array) => {
+    const joined = new Float32Array(buffer.length + chunk.length);
+    joined.set(buffer);
+    joined.set(chunk, buffer.length);
+    buffer = joined;
+
+    const end = offset + buffer.length; // One past the last input index held
+    const output: number[] = [];
+    let position = emitted * step;
+    while (Math.floor(position) + halfWidth < end) {
+      const center = Math.floor(position);
+      let sum = 0;
+      for (let k = center - halfWidth + 1; k <= center + halfWidth; k++) {
+        const distance = position - k;
+        sum += buffer[k - offset] * cutoff * sinc(distance * cutoff) * blackman(distance / halfWidth);
+      }
+      output.push(sum);
+      emitted++;
+      position = emitted * step;
+    }
+
+    const keepFrom = Math.floor(position) - halfWidth + 1;
+    if (keepFrom > offset) {
+      buffer = buffer.slice(keepFrom - offset);
+      offset = keepFrom;
+    }
+    return Float32Array.from(output);
+  };
+
+  return {
+    process: run,
+    // Zero padding supplies the look-ahead for the final samples; every position before the end is emitted
+    flush: () => run(new Float32Array(halfWidth)),
+  };
+}
+
+/**
+ * Resamples a complete signal. For live streams use createResampler so state is kept between frames.
+ */
+export function resample(samples: Float32Array, fromRate: number, toRate: number): Float32Array {
+  if (fromRate === toRate) return samples;
+  const resampler = createResampler(fromRate, toRate);
+  const head = resampler.process(samples);
+  const tail = resampler.flush();
+  const out = new Float32Array(head.length + tail.length);
+  out.set(head);
+  out.set(tail, head.length);
+  return out;
+}
+
+/**
+ * Packs float samples as a Live API audio part. Samples are clipped, and the rate label
+ * always matches the data.
+ */
+export function createPcmBlob(data: Float32Array, sampleRate: number = LIVE_INPUT_RATE): { data: string; mimeType: string } {
+  return {
+    data: encodeAudio(int16ToBytes(floatToInt16(data))),
+    mimeType: `audio/pcm;rate=${sampleRate}`,
+  };
+}
+
+/**
+ * Wraps raw 16-bit PCM (interleaved when multi-channel) in an AudioBuffer at the data's own
+ * rate; the context resamples on playback, so it works whatever rate the context runs at.
+ */
 export async function decodeAudioData(
   data: Uint8Array,
-  ctx: AudioContext,
+  ctx: BaseAudioContext,
   sampleRate: number,
   numChannels: number,
 ): Promise<AudioBuffer> {
-  const dataInt16 = new Int16Array(data.buffer);
-  const frameCount = dataInt16.length / numChannels;
-  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
-
-  for (let channel = 0; channel < numChannels; channel++) {
-    const channelData = buffer.getChannelData(channel);
-    for (let i = 0; i < frameCount; i++) {
-      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
-    }
-  }
+  return createAudioBuffer(deinterleave(int16ToFloat(bytesToInt16(data)), numChannels), ctx, sampleRate);
+}
+
+/**
+ * Copies decoded channels into an AudioBuffer at their own sample rate.
+ */
+export function createAudioBuffer(channels: Float32Array[], ctx: BaseAudioContext, sampleRate: number): AudioBuffer {
+  const buffer = ctx.createBuffer(channels.length, Math.max(1, channels[0].length), sampleRate);
+  channels.forEach((channel, index) => buffer.copyToChannel(channel, index));
   return buffer;
 }
 
-export function encodeAudio(bytes: Uint8Array) {
-  let binary = '';
-  const len = bytes.byteLength;
-  for (let i = 0; i < len; i++) {
-    binary += String.fromCharCode(bytes[i]);
+const writeString = (view: DataView, offset: number, text: string) => {
+  for (let i = 0; i < text.length; i++) {
+    view.setUint8(offset + i, text.charCodeAt(i));
   }
-  return btoa(binary);
+};
+
+/**
+ * Builds the 44-byte header of a 16-bit PCM WAV file.
+ */
+export function createWavHeader(dataBytes: number, sampleRate: number, numChannels: number = 1): ArrayBuffer {
+  const header = new ArrayBuffer(44);
+  const view = new DataView(header);
+  const blockAlign = numChannels * 2;
+  writeString(view, 0, 'RIFF');
+  view.setUint32(4, 36 + dataBytes, true);
+  writeString(view, 8, 'WAVE');
+  writeString(view, 12, 'fmt ');
+  view.setUint32(16, 16, true);            // fmt chunk length
+  view.setUint16(20, 1, true);             // PCM
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true); // Byte rate
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, 16, true);            // Bits per sample
+  writeString(view, 36, 'data');
+  view.setUint32(40, dataBytes, true);
+  return header;
 }
 
-export function createPcmBlob(data: Float32Array): { data: string; mimeType: string } {
-  const l = data.length;
-  const int16 = new Int16Array(l);
-  for (let i = 0; i < l; i++) {
-    int16[i] = data[i] * 32768;
-  }
+export interface WavWriter {
+  write: (channels: Float32Array | Float32Array[]) => void;
+  readonly durationSec: number;
+  finish: () => Blob;
+}
+
+/**
+ * Accumulates audio as 16-bit PCM while it is being captured, so long sessions hold half
+ * the memory of float buffers and no final concatenation pass is needed.
+ */
+export function createWavWriter(sampleRate: number, numChannels: number = 1): WavWriter {
+  let chunks: Uint8Array[] = [];
+  let dataBytes = 0;
   return {
-    data: encodeAudio(new Uint8Array(int16.buffer)),
-    mimeType: 'audio/pcm;rate=16000',
+    write: (channels) => {
+      const frames = Array.isArray(channels) ? interleave(channels) : channels;
+      const bytes = int16ToBytes(floatToInt16(frames));
+      chunks.push(bytes);
+      dataBytes += bytes.byteLength;
+    },
+    get durationSec() {
+      return dataBytes / (sampleRate * numChannels * 2);
+    },
+    finish: () => {
+      const blob = new Blob([createWavHeader(dataBytes, sampleRate, numChannels), ...chunks], { type: 'audio/wav' });
+      chunks = [];
+      dataBytes = 0;
+      return blob;
+    },
   };
 }
 
 /**
- * Encodes Float32 PCM data into a WAV file Blob.
+ * Encodes float PCM (mono, or one array per channel) into a WAV file Blob.
  */
-export function encodeWAV(samples: Float32Array, sampleRate: number = 24000) {
-    const buffer = new ArrayBuffer(44 + samples.length * 2);
-    const view = new DataView(buffer);
-
-    const writeString = (view: DataView, offset: number, string: string) => {
-        for (let i = 0; i < string.length; i++) {
-            view.setUint8(offset + i, string.charCodeAt(i));
-        }
-    };
-
-    /* RIFF identifier */
-    writeString(view, 0, 'RIFF');
-    /* RIFF chunk length */
-    view.setUint32(4, 36 + samples.length * 2, true);
-    /* RIFF type */
-    writeString(view, 8, 'WAVE');
-    /* format chunk identifier */
-    writeString(view, 12, 'fmt ');
-    /* format chunk length */
-    view.setUint32(16, 16, true);
-    /* sample format (raw) */
-    view.setUint16(20, 1, true);
-    /* channel count */
-    view.setUint16(22, 1, true);
-    /* sample rate */
-    view.setUint32(24, sampleRate, true);
-    /* byte rate (sample rate * block align) */
-    view.setUint32(28, sampleRate * 2, true);
-    /* block align (channel count * bytes per sample) */
-    view.setUint16(32, 2, true);
-    /* bits per sample */
-    view.setUint16(34, 16, true);
-    /* data chunk identifier */
-    writeString(view, 36, 'data');
-    /* data chunk length */
-    view.setUint32(40, samples.length * 2, true);
-
-    const length = samples.length;
-    let offset = 44;
-    for (let i = 0; i < length; i++) {
-        let s = Math.max(-1, Math.min(1, samples[i]));
-        view.setInt16(offset, s < 0 ? s * 0x8000 : s * 0x7FFF, true);
-        offset += 2;
-    }
-
-    return new Blob([view], { type: 'audio/wav' });
-}
\ No newline at end of file
+export function encodeWAV(samples: Float32Array | Float32Array[], sampleRate: number = LIVE_OUTPUT_RATE) {
+  const writer = createWavWriter(sampleRate, Array.isArray(samples) ? samples.length : 1);
+  writer.write(samples);
+  return writer.finish();
+}
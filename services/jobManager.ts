@@ -0,0 +1,201 @@
+import { useEffect, useState } from 'react';
+import { JobRecord, ModuleView } from '../types';
+
+export const MAX_CONCURRENT_JOBS = 2;
+const FINISHED_JOB_LIMIT = 30;
+
+/**
+ * Handed to a running task. Tasks should pass `signal` to anything that waits
+ * and report progress whenever they learn something new.
+ */
+export interface JobContext {
+  signal: AbortSignal;
+  setProgress: (progress: number | null, detail?: string) => void;
+}
+
+export interface JobOptions<T> {
+  label: string;
+  source: string;
+  view: ModuleView;
+  run: (context: JobContext) => Promise<T>;
+  onSuccess?: (result: T) => void;
+  onError?: (error: Error) => void;
+}
+
+/**
+ * Raised inside a task when its job was cancelled. The manager treats it as a
+ * cancellation rather than a failure.
+ */
+export class JobCancelledError extends Error {
+  constructor() {
+    super('Job cancelled');
+    this.name = 'JobCancelledError';
+  }
+}
+
+type JobsListener = (jobs: JobRecord[]) => void;
+
+let jobs: JobRecord[] = [];
+const tasks = new Map<string, JobOptions<unknown>>();
+const controllers = new Map<string, AbortController>();
+const listeners = new Set<JobsListener>();
+
+const isActive = (job: JobRecord) => job.status === 'queued' || job.status === 'running';
+
+const emit = () => {
+  listeners.forEach(listener => listener(jobs));
+};
+
+const updateJob = (id: string, patch: Partial<JobRecord>) => {
+  jobs = jobs.map(job => (job.id === id ? { ...job, ...patch } : job));
+  emit();
+};
+
+const findJob = (id: string) => jobs.find(job => job.id === id);
+
+// Forget the oldest finished jobs so the list (and the task closures) stay bounded
+const pruneFinished = () => {
+  const finished = jobs.filter(job => !isActive(job));
+  if (finished.length <= FINISHED_JOB_LIMIT) return;
+  const drop = new Set(finished.slice(0, finished.length - FINISHED_JOB_LIMIT).map(job => job.id));
+  drop.forEach(id => tasks.delete(id));
+  jobs = jobs.filter(job => !drop.has(job.id));
+  emit();
+};
+
+const runJob = async (id: string) => {
+  const task = tasks.get(id);
+  if (!task) return;
+  const controller = new AbortController();
+  controllers.set(id, controller);
+  updateJob(id, { status: 'running', startedAt: Date.now(), progress: null, detail: undefined, error: undefined });
+
+  const context: JobContext = {
+    signal: controller.signal,
+    setProgress: (progress, detail) => {
+      if (controller.signal.aborted) return;
+      updateJob(id, { progress: progress === null ? null : Math.min(1, Math.max(0, progress)), detail });
+    },
+  };
+
+  try {
+    const result = await task.run(context);
+    if (controller.signal.aborted) return;
+    updateJob(id, { status: 'succeeded', progress: 1, finishedAt: Date.now() });
+    task.onSuccess?.(result);
+  } catch (err) {
+    if (controller.signal.aborted || err instanceof JobCancelledError) return;
+    const error = err instanceof Error ? err : new Error(String(err));
+    updateJob(id, { status: 'failed', error: error.message, finishedAt: Date.now() });
+    task.onError?.(error);
+  } finally {
+    // A cancelled run can settle after its retry started; leave the newer controller alone
+    if (controllers.get(id) === controller) controllers.delete(id);
+    pruneFinished();
+    pump();
+  }
+};
+
+// Start queued jobs, oldest first, while there is capacity
+const pump = () => {
+  let running = jobs.filter(job => job.status === 'running').length;
+  for (const job of jobs) {
+    if (running >= MAX_CONCURRENT_JOBS) break;
+    if (job.status !== 'queued') continue;
+    running++;
+    runJob(job.id);
+  }
+};
+
+/**
+ * Queues a long-running task and returns its job id. The task keeps running when
+ * the operator switches modules; results arrive through onSuccess/onError.
+ */
+export const enqueueJob = <T>(options: JobOptions<T>): string => {
+  const id = `job-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+  tasks.set(id, options as JobOptions<unknown>); // Each task only ever receives its own result
+  jobs = [...jobs, {
+    id,
+    label: options.label,
+    source: options.source,
+    view: options.view,
+    status: 'queued',
+    progress: null,
+    attempts: 1,
+    createdAt: Date.now(),
+  }];
+  emit();
+  pump();
+  return id;
+};
+
+export const cancelJob = (id: string) => {
+  const job = findJob(id);
+  if (!job || !isActive(job)) return;
+  controllers.get(id)?.abort();
+  updateJob(id, { status: 'cancelled', finishedAt: Date.now() });
+  pump();
+};
+
+export const cancelAllJobs = () => {
+  jobs.filter(isActive).forEach(job => cancelJob(job.id));
+};
+
+/**
+ * Re-queues a failed or cancelled job with its original task and callbacks.
+ */
+export const retryJob = (id: string) => {
+  const job = findJob(id);
+  if (!job || isActive(job) || job.status === 'succeeded' || !tasks.has(id)) return;
+  updateJob(id, {
+    status: 'queued',
+    attempts: job.attempts + 1,
+    progress: null,
+    detail: undefined,
+    error: undefined,
+    startedAt: undefined,
+    finishedAt: undefined,
+  });
+  pump();
+};
+
+export const clearFinishedJobs = () => {
+  jobs.filter(job => !isActive(job)).forEach(job => tasks.delete(job.id));
+  jobs = jobs.filter(isActive);
+  emit();
+};
+
+export const getJobs = () => jobs;
+
+export const subscribeJobs = (listener: JobsListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const useJobs = (): JobRecord[] => {
+  const [snapshot, setSnapshot] = useState(getJobs);
+  useEffect(() => subscribeJobs(setSnapshot), []);
+  return snapshot;
+};
+
+/**
+ * Resolves after `ms`, or rejects with JobCancelledError as soon as the job is cancelled.
+ */
+export const waitForJob = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new JobCancelledError());
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new JobCancelledError());
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
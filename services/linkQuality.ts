@@ -0,0 +1,124 @@
+export type LinkQuality = 'WEAK' | 'STABLE' | 'OPTIMAL';
+
+export interface LinkMetrics {
+  responseLatencyMs: number | null; // End of operator speech to first reply audio, latest turn
+  jitterMs: number;                 // Smoothed variation in reply chunk arrival
+  underruns: number;                // Playback ran dry mid-reply, within the window
+  underrunMs: number;               // Total silence those underruns caused
+  backlog: number;                  // Mic chunks encoded or queued but not yet sent
+  errors: number;                   // Socket errors within the error window
+}
+
+export interface LinkAssessment {
+  quality: LinkQuality;
+  metrics: LinkMetrics;
+  reasons: string[]; // Why the quality is below OPTIMAL
+}
+
+export interface LinkQualityMonitor {
+  micFrame: (frame: Float32Array, now?: number) => void;
+  audioChunk: (underrunMs: number, now?: number) => void;
+  turnEnded: () => void;
+  sendQueued: () => void;
+  sendSettled: () => void;
+  error: (now?: number) => void;
+  assess: (now?: number) => LinkAssessment;
+}
+
+const WINDOW_MS = 10000;
+const ERROR_WINDOW_MS = 30000;
+const SPEECH_RMS = 0.02;          // Mic level treated as speech
+const JITTER_SMOOTHING = 1 / 8;   // RFC 3550 uses 1/16; replies are short, so react faster
+
+// [stable, weak] thresholds; crossing the first drops to STABLE, the second to WEAK
+const LATENCY_LIMITS_MS = [1500, 3000];
+const JITTER_LIMITS_MS = [150, 400];
+const UNDERRUN_LIMITS = [1, 3];
+const BACKLOG_LIMITS = [8, 24];   // Frames of 32ms at 16kHz
+
+const RANK: Record<LinkQuality, number> = { WEAK: 0, STABLE: 1, OPTIMAL: 2 };
+
+export const isQualityDrop = (from: LinkQuality, to: LinkQuality) => RANK[to] < RANK[from];
+
+/**
+ * Measures a Live session from what the client can observe: how long replies take after
+ * the operator stops speaking, whether reply audio arrives smoothly enough to play without
+ * gaps, whether outgoing audio is piling up, and socket errors.
+ */
+export const createLinkQualityMonitor = (): LinkQualityMonitor => {
+  let lastSpeechAt = 0;
+  let turnEndedAt = 0;
+  let inTurn = false;
+  let lastChunkAt = 0;
+  let lastInterval: number | null = null;
+  let jitterMs = 0;
+  let responseLatencyMs: number | null = null;
+  let backlog = 0;
+  let underruns: { time: number; ms: number }[] = [];
+  let errors: number[] = [];
+
+  return {
+    micFrame: (frame, now = Date.now()) => {
+      let sum = 0;
+      for (let i = 0; i < frame.length; i++) sum += frame[i] * frame[i];
+      if (Math.sqrt(sum / frame.length) >= SPEECH_RMS) lastSpeechAt = now;
+    },
+    audioChunk: (underrunMs, now = Date.now()) => {
+      if (!inTurn) {
+        inTurn = true;
+        lastInterval = null;
+        // Only replies to speech count; the model may also talk after a tool call
+        if (lastSpeechAt > turnEndedAt) responseLatencyMs = now - lastSpeechAt;
+      } else {
+        const interval = now - lastChunkAt;
+        if (lastInterval !== null) jitterMs += (Math.abs(interval - lastInterval) - jitterMs) * JITTER_SMOOTHING;
+        lastInterval = interval;
+        if (underrunMs > 0) underruns.push({ time: now, ms: underrunMs });
+      }
+      lastChunkAt = now;
+    },
+    turnEnded: () => {
+      inTurn = false;
+      turnEndedAt = Date.now();
+    },
+    sendQueued: () => {
+      backlog++;
+    },
+    sendSettled: () => {
+      backlog = Math.max(0, backlog - 1);
+    },
+    error: (now = Date.now()) => {
+      errors.push(now);
+    },
+    assess: (now = Date.now()) => {
+      underruns = underruns.filter(entry => entry.time >= now - WINDOW_MS);
+      errors = errors.filter(time => time >= now - ERROR_WINDOW_MS);
+      const metrics: LinkMetrics = {
+        responseLatencyMs,
+        jitterMs: Math.round(jitterMs),
+        underruns: underruns.length,
+        underrunMs: Math.round(underruns.reduce((total, entry) => total + entry.ms, 0)),
+        backlog,
+        errors: errors.length,
+      };
+
+      let quality: LinkQuality = 'OPTIMAL';
+      const reasons: string[] = [];
+      const check = (value: number | null, limits: number[], describe: string) => {
+        if (value === null || value < limits[0]) return;
+        const level: LinkQuality = value >= limits[1] ? 'WEAK' : 'STABLE';
+        if (RANK[level] < RANK[quality]) quality = level;
+        reasons.push(describe);
+      };
+      check(metrics.responseLatencyMs, LATENCY_LIMITS_MS, `response latency ${metrics.responseLatencyMs}ms`);
+      check(metrics.jitterMs, JITTER_LIMITS_MS, `jitter ${metrics.jitterMs}ms`);
+      check(metrics.underruns, UNDERRUN_LIMITS, `${metrics.underruns} playback underruns (${metrics.underrunMs}ms silent)`);
+      check(metrics.backlog, BACKLOG_LIMITS, `${metrics.backlog} mic chunks backed up`);
+      if (metrics.errors > 0) {
+        quality = 'WEAK';
+        reasons.push(`${metrics.errors} socket errors`);
+      }
+      return { quality, metrics, reasons };
+    },
+  };
+};
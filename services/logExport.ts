@@ -0,0 +1,189 @@
+import { LogEntry } from '../types';
+
+export type LogExportFormat = 'ndjson' | 'csv';
+
+export class LogImportError extends Error {
+  constructor(reason: string) {
+    super(reason);
+    this.name = 'LogImportError';
+  }
+}
+
+const LOG_TYPES: LogEntry['type'][] = ['info', 'success', 'warning', 'error'];
+
+// Files bigger than a full ring at the largest capacity are not session exports
+const MAX_IMPORT_ENTRIES = 50000;
+
+// --- Export ---
+
+const CSV_COLUMNS: (keyof LogEntry)[] = [
+  'time', 'timestamp', 'source', 'type', 'operator', 'message',
+  'correlationId', 'durationMs', 'model', 'data', 'id',
+];
+
+const csvCell = (value: unknown) => {
+  const text = String(value ?? '');
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * One JSON object per line, every field preserved.
+ */
+export const logsToNdjson = (entries: LogEntry[]) => entries.map(entry => JSON.stringify(entry)).join('\n');
+
+/**
+ * Spreadsheet-friendly export. `time` is written as ISO 8601 and `data` as a JSON cell,
+ * so the file imports back without loss.
+ */
+export const logsToCsv = (entries: LogEntry[]) => [
+  CSV_COLUMNS.join(','),
+  ...entries.map(entry => CSV_COLUMNS.map(column =>
+    column === 'time' ? new Date(entry.time).toISOString() :
+    column === 'data' ? (entry.data ? csvCell(JSON.stringify(entry.data)) : '') :
+    csvCell(entry[column])
+  ).join(',')),
+].join('\n');
+
+export const exportLogs = (entries: LogEntry[], format: LogExportFormat) =>
+  format === 'csv' ? logsToCsv(entries) : logsToNdjson(entries);
+
+export const logExportFileName = (format: LogExportFormat, date = new Date()) =>
+  `meli_logs_${date.toISOString().replace(/[:.]/g, '-').slice(0, 19)}.${format}`;
+
+// --- Import ---
+
+const optionalText = (value: unknown, field: string, where: string) => {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value !== 'string') throw new LogImportError(`${where}: ${field} must be text`);
+  return value;
+};
+
+/**
+ * Validates one imported record. Anything a replay renders is checked, so a hand-edited
+ * file cannot inject unexpected shapes into the console.
+ */
+const parseLogEntry = (value: unknown, where: string): LogEntry => {
+  if (typeof value !== 'object' || value === null) throw new LogImportError(`${where}: entry must be an object`);
+  const raw = value as Record<string, unknown>;
+
+  const time = typeof raw.time === 'string' ? Date.parse(raw.time) : raw.time;
+  if (typeof time !== 'number' || !Number.isFinite(time)) throw new LogImportError(`${where}: time is missing or invalid`);
+  if (typeof raw.source !== 'string' || !raw.source) throw new LogImportError(`${where}: source is required`);
+  if (typeof raw.message !== 'string') throw new LogImportError(`${where}: message is required`);
+  if (!LOG_TYPES.includes(raw.type as LogEntry['type'])) throw new LogImportError(`${where}: unknown type "${String(raw.type).slice(0, 16)}"`);
+
+  const durationMs = raw.durationMs === undefined || raw.durationMs === '' ? undefined : Number(raw.durationMs);
+  if (durationMs !== undefined && (!Number.isFinite(durationMs) || durationMs < 0)) {
+    throw new LogImportError(`${where}: durationMs must be a non-negative number`);
+  }
+
+  let data = raw.data;
+  if (typeof data === 'string' && data) {
+    try {
+      data = JSON.parse(data);
+    } catch (e) {
+      throw new LogImportError(`${where}: data is not valid JSON`);
+    }
+  }
+  if (data === '' || data === null) data = undefined;
+  if (data !== undefined && (typeof data !== 'object' || Array.isArray(data))) {
+    throw new LogImportError(`${where}: data must be an object`);
+  }
+
+  return {
+    id: optionalText(raw.id, 'id', where) ?? `${where}-${time}`,
+    timestamp: optionalText(raw.timestamp, 'timestamp', where) ?? new Date(time).toLocaleTimeString(),
+    source: raw.source,
+    message: raw.message,
+    type: raw.type as LogEntry['type'],
+    operator: optionalText(raw.operator, 'operator', where),
+    time,
+    correlationId: optionalText(raw.correlationId, 'correlationId', where),
+    durationMs,
+    model: optionalText(raw.model, 'model', where),
+    data: data as Record<string, unknown> | undefined,
+  };
+};
+
+/**
+ * Splits CSV text into rows of cells. Handles quoted cells with embedded commas,
+ * doubled quotes and line breaks.
+ */
+const parseCsvRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (quoted) throw new LogImportError('CSV ends inside a quoted cell');
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(value => value !== ''));
+};
+
+const parseCsv = (text: string) => {
+  const [header, ...rows] = parseCsvRows(text);
+  if (!header || !header.includes('time') || !header.includes('message')) {
+    throw new LogImportError('CSV has no log header row');
+  }
+  return rows.map((cells, index) => {
+    const record: Record<string, string> = {};
+    header.forEach((column, i) => {
+      record[column] = cells[i] ?? '';
+    });
+    return parseLogEntry(record, `Row ${index + 2}`);
+  });
+};
+
+const parseNdjson = (text: string) =>
+  text.split(/\r?\n/).flatMap((line, index) => {
+    if (!line.trim()) return [];
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(line);
+    } catch (e) {
+      throw new LogImportError(`Line ${index + 1}: not valid JSON`);
+    }
+    return [parseLogEntry(parsed, `Line ${index + 1}`)];
+  });
+
+/**
+ * Parses an exported log file for replay. The format is taken from the content: NDJSON
+ * lines start with `{`, anything else is read as CSV. Entries come back in time order.
+ */
+export const importLogs = (text: string): LogEntry[] => {
+  const body = text.replace(/^\uFEFF/, '').trim();
+  if (!body) throw new LogImportError('File is empty');
+  const entries = body.startsWith('{') ? parseNdjson(body) : parseCsv(body);
+  if (entries.length === 0) throw new LogImportError('File contains no log entries');
+  if (entries.length > MAX_IMPORT_ENTRIES) throw new LogImportError(`File has more than ${MAX_IMPORT_ENTRIES} entries`);
+  return entries.sort((a, b) => a.time - b.time);
+};
@@ -0,0 +1,196 @@
+import { useEffect, useState } from 'react';
+import { LogEntry } from '../types';
+import { getPreferences, subscribePreferences } from './preferences';
+
+const DB_NAME = 'meli_logs';
+const DB_VERSION = 1;
+const STORE = 'entries';
+
+type LogListener = (entries: LogEntry[]) => void;
+const listeners = new Set<LogListener>();
+
+// Oldest first. Holds the whole ring so filters and chains see the full shift.
+let entries: LogEntry[] = [];
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Resolves to null where IndexedDB is unavailable (private mode, old browsers); logs then live in memory only
+const openDb = (): Promise<IDBDatabase | null> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase | null>((resolve) => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('time', 'time');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn('Log history unavailable; keeping logs in memory', request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const emit = () => {
+  const snapshot = entries;
+  listeners.forEach(listener => listener(snapshot));
+};
+
+const getCapacity = () => getPreferences().logs.capacity;
+
+/**
+ * Drops the oldest entries beyond the configured capacity, in memory and in storage.
+ */
+const trim = async () => {
+  const overflow = entries.length - getCapacity();
+  if (overflow <= 0) return;
+  const dropped = entries.slice(0, overflow);
+  entries = entries.slice(overflow);
+  emit();
+  const db = await openDb();
+  if (!db) return;
+  try {
+    const store = db.transaction(STORE, 'readwrite').objectStore(STORE);
+    dropped.forEach(entry => store.delete(entry.id));
+  } catch (e) {
+    console.warn('Unable to trim log history', e);
+  }
+};
+
+const hydrate = async () => {
+  const db = await openDb();
+  if (!db) return;
+  try {
+    const stored = await requestToPromise(db.transaction(STORE).objectStore(STORE).index('time').getAll() as IDBRequest<LogEntry[]>);
+    // Entries logged while the database was opening are kept after the stored history
+    const known = new Set(stored.map(entry => entry.id));
+    entries = [...stored, ...entries.filter(entry => !known.has(entry.id))];
+    emit();
+    await trim();
+  } catch (e) {
+    console.warn('Stored log history is unreadable', e);
+  }
+};
+
+let hydrated = false;
+const ensureHydrated = () => {
+  if (hydrated) return;
+  hydrated = true;
+  void hydrate();
+  subscribePreferences(() => void trim());
+};
+
+export const getLogs = (): LogEntry[] => {
+  ensureHydrated();
+  return entries;
+};
+
+const persist = (entry: LogEntry) => {
+  void openDb().then(db => {
+    if (!db) return;
+    try {
+      db.transaction(STORE, 'readwrite').objectStore(STORE).put(entry);
+    } catch (e) {
+      console.warn('Unable to persist log entry', e);
+    }
+  });
+};
+
+export const appendLog = (entry: LogEntry) => {
+  ensureHydrated();
+  entries = [...entries, entry];
+  emit();
+  persist(entry);
+  if (entries.length > getCapacity()) void trim();
+};
+
+/**
+ * Adds an entry received from another operator. Entries already held (the same entry can
+ * arrive over several transports, or be read back from shared storage) are ignored, and
+ * late arrivals are placed by time so the merged log stays in order.
+ */
+export const mergeLogEntry = (entry: LogEntry) => {
+  ensureHydrated();
+  if (entries.some(existing => existing.id === entry.id)) return;
+  let index = entries.length;
+  while (index > 0 && entries[index - 1].time > entry.time) index--;
+  entries = [...entries.slice(0, index), entry, ...entries.slice(index)];
+  emit();
+  persist(entry);
+  if (entries.length > getCapacity()) void trim();
+};
+
+export const clearLogs = async () => {
+  entries = [];
+  emit();
+  const db = await openDb();
+  if (!db) return;
+  try {
+    await requestToPromise(db.transaction(STORE, 'readwrite').objectStore(STORE).clear());
+  } catch (e) {
+    console.warn('Unable to clear log history', e);
+  }
+};
+
+export const subscribeLogs = (listener: LogListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const useLogs = (): LogEntry[] => {
+  const [snapshot, setSnapshot] = useState(getLogs);
+  useEffect(() => subscribeLogs(setSnapshot), []);
+  return snapshot;
+};
+
+// --- Filtering ---
+
+// Modules that always get a filter chip; other sources appear once they have logged
+export const LOG_SOURCES = ['SYS', 'INTEL', 'VISUAL', 'MEDIA', 'AUDIO', 'COMMS', 'NET'];
+
+export const LOG_TIME_RANGES: { label: string; ms: number | null }[] = [
+  { label: 'ALL', ms: null },
+  { label: '15M', ms: 15 * 60 * 1000 },
+  { label: '1H', ms: 60 * 60 * 1000 },
+  { label: 'SHIFT (8H)', ms: 8 * 60 * 60 * 1000 },
+  { label: '24H', ms: 24 * 60 * 60 * 1000 },
+];
+
+export interface LogFilter {
+  sources: string[];          // Empty means every source
+  types: LogEntry['type'][];  // Empty means every severity
+  rangeMs: number | null;     // Only entries newer than this, or all
+  query: string;              // Case-insensitive text search
+}
+
+export const EMPTY_LOG_FILTER: LogFilter = { sources: [], types: [], rangeMs: null, query: '' };
+
+const matchesText = (entry: LogEntry, query: string) => {
+  if (!query) return true;
+  const needle = query.toLowerCase();
+  return [entry.message, entry.source, entry.operator, entry.correlationId, entry.model]
+    .some(field => field?.toLowerCase().includes(needle));
+};
+
+/**
+ * Whether an entry passes the filter. `ignoreTypes` skips the severity check, which lets
+ * the console count severities within the other filters.
+ */
+export const matchesLogFilter = (entry: LogEntry, filter: LogFilter, now: number, ignoreTypes = false) =>
+  (filter.sources.length === 0 || filter.sources.includes(entry.source)) &&
+  (ignoreTypes || filter.types.length === 0 || filter.types.includes(entry.type)) &&
+  (filter.rangeMs === null || entry.time >= now - filter.rangeMs) &&
+  matchesText(entry, filter.query.trim());
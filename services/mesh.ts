@@ -0,0 +1,294 @@
+import { useCallback, useEffect, useRef } from 'react';
+import {
+  MESH_CHANNEL_NAME,
+  MESH_PROTOCOL_VERSION,
+  MeshEnvelope,
+  MeshMessage,
+  MeshProtocolError,
+  parseMeshEnvelope,
+} from './meshProtocol';
+import { getSessionLock } from './sessionLock';
+
+export type { MeshEnvelope, MeshMessage, PresencePayload, SystemCommandPayload } from './meshProtocol';
+
+export type MeshHandler = (message: MeshEnvelope) => void;
+export type MeshRejectHandler = (reason: string) => void;
+
+export type MeshRelayStatus = 'DISABLED' | 'CONNECTING' | 'CONNECTED' | 'DISCONNECTED';
+export type MeshStatusListener = (status: MeshRelayStatus, relayUrl: string | null) => void;
+
+const RELAY_STORAGE_KEY = 'meli_mesh_relay_url';
+const RELAY_RETRY_BASE_MS = 1000;
+const RELAY_RETRY_MAX_MS = 30000;
+const SEEN_LIMIT = 500;
+
+const createId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+const tabId = createId();
+const handlers = new Map<string, { onMessage: MeshHandler; onReject?: MeshRejectHandler }>();
+const statusListeners = new Set<MeshStatusListener>();
+
+// Envelope ids already delivered. A packet can arrive over both transports.
+const seenIds = new Set<string>();
+
+let channel: BroadcastChannel | null = null;
+let relaySocket: WebSocket | null = null;
+let relayStatus: MeshRelayStatus = 'DISABLED';
+let relayRetryTimer: ReturnType<typeof setTimeout> | null = null;
+let relayRetryDelay = RELAY_RETRY_BASE_MS;
+let halted = false;
+
+const markSeen = (id: string) => {
+  seenIds.add(id);
+  if (seenIds.size > SEEN_LIMIT) {
+    seenIds.delete(seenIds.values().next().value as string);
+  }
+};
+
+// Correlation id of the envelope being delivered. Messages published synchronously from a
+// handler inherit it, so follow-up commands stay in the same causal chain.
+let deliveringCorrelationId: string | undefined;
+
+// Commands drive modules; a locked console must not run them for whoever is at the mesh
+const isCommand = (message: MeshMessage) => message.type === 'SYSTEM_COMMAND' || message.type === 'CMD_NAVIGATE';
+
+const deliver = (envelope: MeshEnvelope, skipEndpoint?: string) => {
+  if (getSessionLock().locked && isCommand(envelope)) {
+    console.warn(`Mesh ${envelope.type} ignored while the session is locked`);
+    return;
+  }
+  const previous = deliveringCorrelationId;
+  deliveringCorrelationId = envelope.correlationId;
+  handlers.forEach((handler, endpoint) => {
+    if (endpoint === skipEndpoint) return;
+    try {
+      handler.onMessage(envelope);
+    } catch (err) {
+      console.error('Mesh handler failed', err);
+    }
+  });
+  deliveringCorrelationId = previous;
+};
+
+const receive = (data: unknown) => {
+  if (halted) return;
+  let envelope: MeshEnvelope;
+  try {
+    envelope = parseMeshEnvelope(data);
+  } catch (err) {
+    if (!(err instanceof MeshProtocolError)) throw err;
+    console.warn('Mesh packet rejected:', err.message);
+    handlers.forEach(handler => handler.onReject?.(err.message));
+    return;
+  }
+  if (seenIds.has(envelope.id) || envelope.origin === tabId) return;
+  markSeen(envelope.id);
+  deliver(envelope);
+};
+
+// --- Relay Transport (cross-machine) ---
+
+/**
+ * Relay address from the local override or the MESH_RELAY_URL build variable.
+ * Null means same-browser BroadcastChannel only.
+ */
+export const getMeshRelayUrl = (): string | null => {
+  try {
+    const stored = localStorage.getItem(RELAY_STORAGE_KEY);
+    if (stored !== null) return stored.trim() || null;
+  } catch (e) {
+    // Storage unavailable (private mode); fall through to build config
+  }
+  return process.env.MESH_RELAY_URL || null;
+};
+
+export const getMeshRelayStatus = () => relayStatus;
+
+const setRelayStatus = (status: MeshRelayStatus) => {
+  if (relayStatus === status) return;
+  relayStatus = status;
+  const url = getMeshRelayUrl();
+  statusListeners.forEach(listener => listener(status, url));
+};
+
+const scheduleRelayReconnect = () => {
+  if (relayRetryTimer || handlers.size === 0) return;
+  relayRetryTimer = setTimeout(() => {
+    relayRetryTimer = null;
+    openRelay();
+  }, relayRetryDelay);
+  relayRetryDelay = Math.min(relayRetryDelay * 2, RELAY_RETRY_MAX_MS);
+};
+
+const openRelay = () => {
+  const url = getMeshRelayUrl();
+  if (!url) {
+    setRelayStatus('DISABLED');
+    return;
+  }
+  if (relaySocket) return;
+
+  setRelayStatus('CONNECTING');
+  let socket: WebSocket;
+  try {
+    socket = new WebSocket(url);
+  } catch (err) {
+    console.warn('Mesh relay address is invalid', err);
+    setRelayStatus('DISCONNECTED');
+    return;
+  }
+  relaySocket = socket;
+
+  socket.onopen = () => {
+    relayRetryDelay = RELAY_RETRY_BASE_MS;
+    setRelayStatus('CONNECTED');
+  };
+  socket.onmessage = (event) => {
+    if (typeof event.data !== 'string') return;
+    let data: unknown;
+    try {
+      data = JSON.parse(event.data);
+    } catch (e) {
+      data = null;
+    }
+    receive(data);
+  };
+  socket.onclose = () => {
+    if (relaySocket !== socket) return;
+    relaySocket = null;
+    setRelayStatus('DISCONNECTED');
+    scheduleRelayReconnect();
+  };
+};
+
+const closeRelay = () => {
+  if (relayRetryTimer) {
+    clearTimeout(relayRetryTimer);
+    relayRetryTimer = null;
+  }
+  const socket = relaySocket;
+  relaySocket = null;
+  socket?.close();
+};
+
+/**
+ * Points this tab at a relay (or clears it with null) and reconnects immediately.
+ * The choice is saved locally and takes precedence over MESH_RELAY_URL.
+ */
+export const setMeshRelayUrl = (url: string | null) => {
+  try {
+    localStorage.setItem(RELAY_STORAGE_KEY, url?.trim() || '');
+  } catch (e) {
+    console.warn('Unable to persist mesh relay address', e);
+  }
+  closeRelay();
+  relayRetryDelay = RELAY_RETRY_BASE_MS;
+  setRelayStatus('DISABLED');
+  if (handlers.size > 0) openRelay();
+};
+
+export const subscribeMeshStatus = (listener: MeshStatusListener) => {
+  statusListeners.add(listener);
+  return () => {
+    statusListeners.delete(listener);
+  };
+};
+
+// --- Lifecycle ---
+
+const openTransports = () => {
+  if (halted) return;
+  if (!channel) {
+    channel = new BroadcastChannel(MESH_CHANNEL_NAME);
+    channel.onmessage = (event) => receive(event.data);
+  }
+  openRelay();
+};
+
+const closeTransportsIfIdle = () => {
+  if (handlers.size > 0) return;
+  channel?.close();
+  channel = null;
+  closeRelay();
+};
+
+/**
+ * Takes this tab off the mesh for good (system shutdown): transports close and nothing is
+ * sent or delivered until the page is reloaded.
+ */
+export const haltMesh = () => {
+  halted = true;
+  channel?.close();
+  channel = null;
+  closeRelay();
+  setRelayStatus('DISABLED');
+};
+
+/**
+ * Sends a message to other tabs and to every other subscriber in this tab,
+ * matching the delivery rules of one BroadcastChannel per module. The same-browser
+ * channel is always used; the relay additionally carries it to other workstations.
+ * Outgoing messages pass the same validation as incoming ones; returns false when dropped.
+ * Without an explicit correlation id, the id of the message being handled (if any) is kept.
+ */
+export const publishMesh = (message: MeshMessage, fromEndpoint?: string, correlationId?: string): boolean => {
+  if (halted) return false;
+  let envelope: MeshEnvelope;
+  try {
+    envelope = parseMeshEnvelope({
+      ...message,
+      v: MESH_PROTOCOL_VERSION,
+      id: createId(),
+      origin: tabId,
+      sentAt: Date.now(),
+      correlationId: correlationId ?? deliveringCorrelationId,
+    });
+  } catch (err) {
+    if (!(err instanceof MeshProtocolError)) throw err;
+    console.warn('Mesh publish dropped:', err.message);
+    return false;
+  }
+  markSeen(envelope.id);
+  channel?.postMessage(envelope);
+  if (relaySocket?.readyState === WebSocket.OPEN) {
+    relaySocket.send(JSON.stringify(envelope));
+  }
+  deliver(envelope, fromEndpoint);
+  return true;
+};
+
+/**
+ * Whether a message was published from this tab. Commands that drive this workstation's
+ * microphone or camera act only on local messages, never on another operator's.
+ */
+export const isLocalMessage = (message: MeshEnvelope) => message.origin === tabId;
+
+/**
+ * Subscribes a component to the mesh for its lifetime and returns a publish function.
+ * The handler may change between renders; the latest one is always used.
+ */
+export const useMesh = (onMessage?: MeshHandler, onReject?: MeshRejectHandler) => {
+  const endpointRef = useRef(createId());
+  const onMessageRef = useRef(onMessage);
+  const onRejectRef = useRef(onReject);
+  onMessageRef.current = onMessage;
+  onRejectRef.current = onReject;
+
+  useEffect(() => {
+    const endpoint = endpointRef.current;
+    handlers.set(endpoint, {
+      onMessage: (message) => onMessageRef.current?.(message),
+      onReject: (reason) => onRejectRef.current?.(reason),
+    });
+    openTransports();
+    return () => {
+      handlers.delete(endpoint);
+      closeTransportsIfIdle();
+    };
+  }, []);
+
+  return useCallback(
+    (message: MeshMessage, correlationId?: string) => publishMesh(message, endpointRef.current, correlationId),
+    [],
+  );
+};
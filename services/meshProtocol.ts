@@ -0,0 +1,238 @@
+import { ChatMessage, INTEL_MODES, IntelMode, LogEntry, ModuleView } from '../types';
+
+export const MESH_CHANNEL_NAME = 'meli_mesh_network';
+export const MESH_PROTOCOL_VERSION = 1;
+
+const MAX_TEXT_LENGTH = 20000;
+const MAX_PROMPT_LENGTH = 4000;
+const MAX_LOG_DATA_LENGTH = 8000; // Serialized size of a shared log entry's structured data
+const LOG_TYPES: LogEntry['type'][] = ['info', 'success', 'warning', 'error'];
+
+export type VisualOpsAction = 'generate' | 'analyze' | 'edit';
+export type MediaLabJobType = 'video' | 'audio';
+
+export type SystemCommandPayload =
+  | { target: 'INTEL'; action: 'search'; query: string; mode?: IntelMode } // Mode defaults to web_ops
+  | { target: 'VISUAL_OPS'; action?: VisualOpsAction; prompt?: string }
+  | { target: 'MEDIA_LAB'; type: MediaLabJobType; prompt?: string }
+  | { target: 'LIVE_COMMS'; action: 'toggle' };
+
+export interface PresencePayload {
+  operatorId: string;
+  activeModule: ModuleView;
+  color?: string;
+}
+
+export type MeshMessage =
+  | { type: 'SYNC_MESSAGE'; payload: ChatMessage }
+  | { type: 'SYSTEM_COMMAND'; payload: SystemCommandPayload }
+  | { type: 'CMD_NAVIGATE'; payload: { view: ModuleView } }
+  | { type: 'PRESENCE_HEARTBEAT'; payload: PresencePayload }
+  | { type: 'PRESENCE_LEAVE'; payload: { operatorId: string } }
+  | { type: 'LOG_ENTRY'; payload: LogEntry };
+
+export type MeshMessageType = MeshMessage['type'];
+
+interface MeshEnvelopeHeader {
+  v: number;       // Protocol version
+  id: string;      // Unique per message
+  origin: string;  // Sending tab
+  sentAt: number;
+  correlationId?: string; // Operation this message belongs to, for log correlation
+}
+
+export type MeshEnvelope = MeshMessage & MeshEnvelopeHeader;
+
+/**
+ * Raised for packets that do not match the protocol. They are dropped, never delivered.
+ */
+export class MeshProtocolError extends Error {
+  constructor(reason: string) {
+    super(reason);
+    this.name = 'MeshProtocolError';
+  }
+}
+
+const reject = (reason: string): never => {
+  throw new MeshProtocolError(reason);
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isText = (value: unknown, maxLength = MAX_TEXT_LENGTH): value is string =>
+  typeof value === 'string' && value.length <= maxLength;
+
+const isHexColor = (value: unknown): value is string => typeof value === 'string' && /^#[0-9a-fA-F]{6}$/.test(value);
+
+const isSafeUri = (value: unknown) => typeof value === 'string' && /^https?:\/\//i.test(value);
+
+const isValidGrounding = (value: unknown): boolean => {
+  if (value === undefined) return true;
+  if (!isRecord(value)) return false;
+  const chunks = value.groundingChunks;
+  if (chunks === undefined) return true;
+  if (!Array.isArray(chunks)) return false;
+  return chunks.every(chunk => {
+    if (!isRecord(chunk)) return false;
+    const source = (chunk.web ?? chunk.maps) as unknown;
+    if (source === undefined) return true;
+    return isRecord(source) && (source.uri === undefined || isSafeUri(source.uri));
+  });
+};
+
+const isValidAnalytics = (value: unknown): boolean => {
+  if (value === undefined || value === null) return true;
+  if (!isRecord(value)) return false;
+  if (!['line', 'bar', 'area'].includes(value.chartType as string)) return false;
+  if (!isText(value.chartTitle) || !isText(value.summary)) return false;
+  return Array.isArray(value.data) && value.data.every(point =>
+    isRecord(point) && isText(point.label) && typeof point.value === 'number' && Number.isFinite(point.value)
+  );
+};
+
+const parseChatMessage = (value: unknown): ChatMessage => {
+  if (!isRecord(value)) return reject('chat payload is not an object');
+  if (!isText(value.id, 128)) return reject('chat payload has no id');
+  if (value.role !== 'user' && value.role !== 'model') return reject('chat payload has an unknown role');
+  if (!isText(value.content)) return reject('chat payload content is missing or too long');
+  if (typeof value.timestamp !== 'number') return reject('chat payload has no timestamp');
+  if (value.authorId !== undefined && !isText(value.authorId, 64)) return reject('chat payload author is invalid');
+  if (value.authorColor !== undefined && !isHexColor(value.authorColor)) return reject('chat payload author colour is invalid');
+  if (value.thinking !== undefined && typeof value.thinking !== 'boolean') return reject('chat payload thinking flag is invalid');
+  if (!isValidGrounding(value.groundingMetadata)) return reject('chat payload grounding is malformed');
+  if (!isValidAnalytics(value.analytics)) return reject('chat payload analytics is malformed');
+  return {
+    id: value.id,
+    role: value.role,
+    content: value.content,
+    timestamp: value.timestamp,
+    authorId: value.authorId as string | undefined,
+    authorColor: value.authorColor as string | undefined,
+    groundingMetadata: value.groundingMetadata,
+    thinking: value.thinking as boolean | undefined,
+    analytics: value.analytics,
+  };
+};
+
+const parseSystemCommand = (value: unknown): SystemCommandPayload => {
+  if (!isRecord(value)) return reject('command payload is not an object');
+  if (value.prompt !== undefined && !isText(value.prompt, MAX_PROMPT_LENGTH)) return reject('command prompt is invalid');
+  const prompt = value.prompt as string | undefined;
+
+  switch (value.target) {
+    case 'INTEL':
+      if (value.action !== 'search' || !isText(value.query, MAX_PROMPT_LENGTH)) return reject('INTEL command is malformed');
+      if (value.mode !== undefined && !INTEL_MODES.includes(value.mode as IntelMode)) return reject('INTEL command has an unknown mode');
+      return { target: 'INTEL', action: 'search', query: value.query, mode: value.mode as IntelMode | undefined };
+    case 'VISUAL_OPS':
+      if (value.action !== undefined && !['generate', 'analyze', 'edit'].includes(value.action as string)) {
+        return reject('VISUAL_OPS command has an unknown action');
+      }
+      return { target: 'VISUAL_OPS', action: value.action as VisualOpsAction | undefined, prompt };
+    case 'MEDIA_LAB':
+      if (value.type !== 'video' && value.type !== 'audio') return reject('MEDIA_LAB command has an unknown type');
+      return { target: 'MEDIA_LAB', type: value.type, prompt };
+    case 'LIVE_COMMS':
+      if (value.action !== 'toggle') return reject('LIVE_COMMS command has an unknown action');
+      return { target: 'LIVE_COMMS', action: 'toggle' };
+    default:
+      return reject('command has an unknown target');
+  }
+};
+
+const isOptionalText = (value: unknown, maxLength: number) => value === undefined || isText(value, maxLength);
+
+// Shared entries must name their operator, since the merged log is read by who produced what
+const parseLogEntry = (value: unknown): LogEntry => {
+  if (!isRecord(value)) return reject('log payload is not an object');
+  if (!isText(value.id, 128) || !isText(value.timestamp, 32) || !isText(value.source, 32)) return reject('log payload header is invalid');
+  if (!isText(value.message)) return reject('log payload message is missing or too long');
+  if (!LOG_TYPES.includes(value.type as LogEntry['type'])) return reject('log payload has an unknown type');
+  if (!isText(value.operator, 64) || !value.operator.trim()) return reject('log payload has no operator');
+  if (typeof value.time !== 'number' || !Number.isFinite(value.time)) return reject('log payload has no time');
+  if (!isOptionalText(value.correlationId, 64) || !isOptionalText(value.model, 128)) return reject('log payload details are invalid');
+  if (value.durationMs !== undefined && (typeof value.durationMs !== 'number' || !Number.isFinite(value.durationMs))) {
+    return reject('log payload duration is invalid');
+  }
+  if (value.data !== undefined && (!isRecord(value.data) || JSON.stringify(value.data).length > MAX_LOG_DATA_LENGTH)) {
+    return reject('log payload data is malformed or too large');
+  }
+  return {
+    id: value.id,
+    timestamp: value.timestamp,
+    source: value.source,
+    message: value.message,
+    type: value.type as LogEntry['type'],
+    operator: value.operator,
+    time: value.time,
+    correlationId: value.correlationId as string | undefined,
+    durationMs: value.durationMs as number | undefined,
+    model: value.model as string | undefined,
+    data: value.data as Record<string, unknown> | undefined,
+  };
+};
+
+const isModuleView = (value: unknown): value is ModuleView =>
+  Object.values(ModuleView).includes(value as ModuleView);
+
+const parseOperatorId = (value: unknown): string => {
+  if (!isRecord(value) || !isText(value.operatorId, 64) || !value.operatorId.trim()) {
+    return reject('presence payload has no operator id');
+  }
+  return value.operatorId;
+};
+
+/**
+ * Validates one message (type and payload) from any untrusted source, such as a model's tool
+ * call, and throws MeshProtocolError when it does not conform.
+ */
+export const parseMeshMessage = (type: unknown, payload: unknown): MeshMessage => {
+  switch (type) {
+    case 'SYNC_MESSAGE':
+      return { type, payload: parseChatMessage(payload) };
+    case 'SYSTEM_COMMAND':
+      return { type, payload: parseSystemCommand(payload) };
+    case 'CMD_NAVIGATE':
+      if (!isRecord(payload) || !isModuleView(payload.view)) {
+        return reject('navigation target is not a known view');
+      }
+      return { type, payload: { view: payload.view } };
+    case 'PRESENCE_HEARTBEAT': {
+      const operatorId = parseOperatorId(payload);
+      const { activeModule, color } = payload as Record<string, unknown>;
+      if (!isModuleView(activeModule)) return reject('presence payload has an unknown module');
+      if (color !== undefined && !isHexColor(color)) return reject('presence payload colour is invalid');
+      return { type, payload: { operatorId, activeModule, color: color as string | undefined } };
+    }
+    case 'PRESENCE_LEAVE':
+      return { type, payload: { operatorId: parseOperatorId(payload) } };
+    case 'LOG_ENTRY':
+      return { type, payload: parseLogEntry(payload) };
+    default:
+      return reject(`unknown message type ${String(type).slice(0, 32)}`);
+  }
+};
+
+/**
+ * Validates raw channel data and throws MeshProtocolError when it does not conform.
+ * Only the fields the protocol defines are copied into the result, so unexpected
+ * properties never reach the modules.
+ */
+export const parseMeshEnvelope = (data: unknown): MeshEnvelope => {
+  if (!isRecord(data)) return reject('packet is not an object');
+  if (data.v !== MESH_PROTOCOL_VERSION) return reject(`protocol version ${String(data.v).slice(0, 16)} is not supported`);
+  if (!isText(data.id, 128) || !isText(data.origin, 128) || typeof data.sentAt !== 'number') {
+    return reject('packet header is incomplete');
+  }
+  if (data.correlationId !== undefined && !isText(data.correlationId, 64)) return reject('packet correlation id is invalid');
+  const message = parseMeshMessage(data.type, data.payload);
+  return {
+    ...message,
+    v: data.v,
+    id: data.id,
+    origin: data.origin,
+    sentAt: data.sentAt,
+    correlationId: data.correlationId as string | undefined,
+  };
+};
@@ -0,0 +1,119 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { GenerateVideosOperation, LiveServerMessage, Modality, Type } from '@google/genai';
+import { createMockProvider } from './mockGeminiProvider';
+
+const mock = () => createMockProvider({ latencyMs: 1, videoPolls: 2 });
+
+describe('mock generateContent', () => {
+  it('acknowledges a text prompt and reports token usage', async () => {
+    const response = await mock().models.generateContent({ model: 'gemini-test', contents: 'Status report' });
+    expect(response.text).toContain('Directive acknowledged: "Status report"');
+    expect(response.modelVersion).toBe('gemini-test-mock');
+    expect(response.usageMetadata?.totalTokenCount).toBe((response.usageMetadata?.promptTokenCount ?? 0) + (response.usageMetadata?.candidatesTokenCount ?? 0));
+  });
+
+  it('returns an inline PNG for image models', async () => {
+    const response = await mock().models.generateContent({ model: 'gemini-image-test', contents: { parts: [{ text: 'A map' }] } });
+    const [image] = response.candidates?.[0]?.content?.parts ?? [];
+    expect(image.inlineData?.mimeType).toBe('image/png');
+    expect(image.inlineData?.data).toBeTruthy();
+  });
+
+  it('returns 24kHz PCM when audio is requested', async () => {
+    const response = await mock().models.generateContent({ model: 'tts-test', contents: 'Hello', config: { responseModalities: [Modality.AUDIO] } });
+    expect(response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.mimeType).toBe('audio/pcm;rate=24000');
+  });
+
+  it('returns JSON for a response schema', async () => {
+    const response = await mock().models.generateContent({ model: 'gemini-test', contents: 'Chart it', config: { responseSchema: { type: Type.OBJECT } } });
+    expect(JSON.parse(response.text ?? '')).toMatchObject({ chartType: 'bar' });
+  });
+
+  it('adds grounding sources for search and maps tools', async () => {
+    const provider = mock();
+    const search = await provider.models.generateContent({ model: 'gemini-test', contents: 'News', config: { tools: [{ googleSearch: {} }] } });
+    expect(search.candidates?.[0]?.groundingMetadata?.groundingChunks?.map(chunk => chunk.web?.title)).toEqual(['Mock Source One', 'Mock Source Two']);
+    const maps = await provider.models.generateContent({ model: 'gemini-test', contents: 'Where', config: { tools: [{ googleMaps: {} }] } });
+    expect(maps.candidates?.[0]?.groundingMetadata?.groundingChunks?.[0]?.maps?.title).toBe('Mock Location');
+  });
+});
+
+describe('mock generateVideos', () => {
+  it('reports progress until the configured poll, then a video URI', async () => {
+    const provider = mock();
+    let operation: GenerateVideosOperation = await provider.models.generateVideos({ model: 'veo-test', prompt: 'Flyover' });
+    expect(operation.done).toBe(false);
+
+    operation = await provider.operations.getVideosOperation({ operation });
+    expect(operation.done).toBe(false);
+    expect(operation.metadata?.progress).toBe(0.5);
+
+    operation = await provider.operations.getVideosOperation({ operation });
+    expect(operation.done).toBe(true);
+    expect(operation.response?.generatedVideos?.[0]?.video?.uri).toMatch(/\.webm\?alt=media$/);
+  });
+
+  it('tracks separate operations independently', async () => {
+    const provider = mock();
+    const first = await provider.models.generateVideos({ model: 'veo-test', prompt: 'One' });
+    const second = await provider.models.generateVideos({ model: 'veo-test', prompt: 'Two' });
+    expect(first.name).not.toBe(second.name);
+    await provider.operations.getVideosOperation({ operation: first });
+    expect((await provider.operations.getVideosOperation({ operation: second })).done).toBe(false);
+  });
+});
+
+describe('mock cancellation', () => {
+  it('rejects with the abort reason as soon as the signal aborts', async () => {
+    const provider = createMockProvider({ latencyMs: 60000 });
+    const controller = new AbortController();
+    const request = provider.models.generateContent({ model: 'gemini-test', contents: 'Slow', config: { abortSignal: controller.signal } });
+    controller.abort();
+    await expect(request).rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('rejects polls made with an already aborted signal', async () => {
+    const provider = mock();
+    const operation = await provider.models.generateVideos({ model: 'veo-test', prompt: 'Flyover' });
+    await expect(provider.operations.getVideosOperation({ operation, config: { abortSignal: AbortSignal.abort() } })).rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('removes its abort listener once the request completes', async () => {
+    const controller = new AbortController();
+    const add = vi.spyOn(controller.signal, 'addEventListener');
+    const remove = vi.spyOn(controller.signal, 'removeEventListener');
+    await mock().models.generateContent({ model: 'gemini-test', contents: 'Quick', config: { abortSignal: controller.signal } });
+    expect(add).toHaveBeenCalledTimes(1);
+    expect(remove).toHaveBeenCalledWith('abort', add.mock.calls[0][1]);
+  });
+});
+
+describe('mock live session', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('opens, issues a tool call, answers the tool response and closes', async () => {
+    vi.stubGlobal('CloseEvent', class extends Event {});
+    const messages: LiveServerMessage[] = [];
+    const onopen = vi.fn();
+    const onclose = vi.fn();
+    const session = await mock().live.connect({
+      model: 'live-test',
+      callbacks: { onopen, onclose, onmessage: message => messages.push(message) },
+    });
+
+    await vi.waitFor(() => expect(messages.some(message => message.toolCall)).toBe(true));
+    expect(onopen).toHaveBeenCalledTimes(1);
+    expect(messages[0].serverContent?.inputTranscription?.text).toBeTruthy();
+    expect(messages.find(message => message.toolCall)?.toolCall?.functionCalls?.[0]?.name).toBe('change_view');
+
+    session.sendToolResponse({ functionResponses: [{ id: 'mock-call-1', name: 'change_view', response: { result: 'ok' } }] });
+    await vi.waitFor(() => expect(messages.some(message => message.serverContent?.turnComplete)).toBe(true));
+    expect(messages.filter(message => message.serverContent?.modelTurn?.parts?.[0]?.inlineData)).toHaveLength(3);
+
+    session.close();
+    session.close();
+    expect(onclose).toHaveBeenCalledTimes(1);
+  });
+});
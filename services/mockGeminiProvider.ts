@@ -0,0 +1,295 @@
+import {
+  GenerateContentResponse,
+  GenerateVideosOperation,
+  LiveServerMessage,
+  Modality,
+  GenerateContentParameters,
+  GroundingMetadata,
+  LiveConnectParameters,
+  Part,
+  Tool,
+} from "@google/genai";
+import { GeminiProvider, LiveSessionHandle } from './geminiProvider';
+import { encodeAudio } from './geminiUtils';
+
+export interface MockProviderOptions {
+  latencyMs?: number;   // Simulated round-trip per request
+  videoPolls?: number;  // Polls before a fake Veo operation reports done
+}
+
+// 1x1 PNG, enough for <img> previews and edit/analyze round-trips
+const MOCK_PNG_BASE64 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+const MOCK_ANALYTICS = {
+  summary: 'MOCK ANALYSIS: Signal volume trending upward across all sectors.',
+  chartTitle: 'SECTOR ACTIVITY (MOCK)',
+  chartType: 'bar',
+  data: [
+    { label: 'ALPHA', value: 42 },
+    { label: 'BRAVO', value: 67 },
+    { label: 'CHARLIE', value: 23 },
+    { label: 'DELTA', value: 88 },
+  ],
+};
+
+const MOCK_BIOMETRIC = {
+  identified: false,
+  name: 'JOHN DOE',
+  id: 'Global-ID-0000',
+  age: '30-40',
+  origin: 'Unknown',
+  occupation: 'Civilian',
+  globalClass: 'Civilian',
+  threat: 'LOW',
+  affiliations: [],
+  notes: 'Mock provider profile. No live lookup performed.',
+};
+
+const MOCK_MEDIA_ORIGIN = 'https://mock.meli.local';
+
+// Like a real request, the simulated round-trip rejects as soon as the caller aborts
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+const extractPromptText = (contents: unknown): string => {
+  if (typeof contents === 'string') return contents;
+  if (Array.isArray(contents)) return contents.map(extractPromptText).join(' ');
+  if (contents && typeof contents === 'object') {
+    const c = contents as { text?: string; parts?: unknown[] };
+    if (typeof c.text === 'string') return c.text;
+    if (Array.isArray(c.parts)) return c.parts.map(extractPromptText).join(' ');
+  }
+  return '';
+};
+
+const estimateTokens = (text: string) => Math.max(1, Math.ceil(text.length / 4));
+
+/**
+ * Deterministic 16-bit PCM tone, base64 encoded like Gemini audio parts.
+ */
+const createMockTone = (sampleRate: number, durationSec: number, frequency: number): string => {
+  const length = Math.floor(sampleRate * durationSec);
+  const int16 = new Int16Array(length);
+  for (let i = 0; i < length; i++) {
+    int16[i] = Math.sin((2 * Math.PI * frequency * i) / sampleRate) * 0.2 * 0x7FFF;
+  }
+  return encodeAudio(new Uint8Array(int16.buffer));
+};
+
+const MOCK_VIDEO_SECONDS = 2;
+const MOCK_VIDEO_FPS = 24;
+
+/**
+ * Records a short canvas animation, so mock Veo results play in a <video> element like real
+ * ones. Resolves with an object URL, as a real download does; rejects if `signal` aborts first.
+ */
+export const renderMockVideo = (label: string, signal?: AbortSignal): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = 320;
+    canvas.height = 180;
+    const ctx = canvas.getContext('2d');
+    if (!ctx || typeof MediaRecorder === 'undefined' || !canvas.captureStream) {
+      reject(new Error('Mock video rendering needs canvas capture and MediaRecorder support.'));
+      return;
+    }
+    if (signal?.aborted) {
+      reject(new DOMException('Mock video render aborted', 'AbortError'));
+      return;
+    }
+
+    const stream = canvas.captureStream(MOCK_VIDEO_FPS);
+    const recorder = new MediaRecorder(stream, MediaRecorder.isTypeSupported('video/webm') ? { mimeType: 'video/webm' } : undefined);
+    const chunks: Blob[] = [];
+    const startedAt = performance.now();
+
+    // An interval rather than animation frames, which stop while the tab is hidden
+    const timer = setInterval(() => {
+      const elapsed = (performance.now() - startedAt) / 1000;
+      ctx.fillStyle = '#000000';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.fillStyle = '#00fff2';
+      ctx.fillRect(0, canvas.height - 6, (canvas.width * Math.min(elapsed, MOCK_VIDEO_SECONDS)) / MOCK_VIDEO_SECONDS, 6);
+      ctx.font = '14px monospace';
+      ctx.fillText('MOCK RENDER', 16, 32);
+      ctx.fillText(label.slice(0, 36), 16, 56);
+      ctx.fillText(`T+${elapsed.toFixed(2)}s`, 16, 80);
+      if (elapsed >= MOCK_VIDEO_SECONDS) finish();
+    }, 1000 / MOCK_VIDEO_FPS);
+
+    const finish = () => {
+      clearInterval(timer);
+      signal?.removeEventListener('abort', onAbort);
+      if (recorder.state !== 'inactive') recorder.stop();
+      stream.getTracks().forEach(track => track.stop());
+    };
+    const onAbort = () => {
+      finish();
+      reject(new DOMException('Mock video render aborted', 'AbortError'));
+    };
+
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) chunks.push(e.data);
+    };
+    recorder.onstop = () => {
+      if (!signal?.aborted) resolve(URL.createObjectURL(new Blob(chunks, { type: recorder.mimeType || 'video/webm' })));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    recorder.start();
+  });
+
+const buildResponse = (params: GenerateContentParameters): GenerateContentResponse => {
+  const prompt = extractPromptText(params.contents);
+  const config = params.config || {};
+  // ToolListUnion also admits MCP clients; only plain Tool declarations can ask for grounding
+  const tools = (config.tools || []).filter((tool): tool is Tool => 'googleSearch' in tool || 'googleMaps' in tool);
+  const parts: Part[] = [];
+  let groundingMetadata: GroundingMetadata | undefined;
+
+  if (config.responseModalities?.includes(Modality.AUDIO)) {
+    parts.push({ inlineData: { mimeType: 'audio/pcm;rate=24000', data: createMockTone(24000, 0.6, 440) } });
+  } else if (params.model.includes('image')) {
+    parts.push({ inlineData: { mimeType: 'image/png', data: MOCK_PNG_BASE64 } });
+    parts.push({ text: 'MOCK RENDER COMPLETE.' });
+  } else if (config.responseSchema) {
+    parts.push({ text: JSON.stringify(MOCK_ANALYTICS) });
+  } else if (prompt.includes('JSON Schema')) {
+    parts.push({ text: JSON.stringify(MOCK_BIOMETRIC) });
+  } else {
+    parts.push({ text: `[MOCK::${params.model}] Directive acknowledged: "${prompt.trim().slice(0, 120)}"` });
+  }
+
+  if (tools.some(tool => tool.googleSearch)) {
+    groundingMetadata = {
+      groundingChunks: [
+        { web: { uri: 'https://example.com/mock-source-1', title: 'Mock Source One' } },
+        { web: { uri: 'https://example.com/mock-source-2', title: 'Mock Source Two' } },
+      ],
+    };
+  } else if (tools.some(tool => tool.googleMaps)) {
+    groundingMetadata = {
+      groundingChunks: [
+        { maps: { uri: 'https://maps.google.com/?q=37.7749,-122.4194', title: 'Mock Location' } },
+      ],
+    };
+  }
+
+  const promptTokenCount = estimateTokens(prompt);
+  const candidatesTokenCount = estimateTokens(parts.map(p => p.text || '').join(''));
+  return Object.assign(new GenerateContentResponse(), {
+    candidates: [{ content: { role: 'model', parts }, groundingMetadata }],
+    usageMetadata: {
+      promptTokenCount,
+      candidatesTokenCount,
+      totalTokenCount: promptTokenCount + candidatesTokenCount,
+    },
+    modelVersion: `${params.model}-mock`,
+  });
+};
+
+/**
+ * Scripted live session: after opening it transcribes a fake operator request and issues a tool call;
+ * once the tool response arrives it answers with transcribed audio and completes the turn.
+ */
+const connectMockSession = async (params: LiveConnectParameters, latencyMs: number): Promise<LiveSessionHandle> => {
+  const { callbacks } = params;
+  const timers: ReturnType<typeof setTimeout>[] = [];
+  let closed = false;
+
+  const emit = (delay: number, message: Partial<LiveServerMessage>) => {
+    timers.push(setTimeout(() => {
+      if (!closed) callbacks.onmessage(Object.assign(new LiveServerMessage(), message));
+    }, delay));
+  };
+
+  timers.push(setTimeout(() => callbacks.onopen?.(), latencyMs));
+  emit(latencyMs * 3, { serverContent: { inputTranscription: { text: 'Mock operator requesting status report.' } } });
+  emit(latencyMs * 4, {
+    toolCall: {
+      functionCalls: [{ id: 'mock-call-1', name: 'change_view', args: { view: 'LIVE_COMMS' } }],
+    },
+  });
+
+  let turn = 0;
+  return {
+    sendRealtimeInput: () => {},
+    sendToolResponse: () => {
+      turn++;
+      emit(latencyMs, { serverContent: { outputTranscription: { text: `Mock response ${turn}: all systems nominal.` } } });
+      for (let i = 0; i < 3; i++) {
+        emit(latencyMs + i * 100, {
+          serverContent: {
+            modelTurn: { role: 'model', parts: [{ inlineData: { mimeType: 'audio/pcm;rate=24000', data: createMockTone(24000, 0.3, 330 + i * 110) } }] },
+          },
+        });
+      }
+      emit(latencyMs + 400, { serverContent: { turnComplete: true } });
+    },
+    close: () => {
+      if (closed) return;
+      closed = true;
+      timers.forEach(clearTimeout);
+      callbacks.onclose?.(new CloseEvent('close'));
+    },
+  };
+};
+
+/**
+ * Offline stand-in for the Gemini API. Responses are canned and deterministic so modules
+ * can be developed and exercised without a key or network access.
+ */
+export const createMockProvider = (options: MockProviderOptions = {}): GeminiProvider => {
+  const latencyMs = options.latencyMs ?? 400;
+  const videoPolls = options.videoPolls ?? 2;
+  const pollCounts = new Map<string, number>();
+  let operationSeq = 0;
+
+  return {
+    models: {
+      generateContent: async (params) => {
+        await wait(latencyMs, params.config?.abortSignal);
+        return buildResponse(params);
+      },
+      generateVideos: async (params) => {
+        await wait(latencyMs, params.config?.abortSignal);
+        const name = `operations/mock-video-${++operationSeq}`;
+        pollCounts.set(name, 0);
+        return Object.assign(new GenerateVideosOperation(), { name, done: false });
+      },
+    },
+    operations: {
+      getVideosOperation: async ({ operation, config }) => {
+        await wait(latencyMs, config?.abortSignal);
+        const name = operation.name || '';
+        const polls = (pollCounts.get(name) || 0) + 1;
+        pollCounts.set(name, polls);
+        if (polls < videoPolls) {
+          return Object.assign(new GenerateVideosOperation(), { name, done: false, metadata: { progress: polls / videoPolls } });
+        }
+        return Object.assign(new GenerateVideosOperation(), {
+          name,
+          done: true,
+          // Not fetchable: fetchGeneratedMedia renders a local clip for mock URIs
+          response: { generatedVideos: [{ video: { uri: `${MOCK_MEDIA_ORIGIN}/${name}.webm?alt=media`, mimeType: 'video/webm' } }] },
+        });
+      },
+    },
+    live: {
+      connect: (params) => connectMockSession(params, latencyMs),
+    },
+  };
+};
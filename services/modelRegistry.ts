@@ -0,0 +1,256 @@
+import { useEffect, useState } from 'react';
+import { ModuleView } from '../types';
+
+const STORAGE_KEY = 'meli_model_registry';
+const EXPORT_VERSION = 1;
+
+export type RegistryMode =
+  | 'flash' | 'web_ops' | 'geo_int' | 'analytics' | 'strategy'
+  | 'generate' | 'edit' | 'analyze'
+  | 'video' | 'tts' | 'transcribe'
+  | 'live' | 'biometric';
+
+/**
+ * Model and generation settings for one mode. Optional numbers left undefined
+ * use the model's own defaults.
+ */
+export interface ModeSettings {
+  model: string;
+  systemInstruction: string;
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  maxOutputTokens?: number;
+  thinkingBudget?: number;
+}
+
+export interface RegistryModeInfo {
+  mode: RegistryMode;
+  module: ModuleView;
+  label: string;
+  systemPrompt: boolean; // Whether the endpoint accepts a system instruction
+  generation: boolean;   // Whether sampling settings apply
+}
+
+export const REGISTRY_MODES: RegistryModeInfo[] = [
+  { mode: 'flash', module: ModuleView.INTEL, label: 'Flash', systemPrompt: true, generation: true },
+  { mode: 'web_ops', module: ModuleView.INTEL, label: 'Web Ops', systemPrompt: true, generation: true },
+  { mode: 'geo_int', module: ModuleView.INTEL, label: 'Geo Int', systemPrompt: true, generation: true },
+  { mode: 'analytics', module: ModuleView.INTEL, label: 'Analytics', systemPrompt: true, generation: true },
+  { mode: 'strategy', module: ModuleView.INTEL, label: 'Strategy', systemPrompt: true, generation: true },
+  { mode: 'generate', module: ModuleView.VISUAL_OPS, label: 'Recon Gen', systemPrompt: true, generation: true },
+  { mode: 'edit', module: ModuleView.VISUAL_OPS, label: 'Modify', systemPrompt: true, generation: true },
+  { mode: 'analyze', module: ModuleView.VISUAL_OPS, label: 'Forensics', systemPrompt: true, generation: true },
+  { mode: 'video', module: ModuleView.MEDIA_LAB, label: 'Veo Video', systemPrompt: false, generation: false },
+  { mode: 'tts', module: ModuleView.MEDIA_LAB, label: 'Speech', systemPrompt: false, generation: false },
+  { mode: 'transcribe', module: ModuleView.MEDIA_LAB, label: 'Transcribe', systemPrompt: true, generation: true },
+  { mode: 'live', module: ModuleView.LIVE_COMMS, label: 'Live Link', systemPrompt: true, generation: true },
+  { mode: 'biometric', module: ModuleView.LIVE_COMMS, label: 'Biometric Scan', systemPrompt: true, generation: true },
+];
+
+const INTEL_BASE_INSTRUCTION = "You are MELI, a high-performance intelligence interface. Respond with precision, using tactical terminology. Format responses for quick scanning. Prioritize actionable intelligence.";
+
+const LIVE_PERSONA = `You are M.E.L.I., an elite Fast Responder AI with full control over this interface.
+
+CRITICAL INSTRUCTION - TOOL USE:
+You MUST use your tools to perform visual, navigation, or search tasks. Do NOT just describe what you would do.
+
+- If user asks to SEE something (e.g. "show me a drone", "draw a map"): Call 'execute_visual_ops'.
+- If user asks for DATA, NEWS, or INFO (e.g. "search for intel", "who won the game"): Call 'search_intel'.
+- If user asks to GO somewhere (e.g. "open intel"): Call 'change_view'.
+- If user asks for VIDEO/AUDIO creation: Call 'execute_media_lab'.
+
+Identity:
+1. TACTICAL SPY / GLOBAL ANALYST.
+2. FRIENDLY COMPANION.
+3. CONCISE OPERATOR.`;
+
+export const DEFAULT_MODE_SETTINGS: Record<RegistryMode, ModeSettings> = {
+  flash: { model: 'gemini-2.5-flash-lite-latest', systemInstruction: INTEL_BASE_INSTRUCTION },
+  web_ops: { model: 'gemini-2.5-flash', systemInstruction: INTEL_BASE_INSTRUCTION + " Prioritize Open Source Intelligence (OSINT). Provide sources." },
+  geo_int: { model: 'gemini-2.5-flash', systemInstruction: INTEL_BASE_INSTRUCTION + " Provide precise geospatial coordinates and location data." },
+  analytics: { model: 'gemini-2.5-flash', systemInstruction: INTEL_BASE_INSTRUCTION + " Return strictly JSON data matching the schema for visualization." },
+  strategy: { model: 'gemini-3-pro-preview', systemInstruction: INTEL_BASE_INSTRUCTION + " Engage strategic reasoning. Analyze second-order effects.", thinkingBudget: 32768 },
+  generate: { model: 'gemini-3-pro-image-preview', systemInstruction: '' },
+  edit: { model: 'gemini-2.5-flash-image', systemInstruction: '' },
+  analyze: { model: 'gemini-3-pro-preview', systemInstruction: '' },
+  video: { model: 'veo-3.1-fast-generate-preview', systemInstruction: '' },
+  tts: { model: 'gemini-2.5-flash-preview-tts', systemInstruction: '' },
+  transcribe: { model: 'gemini-2.5-flash', systemInstruction: '' },
+  live: { model: 'gemini-2.5-flash-native-audio-preview-09-2025', systemInstruction: LIVE_PERSONA },
+  biometric: { model: 'gemini-2.5-flash', systemInstruction: '' },
+};
+
+const NUMERIC_FIELDS = ['temperature', 'topP', 'topK', 'maxOutputTokens', 'thinkingBudget'] as const;
+
+/**
+ * Raised when imported registry JSON is malformed. Nothing is applied in that case.
+ */
+export class RegistryImportError extends Error {
+  constructor(reason: string) {
+    super(reason);
+    this.name = 'RegistryImportError';
+  }
+}
+
+const isRegistryMode = (value: string): value is RegistryMode =>
+  REGISTRY_MODES.some(info => info.mode === value);
+
+/**
+ * Checks one mode's settings and returns a clean copy. Throws RegistryImportError.
+ */
+export const parseModeSettings = (mode: string, value: unknown): ModeSettings => {
+  if (typeof value !== 'object' || value === null) throw new RegistryImportError(`${mode}: settings must be an object`);
+  const raw = value as Record<string, unknown>;
+  if (typeof raw.model !== 'string' || !raw.model.trim()) throw new RegistryImportError(`${mode}: model id is required`);
+  if (raw.systemInstruction !== undefined && typeof raw.systemInstruction !== 'string') {
+    throw new RegistryImportError(`${mode}: systemInstruction must be text`);
+  }
+  const settings: ModeSettings = { model: raw.model.trim(), systemInstruction: (raw.systemInstruction as string) || '' };
+  NUMERIC_FIELDS.forEach(field => {
+    const number = raw[field];
+    if (number === undefined || number === null) return;
+    if (typeof number !== 'number' || !Number.isFinite(number) || number < 0) {
+      throw new RegistryImportError(`${mode}: ${field} must be a non-negative number`);
+    }
+    settings[field] = number;
+  });
+  return settings;
+};
+
+// --- Store ---
+
+type Overrides = Partial<Record<RegistryMode, ModeSettings>>;
+type RegistryListener = (overrides: Overrides) => void;
+const listeners = new Set<RegistryListener>();
+
+let overrides: Overrides | null = null;
+
+const readOverrides = (): Overrides => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return {};
+    const parsed = JSON.parse(raw) as Record<string, unknown>;
+    const result: Overrides = {};
+    Object.entries(parsed).forEach(([mode, value]) => {
+      if (isRegistryMode(mode)) result[mode] = parseModeSettings(mode, value);
+    });
+    return result;
+  } catch (e) {
+    console.warn('Stored model registry is unreadable; using defaults', e);
+    return {};
+  }
+};
+
+const getOverrides = (): Overrides => {
+  if (!overrides) overrides = readOverrides();
+  return overrides;
+};
+
+const setOverrides = (next: Overrides) => {
+  overrides = next;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch (e) {
+    console.warn('Unable to persist model registry', e);
+  }
+  listeners.forEach(listener => listener(next));
+};
+
+export const getModeSettings = (mode: RegistryMode): ModeSettings =>
+  getOverrides()[mode] || DEFAULT_MODE_SETTINGS[mode];
+
+export const isModeOverridden = (mode: RegistryMode) => Boolean(getOverrides()[mode]);
+
+export const saveModeSettings = (mode: RegistryMode, settings: ModeSettings) => {
+  setOverrides({ ...getOverrides(), [mode]: parseModeSettings(mode, settings) });
+};
+
+/**
+ * Drops the override for one mode, or for every mode when none is given.
+ */
+export const resetModeSettings = (mode?: RegistryMode) => {
+  if (!mode) {
+    setOverrides({});
+    return;
+  }
+  const { [mode]: _removed, ...rest } = getOverrides();
+  setOverrides(rest);
+};
+
+export const subscribeModelRegistry = (listener: RegistryListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Re-renders the caller whenever the registry changes. Read values with getModeSettings.
+ */
+export const useModelRegistry = () => {
+  const [snapshot, setSnapshot] = useState(getOverrides);
+  useEffect(() => subscribeModelRegistry(setSnapshot), []);
+  return snapshot;
+};
+
+/**
+ * Generation config fields derived from a mode's settings, ready to spread into a request config.
+ */
+export const buildGenerationConfig = (settings: ModeSettings) => {
+  const config: {
+    systemInstruction?: string;
+    temperature?: number;
+    topP?: number;
+    topK?: number;
+    maxOutputTokens?: number;
+    thinkingConfig?: { thinkingBudget: number };
+  } = {};
+  if (settings.systemInstruction.trim()) config.systemInstruction = settings.systemInstruction;
+  if (settings.temperature !== undefined) config.temperature = settings.temperature;
+  if (settings.topP !== undefined) config.topP = settings.topP;
+  if (settings.topK !== undefined) config.topK = settings.topK;
+  if (settings.maxOutputTokens !== undefined) config.maxOutputTokens = settings.maxOutputTokens;
+  if (settings.thinkingBudget !== undefined) config.thinkingConfig = { thinkingBudget: settings.thinkingBudget };
+  return config;
+};
+
+// --- Import / Export ---
+
+/**
+ * Serializes the effective settings of every mode, so the file is complete on its own.
+ */
+export const exportModelRegistry = (): string => {
+  const modes: Record<string, ModeSettings> = {};
+  REGISTRY_MODES.forEach(({ mode }) => {
+    modes[mode] = getModeSettings(mode);
+  });
+  return JSON.stringify({ version: EXPORT_VERSION, exportedAt: new Date().toISOString(), modes }, null, 2);
+};
+
+/**
+ * Applies an exported registry. Every entry is validated before anything is saved;
+ * unknown modes are rejected. Returns the number of modes imported.
+ */
+export const importModelRegistry = (json: string): number => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (e) {
+    throw new RegistryImportError('File is not valid JSON');
+  }
+  const file = parsed as { version?: unknown; modes?: unknown };
+  if (typeof parsed !== 'object' || parsed === null || file.version !== EXPORT_VERSION) {
+    throw new RegistryImportError(`Unsupported registry file (expected version ${EXPORT_VERSION})`);
+  }
+  if (typeof file.modes !== 'object' || file.modes === null) throw new RegistryImportError('Registry file has no modes');
+
+  const next: Overrides = { ...getOverrides() };
+  const entries = Object.entries(file.modes as Record<string, unknown>);
+  entries.forEach(([mode, value]) => {
+    if (!isRegistryMode(mode)) throw new RegistryImportError(`Unknown mode "${mode.slice(0, 32)}"`);
+    next[mode] = parseModeSettings(mode, value);
+  });
+  setOverrides(next);
+  return entries.length;
+};
@@ -0,0 +1,97 @@
+import { useEffect, useState } from 'react';
+import { INTEL_MODES, IntelMode, OperatorProfile } from '../types';
+
+const STORAGE_KEY = 'meli_operator_profile';
+
+export const CALLSIGN_PATTERN = /^[A-Z0-9][A-Z0-9_-]{1,15}$/;
+export const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+export const PROFILE_COLORS = ['#00fff2', '#3b82f6', '#a855f7', '#22c55e', '#f59e0b', '#ef4444', '#ec4899', '#f0f0f0'];
+
+type ProfileListener = (profile: OperatorProfile) => void;
+const listeners = new Set<ProfileListener>();
+
+const createDefaultProfile = (): OperatorProfile => ({
+  callsign: `OP-${Math.floor(Math.random() * 9000) + 1000}`,
+  color: PROFILE_COLORS[0],
+  defaultMode: 'flash',
+});
+
+/**
+ * Returns a list of problems with a candidate profile; empty when it can be saved.
+ */
+export const validateOperatorProfile = (profile: OperatorProfile): string[] => {
+  const problems: string[] = [];
+  if (!CALLSIGN_PATTERN.test(profile.callsign)) {
+    problems.push('Callsign must be 2-16 characters: A-Z, 0-9, "-" or "_".');
+  }
+  if (!COLOR_PATTERN.test(profile.color)) problems.push('Display colour must be a #RRGGBB value.');
+  if (!INTEL_MODES.includes(profile.defaultMode)) problems.push('Default mode is not a known Intel mode.');
+  return problems;
+};
+
+const readStoredProfile = (): OperatorProfile | null => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw);
+    const profile: OperatorProfile = {
+      callsign: String(parsed.callsign || ''),
+      color: String(parsed.color || ''),
+      defaultMode: parsed.defaultMode as IntelMode,
+    };
+    return validateOperatorProfile(profile).length === 0 ? profile : null;
+  } catch (e) {
+    console.warn('Stored operator profile is unreadable', e);
+    return null;
+  }
+};
+
+const writeStoredProfile = (profile: OperatorProfile) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profile));
+  } catch (e) {
+    console.warn('Unable to persist operator profile', e);
+  }
+};
+
+let current: OperatorProfile | null = null;
+
+/**
+ * The active profile. A fresh random callsign is generated and saved on first run,
+ * so the identity stays stable across reloads from then on.
+ */
+export const getOperatorProfile = (): OperatorProfile => {
+  if (!current) {
+    current = readStoredProfile();
+    if (!current) {
+      current = createDefaultProfile();
+      writeStoredProfile(current);
+    }
+  }
+  return current;
+};
+
+/**
+ * Persists a profile and notifies subscribers. Throws if the profile is invalid.
+ */
+export const saveOperatorProfile = (profile: OperatorProfile) => {
+  const problems = validateOperatorProfile(profile);
+  if (problems.length > 0) throw new Error(problems.join(' '));
+  current = { ...profile };
+  writeStoredProfile(current);
+  listeners.forEach(listener => listener(current!));
+};
+
+export const subscribeOperatorProfile = (listener: ProfileListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const useOperatorProfile = (): OperatorProfile => {
+  const [profile, setProfile] = useState(getOperatorProfile);
+  useEffect(() => subscribeOperatorProfile(setProfile), []);
+  return profile;
+};
@@ -0,0 +1,145 @@
+import { useEffect, useState } from 'react';
+
+const STORAGE_KEY = 'meli_preferences';
+
+export const ASPECT_RATIOS = ['1:1', '16:9', '9:16', '4:3', '3:4'];
+export const IMAGE_SIZES = ['1K', '2K', '4K'];
+export const VIDEO_RATIOS = ['16:9', '9:16'];
+export const VOICES = ['Puck', 'Charon', 'Kore', 'Fenrir', 'Aoede', 'Leda', 'Orus', 'Zephyr'];
+export const LOG_CAPACITIES = [200, 1000, 5000, 20000];
+export const IDLE_LOCK_MINUTES = [0, 5, 15, 30, 60]; // 0 disables the idle lock
+
+export interface Preferences {
+  interface: {
+    theme: 'dark' | 'light';
+    sidebarOpen: boolean;
+  };
+  visualOps: {
+    aspectRatio: string;
+    imageSize: string;
+  };
+  mediaLab: {
+    videoRatio: string;
+    ttsVoice: string;
+  };
+  liveComms: {
+    voice: string;
+  };
+  logs: {
+    capacity: number; // Entries kept in the persistent log history
+    shareOverMesh: boolean; // Publish entries to, and merge entries from, other operators
+  };
+  security: {
+    idleLockMinutes: number; // Applies once a passcode is set
+  };
+}
+
+export const DEFAULT_PREFERENCES: Preferences = {
+  interface: { theme: 'dark', sidebarOpen: true },
+  visualOps: { aspectRatio: '1:1', imageSize: '1K' },
+  mediaLab: { videoRatio: '16:9', ttsVoice: 'Kore' },
+  liveComms: { voice: 'Zephyr' },
+  logs: { capacity: 1000, shareOverMesh: false },
+  security: { idleLockMinutes: 15 },
+};
+
+type PreferencesListener = (preferences: Preferences) => void;
+const listeners = new Set<PreferencesListener>();
+
+const pick = (value: unknown, allowed: string[], fallback: string) =>
+  typeof value === 'string' && allowed.includes(value) ? value : fallback;
+
+const pickNumber = (value: unknown, allowed: number[], fallback: number) =>
+  typeof value === 'number' && allowed.includes(value) ? value : fallback;
+
+const pickBoolean = (value: unknown, fallback: boolean) => (typeof value === 'boolean' ? value : fallback);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// One stored preference group, or an empty one when it is missing or malformed
+const groupOf = (raw: unknown, key: keyof Preferences): Record<string, unknown> => {
+  const group = isRecord(raw) ? raw[key] : undefined;
+  return isRecord(group) ? group : {};
+};
+
+// Stored values are checked one by one so a single bad field does not discard the rest
+const sanitize = (raw: unknown): Preferences => {
+  const d = DEFAULT_PREFERENCES;
+  const ui = groupOf(raw, 'interface');
+  const visualOps = groupOf(raw, 'visualOps');
+  const mediaLab = groupOf(raw, 'mediaLab');
+  const logs = groupOf(raw, 'logs');
+  return {
+    interface: {
+      theme: ui.theme === 'light' ? 'light' : 'dark',
+      sidebarOpen: pickBoolean(ui.sidebarOpen, d.interface.sidebarOpen),
+    },
+    visualOps: {
+      aspectRatio: pick(visualOps.aspectRatio, ASPECT_RATIOS, d.visualOps.aspectRatio),
+      imageSize: pick(visualOps.imageSize, IMAGE_SIZES, d.visualOps.imageSize),
+    },
+    mediaLab: {
+      videoRatio: pick(mediaLab.videoRatio, VIDEO_RATIOS, d.mediaLab.videoRatio),
+      ttsVoice: pick(mediaLab.ttsVoice, VOICES, d.mediaLab.ttsVoice),
+    },
+    liveComms: {
+      voice: pick(groupOf(raw, 'liveComms').voice, VOICES, d.liveComms.voice),
+    },
+    logs: {
+      capacity: pickNumber(logs.capacity, LOG_CAPACITIES, d.logs.capacity),
+      shareOverMesh: pickBoolean(logs.shareOverMesh, d.logs.shareOverMesh),
+    },
+    security: {
+      idleLockMinutes: pickNumber(groupOf(raw, 'security').idleLockMinutes, IDLE_LOCK_MINUTES, d.security.idleLockMinutes),
+    },
+  };
+};
+
+let current: Preferences | null = null;
+
+export const getPreferences = (): Preferences => {
+  if (!current) {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      current = sanitize(raw ? JSON.parse(raw) : null);
+    } catch (e) {
+      console.warn('Stored preferences are unreadable; using defaults', e);
+      current = sanitize(null);
+    }
+  }
+  return current;
+};
+
+const setPreferences = (next: Preferences) => {
+  current = next;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch (e) {
+    console.warn('Unable to persist preferences', e);
+  }
+  listeners.forEach(listener => listener(next));
+};
+
+/**
+ * Updates one preference group, e.g. updatePreferences('visualOps', { imageSize: '2K' }).
+ */
+export const updatePreferences = <K extends keyof Preferences>(group: K, patch: Partial<Preferences[K]>) => {
+  const prefs = getPreferences();
+  setPreferences(sanitize({ ...prefs, [group]: { ...prefs[group], ...patch } }));
+};
+
+export const resetPreferences = () => setPreferences(DEFAULT_PREFERENCES);
+
+export const subscribePreferences = (listener: PreferencesListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const usePreferences = (): Preferences => {
+  const [snapshot, setSnapshot] = useState(getPreferences);
+  useEffect(() => subscribePreferences(setSnapshot), []);
+  return snapshot;
+};
@@ -0,0 +1,92 @@
+import { useEffect, useRef, useState } from 'react';
+import { LogEntry, ModuleView, OperatorPresence } from '../types';
+import { useMesh } from './mesh';
+import { subscribeShutdown } from './shutdown';
+
+export const PRESENCE_HEARTBEAT_MS = 5000;
+export const PRESENCE_STALE_MS = 15000;
+
+interface PresenceOptions {
+  identity: string;
+  color?: string;
+  activeModule: ModuleView;
+  addLog: (source: string, message: string, type?: LogEntry['type']) => void;
+}
+
+/**
+ * Announces this operator on the mesh and tracks everyone else who does.
+ * Peers that miss heartbeats for PRESENCE_STALE_MS are dropped from the roster.
+ */
+export const usePresence = ({ identity, color, activeModule, addLog }: PresenceOptions): OperatorPresence[] => {
+  const [peers, setPeers] = useState<Record<string, OperatorPresence>>({});
+  const peersRef = useRef(peers);
+  peersRef.current = peers;
+  const activeModuleRef = useRef(activeModule);
+  activeModuleRef.current = activeModule;
+  const colorRef = useRef(color);
+  colorRef.current = color;
+
+  const publish = useMesh((message) => {
+    if (message.type === 'PRESENCE_HEARTBEAT') {
+      const { operatorId, activeModule: peerModule, color: peerColor } = message.payload;
+      if (operatorId === identity) return;
+      const isNew = !peersRef.current[operatorId];
+      setPeers(prev => ({ ...prev, [operatorId]: { operatorId, color: peerColor, activeModule: peerModule, lastSeen: Date.now() } }));
+      if (isNew) {
+        addLog('NET', `Operator ${operatorId} joined the mesh.`, 'success');
+        // Answer right away so the newcomer does not wait a full interval to see us
+        sendHeartbeat();
+      }
+    } else if (message.type === 'PRESENCE_LEAVE') {
+      const { operatorId } = message.payload;
+      if (!peersRef.current[operatorId]) return;
+      setPeers(({ [operatorId]: _gone, ...rest }) => rest);
+      addLog('NET', `Operator ${operatorId} left the mesh.`, 'warning');
+    }
+  });
+
+  const sendHeartbeat = () => {
+    publish({ type: 'PRESENCE_HEARTBEAT', payload: { operatorId: identity, activeModule: activeModuleRef.current, color: colorRef.current } });
+  };
+
+  // Heartbeat + stale-peer sweep
+  useEffect(() => {
+    addLog('NET', `Joined mesh network as ${identity}`, 'success');
+    sendHeartbeat();
+
+    const interval = setInterval(() => {
+      sendHeartbeat();
+      const cutoff = Date.now() - PRESENCE_STALE_MS;
+      const stale = (Object.values(peersRef.current) as OperatorPresence[]).filter(peer => peer.lastSeen < cutoff);
+      if (stale.length === 0) return;
+      setPeers(prev => {
+        const next = { ...prev };
+        stale.forEach(peer => delete next[peer.operatorId]);
+        return next;
+      });
+      stale.forEach(peer => addLog('NET', `Operator ${peer.operatorId} signal lost (timed out).`, 'warning'));
+    }, PRESENCE_HEARTBEAT_MS);
+
+    const announceLeave = () => publish({ type: 'PRESENCE_LEAVE', payload: { operatorId: identity } });
+    window.addEventListener('pagehide', announceLeave);
+    // A halted console leaves the roster instead of heartbeating until the tab is closed
+    const unsubscribeShutdown = subscribeShutdown(() => {
+      clearInterval(interval);
+      announceLeave();
+    });
+
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('pagehide', announceLeave);
+      unsubscribeShutdown();
+      announceLeave();
+    };
+  }, [identity]);
+
+  // Let peers see module switches and profile edits immediately
+  useEffect(() => {
+    sendHeartbeat();
+  }, [activeModule, color]);
+
+  return (Object.values(peers) as OperatorPresence[]).sort((a, b) => a.operatorId.localeCompare(b.operatorId));
+};
@@ -0,0 +1,43 @@
+import { useEffect, useState } from 'react';
+
+const RENDER_LIMIT = 8;
+
+export interface RenderRecord {
+  id: string;
+  url: string;     // Data URL of the generated image
+  prompt: string;
+  mode: string;    // generate or edit
+  time: number;
+}
+
+type RenderListener = (renders: RenderRecord[]) => void;
+const listeners = new Set<RenderListener>();
+
+// Newest first. Kept in memory only: images are large and the dashboard shows this session.
+let renders: RenderRecord[] = [];
+
+export const recordRender = (render: Omit<RenderRecord, 'id' | 'time'>) => {
+  const time = Date.now();
+  renders = [{ ...render, id: `${time}-${Math.random().toString(36).slice(2, 8)}`, time }, ...renders].slice(0, RENDER_LIMIT);
+  listeners.forEach(listener => listener(renders));
+};
+
+export const clearRecentRenders = () => {
+  renders = [];
+  listeners.forEach(listener => listener(renders));
+};
+
+export const getRecentRenders = () => renders;
+
+export const subscribeRecentRenders = (listener: RenderListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const useRecentRenders = (): RenderRecord[] => {
+  const [snapshot, setSnapshot] = useState(getRecentRenders);
+  useEffect(() => subscribeRecentRenders(setSnapshot), []);
+  return snapshot;
+};
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { withRetry } from './retry';
+
+const failing = () => {
+  let calls = 0;
+  const operation = async () => {
+    calls++;
+    throw new Error('transient');
+  };
+  return { operation, calls: () => calls };
+};
+
+describe('withRetry', () => {
+  it('stops waiting and rejects as soon as the signal aborts', async () => {
+    const controller = new AbortController();
+    const { operation, calls } = failing();
+    const run = withRetry(operation, {
+      shouldRetry: () => true,
+      policy: { baseDelayMs: 60000, maxDelayMs: 60000 },
+      onRetry: () => controller.abort(),
+      signal: controller.signal,
+    });
+    await expect(run).rejects.toMatchObject({ name: 'AbortError' });
+    expect(calls()).toBe(1);
+  });
+
+  it('does not start when the signal has already aborted', async () => {
+    const { operation, calls } = failing();
+    await expect(withRetry(operation, { shouldRetry: () => true, signal: AbortSignal.abort() })).rejects.toMatchObject({ name: 'AbortError' });
+    expect(calls()).toBe(0);
+  });
+});
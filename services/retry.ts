@@ -0,0 +1,76 @@
+export interface RetryPolicy {
+  maxRetries: number;  // Attempts after the first one
+  baseDelayMs: number; // Delay ceiling for the first retry, doubled each time
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 20000,
+};
+
+export interface RetryAttempt {
+  attempt: number; // 1-based retry number
+  maxRetries: number;
+  delayMs: number;
+  error: unknown;
+}
+
+export interface RetryOptions {
+  policy?: Partial<RetryPolicy>;
+  shouldRetry: (error: unknown) => boolean;
+  retryAfterMs?: (error: unknown) => number | undefined; // Server-provided minimum wait
+  onRetry?: (attempt: RetryAttempt) => void;
+  signal?: AbortSignal; // Stops further attempts and cuts the current wait short
+}
+
+/**
+ * Exponential backoff with "equal jitter": half the ceiling is fixed, the other half random,
+ * so clients that failed together do not retry in lockstep.
+ */
+export const backoffDelay = (retry: number, policy: RetryPolicy = DEFAULT_RETRY_POLICY) => {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (retry - 1));
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+};
+
+// Server-provided waits are honoured up to this cap
+const RETRY_AFTER_CAP_MS = 60000;
+
+// Rejects with the signal's reason as soon as it aborts
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Runs `operation`, retrying it while `shouldRetry` accepts the error and attempts remain.
+ * The last error is rethrown unchanged. Once `signal` aborts, no further attempt starts.
+ */
+export const withRetry = async <T>(operation: () => Promise<T>, options: RetryOptions): Promise<T> => {
+  const policy = { ...DEFAULT_RETRY_POLICY, ...options.policy };
+  for (let retry = 0; ; retry++) {
+    options.signal?.throwIfAborted();
+    try {
+      return await operation();
+    } catch (err) {
+      if (retry >= policy.maxRetries || options.signal?.aborted || !options.shouldRetry(err)) throw err;
+      const hint = options.retryAfterMs?.(err);
+      const delayMs = Math.max(backoffDelay(retry + 1, policy), Math.min(hint || 0, RETRY_AFTER_CAP_MS));
+      options.onRetry?.({ attempt: retry + 1, maxRetries: policy.maxRetries, delayMs, error: err });
+      await sleep(delayMs, options.signal);
+    }
+  }
+};
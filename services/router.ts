@@ -0,0 +1,118 @@
+import { useEffect, useRef, useState } from 'react';
+import { ModuleView } from '../types';
+import { getSessionLock, subscribeSessionLock } from './sessionLock';
+import { isSystemHalted } from './shutdown';
+
+export const DEFAULT_VIEW = ModuleView.LIVE_COMMS;
+
+// Hash routes need no server rewrite rules, so links work on any static host
+const VIEW_PATHS: Record<ModuleView, string> = {
+  [ModuleView.DASHBOARD]: 'overview',
+  [ModuleView.INTEL]: 'intel',
+  [ModuleView.VISUAL_OPS]: 'visual-ops',
+  [ModuleView.MEDIA_LAB]: 'media-lab',
+  [ModuleView.LIVE_COMMS]: 'secure-link',
+  [ModuleView.USAGE]: 'usage',
+  [ModuleView.SETTINGS]: 'settings',
+};
+
+export interface Route {
+  view: ModuleView;
+  params: Record<string, string>; // Prefill for the module, e.g. { mode: 'web_ops', query: '...' }
+}
+
+type RouteListener = (route: Route) => void;
+const listeners = new Set<RouteListener>();
+
+/**
+ * Reads a location hash such as `#/intel?mode=web_ops&query=...`. Unknown or missing
+ * paths open the default view.
+ */
+export const parseRoute = (hash: string): Route => {
+  const [path, search = ''] = hash.replace(/^#\/?/, '').split('?');
+  const view = (Object.keys(VIEW_PATHS) as ModuleView[]).find(key => VIEW_PATHS[key] === path.toLowerCase()) ?? DEFAULT_VIEW;
+  return { view, params: Object.fromEntries(new URLSearchParams(search)) };
+};
+
+export const buildRouteHash = ({ view, params = {} }: { view: ModuleView; params?: Record<string, string> }) => {
+  const search = new URLSearchParams(Object.entries(params).filter(([, value]) => value !== '')).toString();
+  return `#/${VIEW_PATHS[view]}${search ? `?${search}` : ''}`;
+};
+
+let current: Route = parseRoute(typeof location !== 'undefined' ? location.hash : '');
+// Bumped for every history entry visited, so a deep link is applied once per visit
+let sequence = 0;
+
+const onHashChange = () => {
+  current = parseRoute(location.hash);
+  sequence++;
+  listeners.forEach(listener => listener(current));
+};
+
+export const getRoute = () => current;
+
+/**
+ * Opens a view, adding a history entry so back and forward move between modules.
+ */
+export const navigateTo = (view: ModuleView, params?: Record<string, string>) => {
+  const hash = buildRouteHash({ view, params });
+  if (hash !== location.hash) location.hash = hash; // Fires hashchange
+};
+
+// Rewrites the current entry without a new history step or a new visit
+const replaceRoute = (route: Route) => {
+  history.replaceState(history.state, '', buildRouteHash(route));
+  current = route;
+};
+
+export const subscribeRoute = (listener: RouteListener) => {
+  if (listeners.size === 0) window.addEventListener('hashchange', onHashChange);
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) window.removeEventListener('hashchange', onHashChange);
+  };
+};
+
+export const useRoute = (): Route => {
+  const [route, setRoute] = useState(getRoute);
+  useEffect(() => {
+    setRoute(getRoute());
+    return subscribeRoute(setRoute);
+  }, []);
+  return route;
+};
+
+const appliedVisits = new Map<ModuleView, number>();
+
+/**
+ * Hands a module the parameters of a deep link into its view, on load and whenever back,
+ * forward or a new link lands on it. `run=1` asks the module to execute as well. The run
+ * flag is then dropped from the URL, so a reload or a later return prefills without
+ * running again. A link that lands while the console is locked waits for the unlock; a
+ * halted console ignores links.
+ */
+export const useDeepLink = (view: ModuleView, onLink: (params: Record<string, string>, autoRun: boolean) => void) => {
+  const onLinkRef = useRef(onLink);
+  onLinkRef.current = onLink;
+
+  useEffect(() => {
+    const apply = () => {
+      if (current.view !== view || appliedVisits.get(view) === sequence) return;
+      if (getSessionLock().locked || isSystemHalted()) return;
+      appliedVisits.set(view, sequence);
+      const { run, ...params } = current.params;
+      const autoRun = run === '1' || run === 'true';
+      if (Object.keys(params).length === 0) return;
+      onLinkRef.current(params, autoRun);
+      if (autoRun) replaceRoute({ view, params });
+    };
+    apply();
+    const unsubscribeRoute = subscribeRoute(apply);
+    const unsubscribeLock = subscribeSessionLock(apply);
+    return () => {
+      unsubscribeRoute();
+      unsubscribeLock();
+    };
+  }, [view]);
+};
@@ -0,0 +1,166 @@
+import { useEffect, useState } from 'react';
+
+const PASSCODE_KEY = 'meli_lock_passcode';
+const LOCKED_KEY = 'meli_locked';
+
+export const PASSCODE_MIN_LENGTH = 4;
+const MAX_FAILED_ATTEMPTS = 5;
+const ATTEMPT_LOCKOUT_MS = 30000;
+const IDLE_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart'];
+
+interface StoredPasscode {
+  salt: string; // Hex
+  hash: string; // Hex SHA-256 of salt + passcode
+}
+
+export interface SessionLockState {
+  locked: boolean;
+  hasPasscode: boolean;
+}
+
+type LockListener = (state: SessionLockState) => void;
+const listeners = new Set<LockListener>();
+
+let failedAttempts = 0;
+let lockedOutUntil = 0;
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+const digest = async (salt: string, passcode: string) =>
+  toHex(new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${salt}:${passcode}`))));
+
+const readPasscode = (): StoredPasscode | null => {
+  try {
+    const raw = localStorage.getItem(PASSCODE_KEY);
+    const parsed = raw ? JSON.parse(raw) : null;
+    return typeof parsed?.salt === 'string' && typeof parsed?.hash === 'string' ? parsed : null;
+  } catch (e) {
+    console.warn('Stored passcode is unreadable', e);
+    return null;
+  }
+};
+
+// The lock survives a reload, so refreshing the page is not a way past it
+const readLocked = () => {
+  try {
+    return localStorage.getItem(LOCKED_KEY) === '1' && readPasscode() !== null;
+  } catch (e) {
+    return false;
+  }
+};
+
+let state: SessionLockState = { locked: readLocked(), hasPasscode: readPasscode() !== null };
+
+const setState = (patch: Partial<SessionLockState>) => {
+  state = { ...state, ...patch };
+  try {
+    localStorage.setItem(LOCKED_KEY, state.locked ? '1' : '0');
+  } catch (e) {
+    console.warn('Unable to persist lock state', e);
+  }
+  listeners.forEach(listener => listener(state));
+};
+
+export const getSessionLock = () => state;
+
+// Tabs of one session share the lock: locking, unlocking or changing the passcode in one
+// applies to all, so another tab is not a way past it
+if (typeof window !== 'undefined') {
+  window.addEventListener('storage', (event) => {
+    if (event.key !== LOCKED_KEY && event.key !== PASSCODE_KEY && event.key !== null) return;
+    const next = { locked: readLocked(), hasPasscode: readPasscode() !== null };
+    if (next.locked === state.locked && next.hasPasscode === state.hasPasscode) return;
+    state = next;
+    listeners.forEach(listener => listener(state));
+  });
+}
+
+/**
+ * Checks a passcode against the stored hash. Repeated failures lock out further attempts
+ * for a while; the returned message says why an attempt was refused.
+ */
+export const verifyPasscode = async (passcode: string): Promise<{ ok: boolean; message?: string }> => {
+  const stored = readPasscode();
+  if (!stored) return { ok: true };
+  const wait = lockedOutUntil - Date.now();
+  if (wait > 0) return { ok: false, message: `Too many attempts. Retry in ${Math.ceil(wait / 1000)}s.` };
+  if ((await digest(stored.salt, passcode)) === stored.hash) {
+    failedAttempts = 0;
+    return { ok: true };
+  }
+  failedAttempts++;
+  if (failedAttempts >= MAX_FAILED_ATTEMPTS) {
+    failedAttempts = 0;
+    lockedOutUntil = Date.now() + ATTEMPT_LOCKOUT_MS;
+    return { ok: false, message: `Too many attempts. Retry in ${ATTEMPT_LOCKOUT_MS / 1000}s.` };
+  }
+  return { ok: false, message: 'Passcode rejected.' };
+};
+
+/**
+ * Stores a new passcode. Only a salted hash is kept. Throws when it is too short.
+ */
+export const setPasscode = async (passcode: string) => {
+  if (passcode.length < PASSCODE_MIN_LENGTH) throw new Error(`Passcode must be at least ${PASSCODE_MIN_LENGTH} characters.`);
+  const salt = toHex(crypto.getRandomValues(new Uint8Array(16)));
+  const stored: StoredPasscode = { salt, hash: await digest(salt, passcode) };
+  localStorage.setItem(PASSCODE_KEY, JSON.stringify(stored));
+  setState({ hasPasscode: true });
+};
+
+export const clearPasscode = () => {
+  try {
+    localStorage.removeItem(PASSCODE_KEY);
+  } catch (e) {
+    console.warn('Unable to remove passcode', e);
+  }
+  setState({ hasPasscode: false, locked: false });
+};
+
+/**
+ * Locks the session. Without a passcode there would be no way to prove who unlocks, so
+ * this does nothing until one is set.
+ */
+export const lockSession = () => {
+  if (!state.hasPasscode || state.locked) return;
+  setState({ locked: true });
+};
+
+export const unlockSession = async (passcode: string) => {
+  const result = await verifyPasscode(passcode);
+  if (result.ok) setState({ locked: false });
+  return result;
+};
+
+export const subscribeSessionLock = (listener: LockListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const useSessionLock = (): SessionLockState => {
+  const [snapshot, setSnapshot] = useState(getSessionLock);
+  useEffect(() => subscribeSessionLock(setSnapshot), []);
+  return snapshot;
+};
+
+/**
+ * Locks the session after `minutes` without pointer or keyboard input. 0 disables it.
+ */
+export const useIdleLock = (minutes: number) => {
+  useEffect(() => {
+    if (minutes <= 0) return;
+    let timer: ReturnType<typeof setTimeout>;
+    const reset = () => {
+      clearTimeout(timer);
+      timer = setTimeout(lockSession, minutes * 60 * 1000);
+    };
+    reset();
+    IDLE_EVENTS.forEach(event => window.addEventListener(event, reset, { passive: true }));
+    return () => {
+      clearTimeout(timer);
+      IDLE_EVENTS.forEach(event => window.removeEventListener(event, reset));
+    };
+  }, [minutes]);
+};
@@ -0,0 +1,51 @@
+import { clearCommandHistory } from './commandPalette';
+import { cancelAllJobs } from './jobManager';
+import { clearLogs } from './logStore';
+import { haltMesh } from './mesh';
+import { clearRecentRenders } from './recentRenders';
+
+export interface ShutdownOptions {
+  wipe: boolean; // Also discard local chat, logs and generated artifacts
+}
+
+type ShutdownListener = (options: ShutdownOptions) => void;
+const listeners = new Set<ShutdownListener>();
+
+let halted = false;
+
+// Stays true until the page is reloaded; late callbacks check it before sending anything
+export const isSystemHalted = () => halted;
+
+/**
+ * Modules that hold sessions, devices or results subscribe here: every listener must end
+ * its Live session and stop its camera and microphone tracks, and clear what it holds
+ * when `wipe` is set.
+ */
+export const subscribeShutdown = (listener: ShutdownListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Brings every module to a stop: sessions and devices are released and background jobs
+ * cancelled. With `wipe`, stored log history and in-memory artifacts are discarded too.
+ */
+export const shutdownSystem = async (options: ShutdownOptions) => {
+  halted = true;
+  listeners.forEach(listener => {
+    try {
+      listener(options);
+    } catch (err) {
+      console.error('Shutdown handler failed', err);
+    }
+  });
+  cancelAllJobs();
+  haltMesh(); // After the listeners, so presence can still announce its departure
+  if (options.wipe) {
+    clearRecentRenders();
+    clearCommandHistory(); // Recent commands carry queries and prompts
+    await clearLogs();
+  }
+};
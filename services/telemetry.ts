@@ -0,0 +1,256 @@
+import { useEffect, useState } from 'react';
+import { getJobs, subscribeJobs } from './jobManager';
+
+const WINDOW_MS = 5 * 60 * 1000; // API calls older than this no longer count toward the stats
+const MAX_SAMPLES = 500;
+const SAMPLE_INTERVAL_MS = 2000; // Heap and connection are polled; everything else is pushed
+const HISTORY_LENGTH = 90;       // Three minutes of samples, for trend charts
+
+export type LiveLinkState = 'IDLE' | 'CONNECTING' | 'OPEN' | 'ERROR';
+export type ThreatLevel = 'NORMAL' | 'ELEVATED' | 'CRITICAL';
+
+export interface ApiCallSample {
+  label: string;      // e.g. INTEL/search
+  durationMs: number;
+  ok: boolean;
+  errorKind?: string;
+  time: number;
+}
+
+export interface NetworkInfo {
+  online: boolean;
+  effectiveType?: string; // From the Network Information API, where supported
+  downlinkMbps?: number;
+  rttMs?: number;
+}
+
+export interface HeapInfo {
+  usedBytes: number;
+  limitBytes: number;
+}
+
+export interface TelemetrySnapshot {
+  time: number;
+  api: {
+    calls: number;          // Within the window
+    errors: number;
+    errorRate: number;      // 0..1
+    p50: number | null;     // Latency percentiles in ms, null without calls
+    p95: number | null;
+    p99: number | null;
+    lastError?: string;
+  };
+  activeJobs: number;
+  live: { state: LiveLinkState; sessions: number };
+  network: NetworkInfo;
+  heap: HeapInfo | null;    // Only Chromium exposes heap size
+  threatLevel: ThreatLevel;
+}
+
+export interface TelemetryPoint {
+  time: number;
+  p50: number | null;
+  p95: number | null;
+  errorRate: number;
+  activeJobs: number;
+}
+
+type TelemetryListener = (snapshot: TelemetrySnapshot) => void;
+const listeners = new Set<TelemetryListener>();
+
+let samples: ApiCallSample[] = [];
+let liveSessions = 0;
+let liveConnecting = 0;
+let liveFailed = false;
+let current: TelemetrySnapshot | null = null;
+let history: TelemetryPoint[] = [];
+let sampleTimer: ReturnType<typeof setInterval> | null = null;
+
+// --- Collection ---
+
+const percentile = (sorted: number[], p: number) =>
+  sorted.length === 0 ? null : sorted[Math.min(sorted.length - 1, Math.floor((p / 100) * sorted.length))];
+
+// Chromium-only APIs that the DOM typings leave out; every field is checked before use
+interface NetworkInformation extends EventTarget {
+  effectiveType?: string;
+  downlink?: number;
+  rtt?: number;
+}
+
+interface PerformanceMemory {
+  usedJSHeapSize?: number;
+  jsHeapSizeLimit?: number;
+}
+
+const getConnection = (): NetworkInformation | undefined =>
+  typeof navigator !== 'undefined' && 'connection' in navigator && navigator.connection instanceof EventTarget
+    ? navigator.connection
+    : undefined;
+
+const readNetwork = (): NetworkInfo => {
+  if (typeof navigator === 'undefined') return { online: true };
+  const connection = getConnection();
+  return {
+    online: navigator.onLine,
+    effectiveType: typeof connection?.effectiveType === 'string' ? connection.effectiveType : undefined,
+    downlinkMbps: typeof connection?.downlink === 'number' ? connection.downlink : undefined,
+    rttMs: typeof connection?.rtt === 'number' ? connection.rtt : undefined,
+  };
+};
+
+const readHeap = (): HeapInfo | null => {
+  if (typeof performance === 'undefined' || !('memory' in performance)) return null;
+  const memory = performance.memory as PerformanceMemory | undefined;
+  if (typeof memory?.usedJSHeapSize !== 'number' || !memory.jsHeapSizeLimit) return null;
+  return { usedBytes: memory.usedJSHeapSize, limitBytes: memory.jsHeapSizeLimit };
+};
+
+/**
+ * Offline or mostly failing calls are critical; a noticeable error rate, slow responses
+ * or a failed Live link raise the level to elevated.
+ */
+const assessThreat = (snapshot: Omit<TelemetrySnapshot, 'threatLevel'>): ThreatLevel => {
+  const { api, network, live } = snapshot;
+  if (!network.online || (api.calls >= 4 && api.errorRate >= 0.5)) return 'CRITICAL';
+  if (api.errorRate >= 0.1 || (api.p95 !== null && api.p95 > 15000) || live.state === 'ERROR') return 'ELEVATED';
+  return 'NORMAL';
+};
+
+const buildSnapshot = (): TelemetrySnapshot => {
+  const now = Date.now();
+  samples = samples.filter(sample => sample.time >= now - WINDOW_MS);
+  const latencies = samples.map(sample => sample.durationMs).sort((a, b) => a - b);
+  const failures = samples.filter(sample => !sample.ok);
+
+  const snapshot = {
+    time: now,
+    api: {
+      calls: samples.length,
+      errors: failures.length,
+      errorRate: samples.length ? failures.length / samples.length : 0,
+      p50: percentile(latencies, 50),
+      p95: percentile(latencies, 95),
+      p99: percentile(latencies, 99),
+      lastError: failures.length ? failures[failures.length - 1].errorKind : undefined,
+    },
+    activeJobs: getJobs().filter(job => job.status === 'queued' || job.status === 'running').length,
+    live: {
+      state: (liveSessions > 0 ? 'OPEN' : liveConnecting > 0 ? 'CONNECTING' : liveFailed ? 'ERROR' : 'IDLE') as LiveLinkState,
+      sessions: liveSessions,
+    },
+    network: readNetwork(),
+    heap: readHeap(),
+  };
+  return { ...snapshot, threatLevel: assessThreat(snapshot) };
+};
+
+const emit = () => {
+  current = buildSnapshot();
+  const snapshot = current;
+  listeners.forEach(listener => listener(snapshot));
+};
+
+const sample = () => {
+  emit();
+  const { time, api, activeJobs } = current!;
+  history = [...history, { time, p50: api.p50, p95: api.p95, errorRate: api.errorRate, activeJobs }].slice(-HISTORY_LENGTH);
+};
+
+// Sampling and browser listeners run only while something is subscribed
+const start = () => {
+  sampleTimer = setInterval(sample, SAMPLE_INTERVAL_MS);
+  window.addEventListener('online', emit);
+  window.addEventListener('offline', emit);
+  getConnection()?.addEventListener('change', emit);
+  const unsubscribeJobs = subscribeJobs(emit);
+  return () => {
+    if (sampleTimer) clearInterval(sampleTimer);
+    sampleTimer = null;
+    window.removeEventListener('online', emit);
+    window.removeEventListener('offline', emit);
+    getConnection()?.removeEventListener('change', emit);
+    unsubscribeJobs();
+  };
+};
+
+let stop: (() => void) | null = null;
+
+// --- Reporting (called by the Gemini client) ---
+
+export const recordApiCall = (call: Omit<ApiCallSample, 'time'>) => {
+  samples = [...samples, { ...call, time: Date.now() }].slice(-MAX_SAMPLES);
+  if (listeners.size > 0) emit();
+};
+
+/**
+ * Tracks one Live session through its lifecycle. Returns callbacks for the caller to
+ * invoke as the session opens, fails or closes; each is safe to call more than once.
+ */
+export const trackLiveSession = () => {
+  let phase: 'connecting' | 'open' | 'done' = 'connecting';
+  liveConnecting++;
+  const update = () => {
+    if (listeners.size > 0) emit();
+  };
+  return {
+    opened: () => {
+      if (phase !== 'connecting') return;
+      phase = 'open';
+      liveConnecting--;
+      liveSessions++;
+      liveFailed = false;
+      update();
+    },
+    failed: () => {
+      if (phase === 'done') return;
+      if (phase === 'connecting') liveConnecting--;
+      else liveSessions--;
+      phase = 'done';
+      liveFailed = true;
+      update();
+    },
+    closed: () => {
+      if (phase === 'done') return;
+      if (phase === 'connecting') liveConnecting--;
+      else liveSessions--;
+      phase = 'done';
+      update();
+    },
+  };
+};
+
+// --- Formatting ---
+
+export const formatLatency = (ms: number | null) =>
+  ms === null ? '--' : ms < 1000 ? `${Math.round(ms)}ms` : `${(ms / 1000).toFixed(1)}s`;
+
+export const formatBytes = (bytes: number) => `${Math.round(bytes / (1024 * 1024))}MB`;
+
+// --- Access ---
+
+export const getTelemetry = (): TelemetrySnapshot => {
+  if (!current) current = buildSnapshot();
+  return current;
+};
+
+// Taken on the sampling interval while telemetry has subscribers, oldest first
+export const getTelemetryHistory = (): TelemetryPoint[] => history;
+
+export const subscribeTelemetry = (listener: TelemetryListener) => {
+  listeners.add(listener);
+  if (!stop) stop = start();
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0 && stop) {
+      stop();
+      stop = null;
+    }
+  };
+};
+
+export const useTelemetry = (): TelemetrySnapshot => {
+  const [snapshot, setSnapshot] = useState(getTelemetry);
+  useEffect(() => subscribeTelemetry(setSnapshot), []);
+  return snapshot;
+};
@@ -0,0 +1,307 @@
+import { useEffect, useState } from 'react';
+import type { GenerateContentParameters, GenerateContentResponse } from "@google/genai";
+import { BudgetPeriod, ModuleView, UsageBudget, UsageRecord } from '../types';
+import { getOperatorProfile } from './operatorProfile';
+
+const RECORDS_STORAGE_KEY = 'meli_usage_records';
+const BUDGET_STORAGE_KEY = 'meli_usage_budget';
+const RECORD_LIMIT = 5000;
+
+// Fallbacks for the pre-call estimate when the request does not say
+const ESTIMATED_OUTPUT_TOKENS = 1024;
+const TOKENS_PER_INLINE_PART = 258;
+
+/**
+ * Attribution for a metered client: which module made the call, and in which mode.
+ */
+export interface UsageContext {
+  module: ModuleView;
+  mode: string;
+}
+
+interface ModelPricing {
+  input: number;      // USD per 1M prompt tokens
+  output: number;     // USD per 1M output + thinking tokens
+  image?: number;     // USD per generated image
+  video?: number;     // USD per generated clip
+  liveMinute?: number; // USD per Live session minute
+}
+
+/**
+ * Indicative list prices used for estimates only. Matched by model-name prefix,
+ * longest first; unknown models fall back to flash pricing.
+ */
+const PRICING: Record<string, ModelPricing> = {
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+  'gemini-2.5-flash-image': { input: 0.3, output: 2.5, image: 0.039 },
+  'gemini-2.5-flash-preview-tts': { input: 0.5, output: 10 },
+  'gemini-2.5-flash-native-audio': { input: 0.5, output: 2, liveMinute: 0.06 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-3-pro-image': { input: 2, output: 12, image: 0.134 },
+  'gemini-3-pro': { input: 2, output: 12 },
+  'veo-3.1-fast': { input: 0, output: 0, video: 1.2 },
+  'veo-3.1': { input: 0, output: 0, video: 3.2 },
+};
+const FALLBACK_PRICING = PRICING['gemini-2.5-flash'];
+
+const getPricing = (model: string): ModelPricing => {
+  const key = Object.keys(PRICING)
+    .sort((a, b) => b.length - a.length)
+    .find(prefix => model.startsWith(prefix));
+  return key ? PRICING[key] : FALLBACK_PRICING;
+};
+
+type UsageCounts = Pick<UsageRecord, 'promptTokens' | 'outputTokens' | 'thinkingTokens' | 'images' | 'videos' | 'liveSeconds'>;
+
+export const estimateCost = (model: string, counts: UsageCounts): number => {
+  const price = getPricing(model);
+  return (
+    (counts.promptTokens * price.input + (counts.outputTokens + counts.thinkingTokens) * price.output) / 1_000_000 +
+    counts.images * (price.image || 0) +
+    counts.videos * (price.video || 0) +
+    (counts.liveSeconds / 60) * (price.liveMinute || 0)
+  );
+};
+
+// --- Records ---
+
+type UsageListener = (records: UsageRecord[]) => void;
+const listeners = new Set<UsageListener>();
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) as T : fallback;
+  } catch (e) {
+    console.warn(`Stored ${key} is unreadable`, e);
+    return fallback;
+  }
+};
+
+const writeJson = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (e) {
+    console.warn(`Unable to persist ${key}`, e);
+  }
+};
+
+let records: UsageRecord[] | null = null;
+
+const readRecords = (): UsageRecord[] => {
+  const stored = readJson<unknown>(RECORDS_STORAGE_KEY, []);
+  return Array.isArray(stored) ? stored as UsageRecord[] : [];
+};
+
+export const getUsageRecords = (): UsageRecord[] => {
+  if (!records) records = readRecords();
+  return records;
+};
+
+const setRecords = (next: UsageRecord[]) => {
+  records = next;
+  writeJson(RECORDS_STORAGE_KEY, records);
+  listeners.forEach(listener => listener(next));
+};
+
+/**
+ * Stores one call's usage, attributed to the current operator, and prices it.
+ */
+export const recordUsage = (context: UsageContext, model: string, counts: Partial<UsageCounts> & { totalTokens?: number }) => {
+  const full: UsageCounts = {
+    promptTokens: counts.promptTokens || 0,
+    outputTokens: counts.outputTokens || 0,
+    thinkingTokens: counts.thinkingTokens || 0,
+    images: counts.images || 0,
+    videos: counts.videos || 0,
+    liveSeconds: counts.liveSeconds || 0,
+  };
+  const record: UsageRecord = {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    timestamp: Date.now(),
+    operator: getOperatorProfile().callsign,
+    module: context.module,
+    mode: context.mode,
+    model,
+    ...full,
+    totalTokens: counts.totalTokens ?? full.promptTokens + full.outputTokens + full.thinkingTokens,
+    cost: estimateCost(model, full),
+  };
+  // Re-read first: other tabs append to the same ledger, and the cache may predate their rows
+  setRecords([...readRecords(), record].slice(-RECORD_LIMIT));
+  return record;
+};
+
+export const clearUsageRecords = () => setRecords([]);
+
+export const subscribeUsage = (listener: UsageListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const useUsageRecords = (): UsageRecord[] => {
+  const [snapshot, setSnapshot] = useState(getUsageRecords);
+  useEffect(() => subscribeUsage(setSnapshot), []);
+  return snapshot;
+};
+
+/**
+ * Reads token counts and generated images from a generateContent response.
+ */
+export const countContentUsage = (response: GenerateContentResponse): Partial<UsageCounts> & { totalTokens?: number } => {
+  const meta = response.usageMetadata;
+  const parts = response.candidates?.[0]?.content?.parts || [];
+  return {
+    promptTokens: meta?.promptTokenCount || 0,
+    outputTokens: meta?.candidatesTokenCount || 0,
+    thinkingTokens: meta?.thoughtsTokenCount || 0,
+    totalTokens: meta?.totalTokenCount,
+    images: parts.filter(part => part.inlineData?.mimeType?.startsWith('image/')).length,
+  };
+};
+
+/**
+ * Rough cost of a generateContent call before it is sent: text length for the
+ * prompt, the thinking budget plus a typical reply for the output.
+ */
+export const estimateContentCost = (params: GenerateContentParameters): number => {
+  let promptChars = 0;
+  let inlineParts = 0;
+  JSON.stringify(params.contents ?? '', (key, value) => {
+    if (key === 'inlineData') {
+      inlineParts++;
+      return undefined;
+    }
+    if (typeof value === 'string') promptChars += value.length;
+    return value;
+  });
+  const thinkingBudget = Math.max(0, params.config?.thinkingConfig?.thinkingBudget || 0);
+  const price = getPricing(params.model);
+  return estimateCost(params.model, {
+    promptTokens: Math.ceil(promptChars / 4) + inlineParts * TOKENS_PER_INLINE_PART,
+    outputTokens: ESTIMATED_OUTPUT_TOKENS,
+    thinkingTokens: thinkingBudget,
+    images: price.image ? 1 : 0,
+    videos: 0,
+    liveSeconds: 0,
+  });
+};
+
+export const estimateVideoCost = (model: string) =>
+  estimateCost(model, { promptTokens: 0, outputTokens: 0, thinkingTokens: 0, images: 0, videos: 1, liveSeconds: 0 });
+
+export const estimateLiveMinuteCost = (model: string) =>
+  estimateCost(model, { promptTokens: 0, outputTokens: 0, thinkingTokens: 0, images: 0, videos: 0, liveSeconds: 60 });
+
+// --- Budgets ---
+
+const DEFAULT_BUDGET: UsageBudget = { period: 'day', softLimit: null, hardLimit: null };
+
+type BudgetListener = (budget: UsageBudget) => void;
+const budgetListeners = new Set<BudgetListener>();
+
+export type BudgetAlertListener = (message: string) => void;
+const alertListeners = new Set<BudgetAlertListener>();
+
+let budget: UsageBudget | null = null;
+
+export const getUsageBudget = (): UsageBudget => {
+  if (!budget) budget = { ...DEFAULT_BUDGET, ...readJson<Partial<UsageBudget>>(BUDGET_STORAGE_KEY, {}) };
+  return budget;
+};
+
+export const saveUsageBudget = (next: UsageBudget) => {
+  budget = { ...next };
+  writeJson(BUDGET_STORAGE_KEY, budget);
+  budgetListeners.forEach(listener => listener(budget!));
+};
+
+export const useUsageBudget = (): UsageBudget => {
+  const [snapshot, setSnapshot] = useState(getUsageBudget);
+  useEffect(() => {
+    budgetListeners.add(setSnapshot);
+    return () => {
+      budgetListeners.delete(setSnapshot);
+    };
+  }, []);
+  return snapshot;
+};
+
+// Every tab shares the ledger and budget; pick up another tab's writes as they happen
+if (typeof window !== 'undefined') {
+  window.addEventListener('storage', (event) => {
+    if (event.key === RECORDS_STORAGE_KEY || event.key === null) {
+      records = readRecords();
+      listeners.forEach(listener => listener(records!));
+    }
+    if (event.key === BUDGET_STORAGE_KEY || event.key === null) {
+      budget = null;
+      const next = getUsageBudget();
+      budgetListeners.forEach(listener => listener(next));
+    }
+  });
+}
+
+export const getPeriodStart = (period: BudgetPeriod, now = new Date()) =>
+  period === 'day'
+    ? new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime()
+    : new Date(now.getFullYear(), now.getMonth(), 1).getTime();
+
+export const getPeriodSpend = (period: BudgetPeriod) => {
+  const start = getPeriodStart(period);
+  return getUsageRecords().reduce((sum, record) => (record.timestamp >= start ? sum + record.cost : sum), 0);
+};
+
+export type BudgetVerdict = { level: 'ok' | 'soft' | 'hard'; message: string };
+
+/**
+ * Compares the period spend plus an upcoming call against the configured limits.
+ * Soft-limit warnings are also pushed to budget alert subscribers.
+ */
+export const checkBudget = (estimatedCost: number, description: string): BudgetVerdict => {
+  const { period, softLimit, hardLimit } = getUsageBudget();
+  const projected = getPeriodSpend(period) + estimatedCost;
+  const periodLabel = period === 'day' ? 'daily' : 'monthly';
+  const cost = `~$${estimatedCost.toFixed(3)}`;
+
+  if (hardLimit !== null && projected > hardLimit) {
+    return { level: 'hard', message: `${description} (${cost}) blocked: ${periodLabel} hard budget of $${hardLimit.toFixed(2)} would be exceeded.` };
+  }
+  if (softLimit !== null && projected > softLimit) {
+    const message = `${description} (${cost}) exceeds the ${periodLabel} soft budget of $${softLimit.toFixed(2)}. Projected spend $${projected.toFixed(2)}.`;
+    alertListeners.forEach(listener => listener(message));
+    return { level: 'soft', message };
+  }
+  return { level: 'ok', message: '' };
+};
+
+export const subscribeBudgetAlerts = (listener: BudgetAlertListener) => {
+  alertListeners.add(listener);
+  return () => {
+    alertListeners.delete(listener);
+  };
+};
+
+// --- Export ---
+
+const CSV_COLUMNS: (keyof UsageRecord)[] = [
+  'timestamp', 'operator', 'module', 'mode', 'model',
+  'promptTokens', 'outputTokens', 'thinkingTokens', 'totalTokens',
+  'images', 'videos', 'liveSeconds', 'cost',
+];
+
+const csvCell = (value: unknown) => {
+  const text = String(value ?? '');
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const usageToCsv = (rows: UsageRecord[]) => [
+  CSV_COLUMNS.join(','),
+  ...rows.map(row => CSV_COLUMNS.map(column =>
+    column === 'timestamp' ? new Date(row.timestamp).toISOString() :
+    column === 'cost' ? row.cost.toFixed(6) :
+    csvCell(row[column])
+  ).join(',')),
+].join('\n');
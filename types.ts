@@ -3,15 +3,35 @@ export enum ModuleView {
   INTEL = 'INTEL',
   VISUAL_OPS = 'VISUAL_OPS',
   MEDIA_LAB = 'MEDIA_LAB',
-  LIVE_COMMS = 'LIVE_COMMS'
+  LIVE_COMMS = 'LIVE_COMMS',
+  USAGE = 'USAGE',
+  SETTINGS = 'SETTINGS'
 }
 
+export type IntelMode = 'flash' | 'web_ops' | 'geo_int' | 'analytics' | 'strategy';
+
+export const INTEL_MODES: IntelMode[] = ['flash', 'web_ops', 'geo_int', 'analytics', 'strategy'];
+
 export interface LogEntry {
   id: string;
   timestamp: string;
   source: string;
   message: string;
   type: 'info' | 'success' | 'warning' | 'error';
+  operator?: string; // Callsign of the operator whose session produced the entry
+  time: number; // Epoch ms, for ordering and durations
+  correlationId?: string; // Shared by every entry of one operation, across modules and tabs
+  durationMs?: number;
+  model?: string;
+  data?: Record<string, unknown>; // Structured context shown in the expanded view
+}
+
+export type LogDetails = Pick<LogEntry, 'correlationId' | 'durationMs' | 'model' | 'data'>;
+
+export interface OperatorProfile {
+  callsign: string;
+  color: string; // Hex display colour
+  defaultMode: IntelMode; // IntelChat mode on startup
 }
 
 export interface ChatMessage {
@@ -20,11 +40,61 @@ export interface ChatMessage {
   content: string;
   timestamp: number;
   authorId?: string; // ID of the user who sent the message
+  authorColor?: string; // Display colour of the author's profile
   groundingMetadata?: any; // For Search/Maps results
   thinking?: boolean; // If it was a thinking model
   analytics?: any; // Structured data for charts
 }
 
+export interface OperatorPresence {
+  operatorId: string;
+  color?: string;
+  activeModule: ModuleView;
+  lastSeen: number; // Epoch ms of the latest heartbeat
+}
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface JobRecord {
+  id: string;
+  label: string;
+  source: string; // Log source of the owning module, e.g. MEDIA
+  view: ModuleView; // Module that shows the result
+  status: JobStatus;
+  progress: number | null; // 0..1, null when the backend reports none
+  detail?: string; // Latest progress note
+  error?: string;
+  attempts: number;
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+}
+
+export interface UsageRecord {
+  id: string;
+  timestamp: number;
+  operator: string;
+  module: ModuleView;
+  mode: string; // e.g. strategy, generate, video, live
+  model: string;
+  promptTokens: number;
+  outputTokens: number;
+  thinkingTokens: number;
+  totalTokens: number;
+  images: number;
+  videos: number;
+  liveSeconds: number;
+  cost: number; // Estimated USD
+}
+
+export type BudgetPeriod = 'day' | 'month';
+
+export interface UsageBudget {
+  period: BudgetPeriod;
+  softLimit: number | null; // USD; warn when a call would cross it
+  hardLimit: number | null; // USD; block calls that would cross it
+}
+
 export interface SystemStatus {
   cpu: number;
   memory: number;
@@ -4,6 +4,8 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // With the API proxy configured the key stays on the server and is left out of the bundle
+    const clientKey = env.GEMINI_PROXY_URL ? undefined : env.GEMINI_API_KEY;
     return {
       server: {
         port: 3000,
@@ -11,8 +13,11 @@ export default defineConfig(({ mode }) => {
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(clientKey),
+        'process.env.GEMINI_API_KEY': JSON.stringify(clientKey),
+        'process.env.GEMINI_PROVIDER': JSON.stringify(env.GEMINI_PROVIDER),
+        'process.env.MESH_RELAY_URL': JSON.stringify(env.MESH_RELAY_URL),
+        'process.env.GEMINI_PROXY_URL': JSON.stringify(env.GEMINI_PROXY_URL)
       },
       resolve: {
         alias: {